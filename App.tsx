@@ -1,10 +1,42 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Webcam from 'react-webcam';
 import * as tf from '@tensorflow/tfjs';
 import * as cocoSsd from '@tensorflow-models/coco-ssd';
-import { analyzeFrame, transcribeAudio, generateSpeech } from './services/geminiService';
-import { playBeep, playSonarPing, playCautionSound, getAudioContext, playRawPCM } from './utils/audioUtils';
-import { SonarResponse, AppState } from './types';
+import { getProvider } from './services/providerRegistry';
+import { playEarcon, getAudioContext, createHomingTone, createSoundscape, setAudioTheme, setAudioVolumes, setEarconsMuted } from './utils/audioUtils';
+import { createHapticFeedback, panToDirection, resolveHapticOutput } from './utils/haptics';
+import { getAudioTheme } from './utils/earcons';
+import { buildSoundscapeSources } from './utils/soundscapeSources';
+import { createStatusTracker } from './utils/statusTracker';
+import { createHazardEngine, fuseStatus } from './utils/hazardEngine';
+import { createObjectTracker, describeTrack } from './utils/objectTracker';
+import { createScanScheduler } from './utils/scanScheduler';
+import { createSceneChangeDetector, SceneChangeDetector } from './utils/sceneChange';
+import { preprocessFrame, mapAnswerToSource, mapBoxToSource, mapReadingToSource, mapResponseToSource, PreprocessOptions, PreprocessResult } from './utils/framePreprocessor';
+import { getFramingHint, isTruncated, sortReadingOrder, textKey } from './utils/textReading';
+import { createTargetHoming, matchCocoClass, parseFindCommand } from './utils/objectSearch';
+import { createReplayPlayer, ReplayPlayer } from './utils/sessionReplay';
+import { createSessionRecorder } from './services/sessionRecorder';
+import { ProviderResponseError, ProviderUnavailableError, isAbortError } from './services/providerErrors';
+import { createSpeechManager, DEFAULT_VOICE_SETTINGS } from './services/speechManager';
+import { createTtsCache, withTtsCache } from './services/ttsCache';
+import { createConnectivityMonitor, ConnectivityMode } from './utils/connectivityMonitor';
+import { buildLocalGuidance } from './utils/localGuidance';
+import { createQueryHistory, parseHistoryCommand } from './utils/queryHistory';
+import { applyProfile, getProfile, PROFILE_MESSAGES } from './utils/settings';
+import { loadSettings, saveSettings, StoredSettings } from './services/settingsStore';
+import { startConversation, Conversation, ConversationState } from './services/conversationSession';
+import { parseVoiceCommand } from './utils/voiceCommands';
+import { createWakeWordListener } from './utils/wakeWordListener';
+import { createGestureHandlers, SwipeDirection } from './utils/gestures';
+import { createPhraseBook, createTranslator, getLanguagePacks, MessageKey, translateObject, Translator } from './utils/i18n';
+import SessionPanel from './components/SessionPanel';
+import ModelHealthList from './components/ModelHealthList';
+import AudioThemePanel from './components/AudioThemePanel';
+import VoiceSettingsSection from './components/VoiceSettingsSection';
+import FeedbackChannelSection from './components/FeedbackChannelSection';
+import SettingsPanel from './components/SettingsPanel';
+import { SonarResponse, SafetyStatus, HapticDirection, SceneAnswer, TextReading, ObjectLocation, HomingState, SpeechOptions, SonarSettings, AppState, StabilizedStatus, LocalHazard, TrackedObject, TrackMotion, Detection, SessionArchive, AudioCueType, ModelHealth } from './types';
 
 // Helper for converting blobs to base64
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -24,49 +56,169 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-// Language Configuration
-interface LanguageOption {
-  name: string;
-  code: string; 
-  locale: string; 
-  label: string; 
-  flag: string; 
-}
-
-const LANGUAGES: LanguageOption[] = [
-  { name: 'English', code: 'en', locale: 'en-US', label: 'ENG', flag: '🇺🇸' },
-  { name: 'Spanish', code: 'es', locale: 'es-ES', label: 'ESP', flag: '🇪🇸' },
-  { name: 'French', code: 'fr', locale: 'fr-FR', label: 'FRA', flag: '🇫🇷' },
-  { name: 'German', code: 'de', locale: 'de-DE', label: 'DEU', flag: '🇩🇪' },
-  { name: 'Japanese', code: 'ja', locale: 'ja-JP', label: 'JPN', flag: '🇯🇵' },
-];
+// Language Configuration: one registered language pack per menu entry
+const LANGUAGES = getLanguagePacks();
+
+// Frame preprocessing before Gemini calls
+const SCAN_PREPROCESS: PreprocessOptions = { targetSize: 768, jpegQuality: 0.7, cropToCorridor: false };
+// Voice queries may be about anything in view: keep the full frame and never reject
+const QUERY_PREPROCESS: PreprocessOptions = { targetSize: 1024, jpegQuality: 0.85, minBrightness: 0, minSharpness: 0 };
+// Consecutive rejected frames (~0.5s apart) before telling the user the camera is blocked
+const BLOCKED_CAMERA_FRAMES = 6;
+// Scan responses older than this (by frame capture time) are shown but not narrated
+const STALE_RESPONSE_MS = 4000;
+// Scan responses older than this describe a scene the user has left; drop them
+const MAX_RESPONSE_AGE_MS = 10000;
+// Answers below this confidence are spoken with a hedge
+const LOW_CONFIDENCE_ANSWER = 0.5;
+// Reading mode needs legible text: larger, sharper frames than navigation scans
+const READ_PREPROCESS: PreprocessOptions = { targetSize: 1280, jpegQuality: 0.9, minSharpness: 60 };
+const READ_INTERVAL_MS = 2500;
+// Routine SAFE guidance is narrated on status changes, otherwise at most this often
+const SAFE_NARRATION_INTERVAL_MS = 20000;
+// Master volume change per "louder" / "quieter"
+const VOLUME_STEP = 0.2;
+// Same framing hint is not repeated more often than this
+const READ_HINT_REPEAT_MS = 6000;
+// Object search: Gemini lookups only while COCO-SSD isn't tracking the target
+const SEARCH_PREPROCESS: PreprocessOptions = { targetSize: 768, jpegQuality: 0.7, minSharpness: 20 };
+const SEARCH_REMOTE_INTERVAL_MS = 3000;
+// Target unseen for this long: prompt the user to sweep the camera
+const SEARCH_LOST_MS = 4000;
+// Frames streamed into a live conversation: smaller and less frequent than scan frames
+const CONVERSATION_PREPROCESS: PreprocessOptions = { targetSize: 512, jpegQuality: 0.6, minBrightness: 0, minSharpness: 0 };
+const CONVERSATION_FRAME_INTERVAL_MS = 2000;
+// Accessible name of the main button while a mode is running
+const STOP_BUTTON_LABELS: Partial<Record<AppState, MessageKey>> = {
+  [AppState.SCANNING]: 'pauseSonar',
+  [AppState.REPLAYING]: 'stopReplay',
+  [AppState.CONVERSING]: 'endConversation',
+  [AppState.READING]: 'stopReading',
+  [AppState.SEARCHING]: 'stopSearch',
+};
+// Screen reader status words
+const STATUS_WORDS: Record<SafetyStatus, MessageKey> = { SAFE: 'statusSafe', CAUTION: 'statusCaution', STOP: 'statusStop' };
+const DIRECTION_WORDS: Record<HapticDirection, MessageKey> = { left: 'directionLeft', center: 'directionAhead', right: 'directionRight' };
+const MOTION_WORDS: Record<Exclude<TrackMotion, 'stationary'>, MessageKey> = { approaching: 'motionApproaching', receding: 'motionReceding', crossing: 'motionCrossing' };
+// Urgent phrases whose neural audio is generated ahead of time
+const PREWARM_PHRASES: MessageKey[] = ['stop', 'caution', 'turnLeft', 'turnRight', 'goStraight', 'pathClear'];
 
 const App: React.FC = () => {
   // State
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [lastResponse, setLastResponse] = useState<SonarResponse | null>(null);
+  const [stableStatus, setStableStatus] = useState<StabilizedStatus | null>(null);
+  const [localHazard, setLocalHazard] = useState<LocalHazard | null>(null);
   const [isProcessingState, setIsProcessingState] = useState(false); 
   const [emergencyLatch, setEmergencyLatch] = useState(false);
-  const [langIndex, setLangIndex] = useState(0); 
   const [showLangList, setShowLangList] = useState(false);
   const [modelLoaded, setModelLoaded] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [replayFrame, setReplayFrame] = useState<string | null>(null);
+  const [connectivityMode, setConnectivityMode] = useState<ConnectivityMode>('online');
+  const [modelHealth, setModelHealth] = useState<ModelHealth[]>([]);
+  const [sceneAnswer, setSceneAnswer] = useState<SceneAnswer | null>(null);
+  const [textReading, setTextReading] = useState<TextReading | null>(null);
+  const [translateReading, setTranslateReading] = useState(false);
+  const [searchTarget, setSearchTarget] = useState<string | null>(null);
+  const [homingStatus, setHomingStatus] = useState<HomingState | null>(null);
+  const [showSound, setShowSound] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [storedSettings, setStoredSettings] = useState<StoredSettings>(() => loadSettings(resolveHapticOutput().isAvailable()));
+  const [handsFree, setHandsFree] = useState(false);
+  const [isListening, setIsListening] = useState(false); // Recording a push-to-talk question
+  const [liveStatus, setLiveStatus] = useState({ text: '', urgent: false }); // Screen reader announcement
+  const [conversationState, setConversationState] = useState<ConversationState>('closed');
+  const [conversationQuestion, setConversationQuestion] = useState('');
+  const [conversationAnswer, setConversationAnswer] = useState('');
 
+  const { settings, profileId } = storedSettings;
+  const { audioThemeId, audioVolumes, voiceSettings, feedbackChannel } = settings;
+  const langIndex = Math.max(0, LANGUAGES.findIndex(lang => lang.code === settings.languageCode));
   const currentLang = LANGUAGES[langIndex];
+  const t = useMemo(() => createTranslator(currentLang), [currentLang]);
+  const phrases = useMemo(() => createPhraseBook(currentLang), [currentLang]);
   
   // Refs
+  const translatorRef = useRef<Translator>(t); // Current language for callbacks created once
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const processingCanvasRef = useRef<HTMLCanvasElement>(null); 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const isProcessingRef = useRef(false); // For Gemini Loop lock
+  const statusTrackerRef = useRef(createStatusTracker({ deescalateFrames: 2, panSmoothing: 0.5 }));
+  const schedulerRef = useRef(createScanScheduler({ minIntervalMs: 2500, baseIntervalMs: 6000, maxIntervalMs: 15000, maxRequests: 15 }));
+  const sceneChangeRef = useRef<SceneChangeDetector | null>(null);
+  const rejectedFramesRef = useRef(0);
+  const connectivityRef = useRef(createConnectivityMonitor({ failureThreshold: 2, probeIntervalMs: 30000 }));
   
   // Realtime Detection Refs
   const netRef = useRef<cocoSsd.ObjectDetection | null>(null);
   const detectedObjectsRef = useRef<cocoSsd.DetectedObject[]>([]);
   const isDetectingRef = useRef(false); // For TFJS Loop lock
   const lastResponseRef = useRef<SonarResponse | null>(null); // Mirror state for render loop
+  const settingsRef = useRef<SonarSettings>(settings); // Mirror state for render loop
+  const sceneAnswerRef = useRef<SceneAnswer | null>(null); // Mirror state for render loop
+  const textReadingRef = useRef<TextReading | null>(null); // Mirror state for render loop
+  const readKeysRef = useRef<Set<string>>(new Set()); // Text blocks already read aloud
+  const lastReadHintRef = useRef<{ message: string; at: number } | null>(null);
+  const searchRef = useRef<{ target: string; cocoClass: string | null } | null>(null);
+  const targetHomingRef = useRef(createTargetHoming());
+  // Homing ticks must not cut off the longer "found" buzz
+  const homingHapticHoldRef = useRef(0);
+  const homingToneRef = useRef(createHomingTone({
+    onMutedPulse: () => {
+      if (performance.now() >= homingHapticHoldRef.current) hapticsRef.current.event('homing');
+    },
+  }));
+  const targetLocationRef = useRef<ObjectLocation | null>(null); // Latest Gemini sighting, for the render loop
+  const objectTrackerRef = useRef(createObjectTracker());
+  const tracksRef = useRef<TrackedObject[]>([]); // Stable identities for detectedObjectsRef
+  const hazardEngineRef = useRef(createHazardEngine({ describe: track => describeTrack(track, translatorRef.current) }));
+  const localHazardRef = useRef<LocalHazard | null>(null); // Latest local hazard, updated every detection
+  const announcedHazardRef = useRef<LocalHazard | null>(null);
+  const lastSafeNarrationRef = useRef(0); // When routine SAFE guidance was last spoken
   const animationFrameIdRef = useRef<number>(0);
+  const soundscapeRef = useRef(createSoundscape({ maxVoices: 4 }));
+  const hapticsRef = useRef(createHapticFeedback({ output: resolveHapticOutput(), safeIntervalMs: 4000 }));
+  const frameSizeRef = useRef({ width: 0, height: 0 }); // Source size of the latest detections
+
+  // Session Recording & Replay Refs
+  const recorderRef = useRef(createSessionRecorder());
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const replayImageRef = useRef<HTMLImageElement>(null);
+  const handleResponseRef = useRef<(response: SonarResponse) => void>(() => {});
+
+  // In-flight request cancellation (voice query, neural TTS)
+  const queryControllerRef = useRef<AbortController | null>(null);
+  const ttsCacheRef = useRef(createTtsCache({ maxEntries: 200 }));
+  const speechManagerRef = useRef(createSpeechManager({
+    synthesize: withTtsCache(ttsCacheRef.current, () => getProvider().speechVoiceId, (text, signal) => getProvider().generateSpeech(text, { signal })),
+    // Neural TTS needs the network; don't wait for it to fail while offline
+    canSynthesize: () => connectivityRef.current.getMode() !== 'offline',
+  }));
+  const conversationRef = useRef<Conversation | null>(null);
+  const queryHistoryRef = useRef(createQueryHistory({ maxTurns: 5 })); // Voice query follow-up context
+  const conversationGenRef = useRef(0); // Bumped on stop so a still-connecting session is discarded
+  const voiceCommandRef = useRef<(text: string) => void>(() => {});
+  // Keyboard and gesture input is handled outside React events; these always see the latest handlers
+  const talkKeyRef = useRef<{ down(): void; up(): void }>({ down: () => {}, up: () => {} });
+  const gestureActionRef = useRef<(gesture: 'doubleTap' | SwipeDirection) => void>(() => {});
+  const gesturesRef = useRef(createGestureHandlers({
+    onDoubleTap: () => gestureActionRef.current('doubleTap'),
+    onSwipe: direction => gestureActionRef.current(direction),
+  }));
+  const wakeWordRef = useRef(createWakeWordListener({
+    onWake: () => playEarcon('listenStart'),
+    onCommand: text => voiceCommandRef.current(text),
+    onError: error => {
+      setHandsFree(false);
+      speak(translatorRef.current(error === 'not-allowed' ? 'micDenied' : error === 'network' ? 'handsFreeNeedsConnection' : 'handsFreeStopped'));
+    },
+    isMuted: () => speechManagerRef.current.isSpeaking(),
+  }));
 
   // Initialize Audio
   const initAudio = () => {
@@ -96,74 +248,186 @@ const App: React.FC = () => {
     loadModel();
   }, []);
 
+  // --- Poll Model Health While the Log Panel Is Open ---
+  useEffect(() => {
+    if (!showSessions) return;
+    const refresh = () => setModelHealth(getProvider().getHealth?.() ?? []);
+    refresh();
+    const intervalId = setInterval(refresh, 1000);
+    return () => clearInterval(intervalId);
+  }, [showSessions]);
+
+  // --- Hands-free Listening ---
+  // The recognizer shares the mic with push-to-talk and live conversation; step aside for them.
+  // Push-to-talk only enters LISTENING from SCANNING, so isListening covers the other states.
+  const micInUse = isListening || appState === AppState.LISTENING || appState === AppState.CONVERSING;
+  useEffect(() => {
+    if (!handsFree || micInUse) return;
+    const listener = wakeWordRef.current;
+    listener.start(currentLang.locale, phrases('wakePhrases'));
+    return () => listener.stop();
+  }, [handsFree, micInUse, currentLang.locale, phrases]);
+
   // --- Sync State to Ref for Render Loop ---
   useEffect(() => {
     lastResponseRef.current = lastResponse;
   }, [lastResponse]);
 
-  // --- Voice Output ---
-  const speak = useCallback(async (text: string, useHighQuality = false) => {
-    if (!text) return;
-    console.log(`[App] Speaking: "${text}" (HighQuality: ${useHighQuality})`);
-    
-    // Basic SpeechSynthesis (Offline / Fallback)
-    if (!useHighQuality && window.speechSynthesis) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 1.1; 
-      utterance.pitch = 1.0;
-      utterance.lang = currentLang.locale; 
-      window.speechSynthesis.speak(utterance);
-      return;
-    }
+  useEffect(() => {
+    sceneAnswerRef.current = sceneAnswer;
+  }, [sceneAnswer]);
 
-    // High Quality Neural TTS
-    if (useHighQuality) {
-       const audioBase64 = await generateSpeech(text);
-       if (audioBase64) {
-         // Use the raw PCM player
-         await playRawPCM(audioBase64);
-       } else {
-         console.warn("[App] High quality speech failed, falling back to synthesis");
-         // Fallback
-         const utterance = new SpeechSynthesisUtterance(text);
-         utterance.lang = currentLang.locale;
-         window.speechSynthesis.speak(utterance);
-       }
-    }
+  useEffect(() => {
+    textReadingRef.current = textReading;
+  }, [textReading]);
+
+  const recordCue = (cue: AudioCueType, pan?: number, text?: string) => {
+    recorderRef.current.record({ kind: 'cue', timestamp: Date.now(), cue, pan, text });
+  };
+
+  // --- Settings & Profiles ---
+  const updateSettings = (patch: Partial<SonarSettings>) => {
+    setStoredSettings(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }));
+  };
+
+  const selectProfile = (id: string) => {
+    const profile = getProfile(id);
+    if (!profile) return;
+    console.log(`[App] Applying profile: ${profile.name}`);
+    const hapticsAvailable = hapticsRef.current.getOutput().isAvailable();
+    setStoredSettings(prev => ({ settings: applyProfile(prev.settings, profile, hapticsAvailable), profileId: profile.id }));
+    speak(t('profileApplied', { profile: PROFILE_MESSAGES[profile.id] ? t(PROFILE_MESSAGES[profile.id].name) : profile.name }), { interrupt: true });
+  };
+
+  useEffect(() => {
+    saveSettings(storedSettings);
+  }, [storedSettings]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    schedulerRef.current.setBaseInterval(settings.scanIntervalMs);
+  }, [settings.scanIntervalMs]);
+
+  // --- Audio Theme ---
+  useEffect(() => {
+    setAudioTheme(getAudioTheme(audioThemeId));
+  }, [audioThemeId]);
+
+  useEffect(() => {
+    setAudioVolumes(audioVolumes);
+  }, [audioVolumes]);
+
+  // --- Feedback Channels ---
+  useEffect(() => {
+    setEarconsMuted(feedbackChannel === 'haptic');
+    hapticsRef.current.setEnabled(feedbackChannel !== 'audio');
+  }, [feedbackChannel]);
+
+  // --- Language & Voice Output ---
+  useEffect(() => {
+    translatorRef.current = t;
+  }, [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = currentLang.locale;
+    document.documentElement.dir = currentLang.direction;
+  }, [currentLang.locale, currentLang.direction]);
+
+  useEffect(() => {
+    speechManagerRef.current.setLanguage(currentLang.locale);
   }, [currentLang.locale]);
 
+  useEffect(() => {
+    Object.entries(voiceSettings).forEach(([locale, voice]) => speechManagerRef.current.setVoiceSettings(locale, voice));
+  }, [voiceSettings]);
+
+  // Pre-generate neural audio for urgent phrases so they play instantly, even on a slow link
+  useEffect(() => {
+    const voice = getProvider().speechVoiceId;
+    if (connectivityMode === 'offline' || !voice) return;
+    const controller = new AbortController();
+    ttsCacheRef.current.prewarm(
+      PREWARM_PHRASES.map(key => t(key)),
+      { voice, locale: currentLang.locale },
+      text => getProvider().generateSpeech(text, { signal: controller.signal })
+    );
+    return () => controller.abort();
+  }, [t, currentLang.locale, connectivityMode]);
+
+  const speak = useCallback((text: string, options: SpeechOptions = {}) => {
+    if (!text) return;
+    console.log(`[App] Speaking: "${text}" (${options.priority ?? 'normal'}${options.highQuality ? ', HighQuality' : ''})`);
+    recordCue('speech', undefined, text);
+    speechManagerRef.current.speak(text, options);
+  }, []);
+
   const selectLanguage = (index: number) => {
     console.log(`[App] Switching language to ${LANGUAGES[index].name}`);
-    setLangIndex(index);
+    updateSettings({ languageCode: LANGUAGES[index].code });
     setShowLangList(false);
     const newLang = LANGUAGES[index];
-    window.speechSynthesis.cancel();
-    const utterance = new SpeechSynthesisUtterance(newLang.name);
-    utterance.lang = newLang.locale;
-    window.speechSynthesis.speak(utterance);
+    // Announce the new language in its own voice right away
+    speechManagerRef.current.setLanguage(newLang.locale);
+    speak(newLang.nativeName, { interrupt: true });
+  };
+
+  // --- Detections -> Tracks -> Local Hazards (live camera or replay) ---
+  const processDetections = (detections: Detection[], frameWidth: number, frameHeight: number) => {
+    const now = performance.now();
+    recorderRef.current.record({ kind: 'detections', timestamp: Date.now(), frameWidth, frameHeight, detections });
+    tracksRef.current = objectTrackerRef.current.update(detections, frameWidth, frameHeight, now);
+    frameSizeRef.current = { width: frameWidth, height: frameHeight };
+
+    // Searching for a COCO class: every detection frame is a homing update
+    const search = searchRef.current;
+    if (search?.cocoClass) {
+        targetHomingRef.current.updateLocal(tracksRef.current, search.cocoClass, frameWidth, frameHeight, now);
+    }
+
+    // Local hazard check between Gemini cycles; only re-render when the alert changes
+    const hazard = hazardEngineRef.current.evaluate(tracksRef.current, now);
+    const prevHazard = localHazardRef.current;
+    localHazardRef.current = hazard;
+    if (hazard?.announce || hazard?.safety_status !== prevHazard?.safety_status || hazard?.label !== prevHazard?.label) {
+        setLocalHazard(hazard);
+    }
   };
 
   // --- Unified Render & Detection Loop (60 FPS) ---
   useEffect(() => {
+    const isReplay = appState === AppState.REPLAYING;
+    // Continuous spatial audio while navigating; one-shot pings and alerts layer over it
+    const soundscape = soundscapeRef.current;
+    const soundscapeActive = (appState === AppState.SCANNING || isReplay) && feedbackChannel !== 'haptic';
+    if (soundscapeActive) soundscape.start();
+
     const loop = async () => {
       const canvas = canvasRef.current;
       const video = webcamRef.current?.video;
+      const replayImage = replayImageRef.current;
+      // During replay the recorded frame stands in for the camera
+      const source: HTMLElement | undefined = isReplay ? replayImage ?? undefined : video;
+      const sourceReady = isReplay ? !!replayImage?.complete && replayImage.naturalWidth > 0 : video?.readyState === 4;
       
-      if (canvas && video && video.readyState === 4) {
+      if (canvas && source && sourceReady) {
         // Match dimensions
-        if (canvas.width !== video.clientWidth) canvas.width = video.clientWidth;
-        if (canvas.height !== video.clientHeight) canvas.height = video.clientHeight;
+        if (canvas.width !== source.clientWidth) canvas.width = source.clientWidth;
+        if (canvas.height !== source.clientHeight) canvas.height = source.clientHeight;
 
         const ctx = canvas.getContext('2d');
         if (ctx) {
             // 1. Run Local Object Detection (Fast, Async, Non-blocking)
-            if (netRef.current && appState === AppState.SCANNING && !emergencyLatch && !isDetectingRef.current) {
+            const detectionActive = appState === AppState.SCANNING || appState === AppState.SEARCHING;
+            if (netRef.current && video && detectionActive && !emergencyLatch && !isDetectingRef.current) {
                 isDetectingRef.current = true;
                 // Run detection on next microtask
-                netRef.current.detect(video, undefined, 0.4).then(detections => {
+                netRef.current.detect(video, undefined, settingsRef.current.detectionConfidence).then(detections => {
                     detectedObjectsRef.current = detections;
                     isDetectingRef.current = false;
+                    processDetections(detections, video.videoWidth, video.videoHeight);
                 }).catch(e => {
                     console.warn("TF Detection error", e);
                     isDetectingRef.current = false;
@@ -205,12 +469,16 @@ const App: React.FC = () => {
                 ctx.fillText(label.toUpperCase(), lx + 4, ly + 2);
             };
 
-            // 3. Render TFJS Detections (Tactical Layer - Cyan)
-            if (appState === AppState.SCANNING && !emergencyLatch && detectedObjectsRef.current) {
-                detectedObjectsRef.current.forEach(obj => {
+            // 3. Render Tracked TFJS Detections (Tactical Layer - Cyan)
+            if ((detectionActive || isReplay) && !emergencyLatch) {
+                tracksRef.current.forEach(track => {
+                    // Briefly coast missed tracks so boxes don't flicker between detections
+                    if (track.missedFrames > 2) return;
                     // Filter out less important objects to reduce noise for visually impaired
-                    if (['person', 'car', 'chair', 'door', 'couch', 'tv', 'laptop'].includes(obj.class) || obj.score > 0.7) {
-                        drawBox(obj.bbox[0], obj.bbox[1], obj.bbox[2], obj.bbox[3], '#00FFFF', `${obj.class}`, false);
+                    if (settingsRef.current.importantClasses.includes(track.label) || track.score > 0.7) {
+                        const translate = translatorRef.current;
+                        const motion = track.motion === 'stationary' ? '' : ` ${translate(MOTION_WORDS[track.motion])}`;
+                        drawBox(track.bbox[0], track.bbox[1], track.bbox[2], track.bbox[3], '#00FFFF', `${translateObject(translate, track.label)} #${track.id}${motion}`, false);
                     }
                 });
             }
@@ -226,7 +494,7 @@ const App: React.FC = () => {
                         const y = (ymin / 1000) * canvas.height;
                         const w = ((xmax - xmin) / 1000) * canvas.width;
                         const hBox = ((ymax - ymin) / 1000) * canvas.height;
-                        drawBox(x, y, w, hBox, '#FF3333', `HAZARD: ${h.label}`, true);
+                        drawBox(x, y, w, hBox, '#FF3333', translatorRef.current('overlayHazard', { label: h.label }), true);
                     });
                 }
                 if (geminiData.visual_debug?.safe_path) {
@@ -237,95 +505,560 @@ const App: React.FC = () => {
                         const y = (ymin / 1000) * canvas.height;
                         const w = ((xmax - xmin) / 1000) * canvas.width;
                         const hBox = ((ymax - ymin) / 1000) * canvas.height;
-                        drawBox(x, y, w, hBox, '#00FF66', p.label || 'PATH', true);
+                        drawBox(x, y, w, hBox, '#00FF66', p.label || translatorRef.current('overlayPath'), true);
                     });
                 }
             }
+
+            // 5. Render Regions Referenced by the Last Voice Answer (Yellow)
+            sceneAnswerRef.current?.regions.forEach(r => {
+                const [ymin, xmin, ymax, xmax] = r.box_2d;
+                const x = (xmin / 1000) * canvas.width;
+                const y = (ymin / 1000) * canvas.height;
+                const w = ((xmax - xmin) / 1000) * canvas.width;
+                const hBox = ((ymax - ymin) / 1000) * canvas.height;
+                drawBox(x, y, w, hBox, '#FFD700', r.label, true);
+            });
+
+            // 6. Render the Search Target's Latest Gemini Sighting (Magenta)
+            const target = targetLocationRef.current;
+            if (appState === AppState.SEARCHING && target) {
+                const [ymin, xmin, ymax, xmax] = target.box_2d;
+                const x = (xmin / 1000) * canvas.width;
+                const y = (ymin / 1000) * canvas.height;
+                const w = ((xmax - xmin) / 1000) * canvas.width;
+                const hBox = ((ymax - ymin) / 1000) * canvas.height;
+                drawBox(x, y, w, hBox, '#FF00FF', translatorRef.current('overlayTarget', { label: target.label }), true);
+            }
+
+            // 7. Render Text Blocks in Reading Mode (White)
+            if (appState === AppState.READING) {
+                textReadingRef.current?.blocks.forEach((b, i) => {
+                    const [ymin, xmin, ymax, xmax] = b.box_2d;
+                    const x = (xmin / 1000) * canvas.width;
+                    const y = (ymin / 1000) * canvas.height;
+                    const w = ((xmax - xmin) / 1000) * canvas.width;
+                    const hBox = ((ymax - ymin) / 1000) * canvas.height;
+                    drawBox(x, y, w, hBox, '#FFFFFF', translatorRef.current('overlayText', { number: i + 1 }), false);
+                });
+            }
         }
       }
+      // 8. Update Soundscape Voices
+      if (soundscapeActive && !emergencyLatch) {
+          const { width, height } = frameSizeRef.current;
+          soundscape.update(buildSoundscapeSources(tracksRef.current, localHazardRef.current, lastResponseRef.current, width, height, Date.now()));
+      }
+
       animationFrameIdRef.current = requestAnimationFrame(loop);
     };
     loop();
-    return () => cancelAnimationFrame(animationFrameIdRef.current);
-  }, [appState, emergencyLatch]);
+    return () => {
+      cancelAnimationFrame(animationFrameIdRef.current);
+      soundscape.stop();
+    };
+  }, [appState, emergencyLatch, feedbackChannel]);
+
+  // --- Interim Local Hazard Alerts ---
+  useEffect(() => {
+    if (!localHazard?.announce || announcedHazardRef.current === localHazard) return;
+    // Only speak up when local detections are more severe than what Gemini last reported
+    const fused = fuseStatus(stableStatus ?? lastResponseRef.current, localHazard);
+    if (fused?.source !== 'local') return;
+    announcedHazardRef.current = localHazard;
+
+    console.log(`[App] Local hazard: ${localHazard.safety_status} ${localHazard.description} (track #${localHazard.trackId})`);
+    if (localHazard.safety_status === 'STOP') {
+        playEarcon('stop', localHazard.stereo_pan);
+        hapticsRef.current.status('STOP', localHazard.stereo_pan);
+        recordCue('caution', localHazard.stereo_pan);
+        speak(t('stop'), { priority: 'critical', highQuality: true, dedupe: false });
+        speak(`${localHazard.description}.`, { priority: 'high' });
+    } else {
+        playEarcon('caution', localHazard.stereo_pan);
+        hapticsRef.current.status('CAUTION', localHazard.stereo_pan);
+        recordCue('ping', localHazard.stereo_pan);
+        speak(t('caution'), { priority: 'high', highQuality: true, dedupe: false });
+        speak(`${localHazard.description}.`, { priority: 'high' });
+    }
+  }, [localHazard, stableStatus, speak, t]);
+
+  // --- Sonar Response Handling (live Gemini cycles and replay) ---
+  // Stale responses still update status and earcons but skip routine narration
+  const handleSonarResponse = useCallback((response: SonarResponse, options: { stale?: boolean } = {}) => {
+    const narrate = !options.stale;
+    const stable = statusTrackerRef.current.update(response);
+    console.log(`[App] Gemini Analysis Complete: ${response.safety_status} (stable: ${stable.safety_status}${options.stale ? ', stale' : ''})`);
+    // Back to navigation: the voice answer's highlights no longer match the view
+    setSceneAnswer(null);
+    setLastResponse(response);
+    setStableStatus(stable);
+    
+    // Audio Feedback Logic (driven by the stabilized status)
+    if (stable.safety_status === 'STOP') {
+        playEarcon('stop', stable.stereo_pan);
+        hapticsRef.current.status('STOP', stable.stereo_pan);
+        recordCue('caution', stable.stereo_pan);
+        // The cached "Stop" plays instantly; the explanation follows once it is synthesized
+        if (stable.escalated || (narrate && response.safety_status === 'STOP')) {
+            speak(t('stop'), { priority: 'critical', highQuality: true, dedupe: false });
+            speak(response.reasoning_summary, { priority: 'high', highQuality: stable.escalated });
+        }
+    } else if (stable.safety_status === 'CAUTION') {
+        playEarcon('caution', stable.stereo_pan);
+        hapticsRef.current.status('CAUTION', stable.stereo_pan);
+        recordCue('ping', stable.stereo_pan);
+        if (narrate && (stable.changed || response.safety_status === 'CAUTION')) {
+            // The cached "Caution" marks the change; while it lasts only new commands are spoken
+            if (stable.changed) speak(t('caution'), { priority: 'high', highQuality: true, dedupe: false });
+            speak(response.navigation_command, { priority: 'high' });
+        }
+    } else {
+        playEarcon('safe', stable.stereo_pan);
+        hapticsRef.current.status('SAFE', stable.stereo_pan);
+        recordCue('ping', stable.stereo_pan);
+        // Safe status: the all-clear is announced normally; Gemini rewords every cycle, so later
+        // updates are rate limited here rather than left to the speech manager's dedupe
+        const now = Date.now();
+        if (narrate && (stable.changed || now - lastSafeNarrationRef.current >= SAFE_NARRATION_INTERVAL_MS)) {
+             lastSafeNarrationRef.current = now;
+             speak(response.navigation_command, { priority: stable.changed ? 'normal' : 'low' });
+        }
+    }
+  }, [speak, t]);
+  handleResponseRef.current = handleSonarResponse;
+
+  // --- Offline Degraded Mode ---
+  const onConnectivityChange = useCallback((mode: ConnectivityMode) => {
+    setConnectivityMode(mode);
+    if (mode === 'offline') {
+        speak(t('offlineMode'));
+    } else {
+        speak(t('connectionRestored'));
+    }
+  }, [speak, t]);
+
+  useEffect(() => {
+    // Coming back online only schedules a probe; the next successful call flips the mode
+    const handleOnline = () => connectivityRef.current.setBrowserOnline(true, Date.now());
+    const handleOffline = () => {
+        if (connectivityRef.current.setBrowserOnline(false, Date.now())) onConnectivityChange('offline');
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+    };
+  }, [onConnectivityChange]);
 
   // --- Gemini Intelligence Loop ---
   useEffect(() => {
     let intervalId: NodeJS.Timeout;
+    const scheduler = schedulerRef.current;
+    // Cycles started by this effect instance; aborted when scanning stops or settings change
+    const inFlight = new Set<AbortController>();
 
     const runGeminiCycle = async () => {
       if (appState !== AppState.SCANNING || isProcessingRef.current || emergencyLatch) return;
       
-      const webcam = webcamRef.current;
-      if (!webcam) return;
+      const video = webcamRef.current?.video;
+      const processingCanvas = processingCanvasRef.current;
+      if (!video || !processingCanvas || video.readyState !== 4) return;
+
+      // Guidance from local detections only; costs no quota
+      const respondLocally = () => {
+        const response = buildLocalGuidance(tracksRef.current, localHazardRef.current, video.videoWidth, video.videoHeight, t);
+        recorderRef.current.record({ kind: 'response', timestamp: Date.now(), response, latencyMs: 0 });
+        handleSonarResponse(response);
+      };
+      const runLocalCycle = () => {
+        scheduler.recordRun(Date.now(), false);
+        respondLocally();
+      };
+
+      // While offline, only an occasional probe goes to Gemini
+      const connectivity = connectivityRef.current;
+      if (connectivity.getMode() === 'offline' && !connectivity.shouldProbe(Date.now())) {
+          runLocalCycle();
+          return;
+      }
       
-      const screenshot = webcam.getScreenshot();
-      if (!screenshot) {
-          console.warn("[App] Screenshot failed or empty");
+      const capturedAt = Date.now();
+      const frame = preprocessFrame(video, processingCanvas, SCAN_PREPROCESS);
+      if (frame.ok === false) {
+          console.warn(`[App] Frame rejected (${frame.reason}). Brightness: ${frame.brightness.toFixed(2)}, Sharpness: ${frame.sharpness.toFixed(0)}`);
+          rejectedFramesRef.current++;
+          if (frame.reason === 'dark' && rejectedFramesRef.current === BLOCKED_CAMERA_FRAMES) {
+              speak(t('cameraBlocked'), { priority: 'high' });
+          }
           return;
       }
+      rejectedFramesRef.current = 0;
       
       isProcessingRef.current = true;
       setIsProcessingState(true);
-
-      const base64Image = screenshot.split(',')[1];
+      scheduler.recordRun(Date.now());
+      const controller = new AbortController();
+      inFlight.add(controller);
       
       try {
-        console.log("[App] Starting Gemini Cycle...");
-        playBeep(880, 50, 'sine'); // Scanning blip
+        console.log(`[App] Starting Gemini Cycle... Frame: ${frame.transform.outputWidth}x${frame.transform.outputHeight}`);
+        playEarcon('scan'); // Scanning blip
+        const startedAt = Date.now();
+        recordCue('scan');
+        recorderRef.current.record({ kind: 'frame', timestamp: startedAt, base64Image: frame.base64Image, transform: frame.transform });
         
-        const response = await analyzeFrame(base64Image, currentLang.name);
+        const rawResponse = await getProvider().analyzeFrame(frame.base64Image, currentLang.name, undefined, { signal: controller.signal, capturedAt });
+        if (connectivity.recordSuccess()) onConnectivityChange('online');
         
-        if (response) {
-            console.log("[App] Gemini Analysis Complete:", response.safety_status);
-            setLastResponse(response);
-            
-            // Audio Feedback Logic
-            if (response.safety_status === 'STOP') {
-                playCautionSound(response.stereo_pan);
-                speak(`STOP. ${response.reasoning_summary}`, true);
-            } else if (response.safety_status === 'CAUTION') {
-                playSonarPing(response.stereo_pan);
-                speak(`Caution. ${response.navigation_command}`);
+        if (rawResponse) {
+            // Boxes and pan come back relative to the submitted (possibly cropped) image
+            const response = mapResponseToSource(rawResponse, frame.transform);
+            recorderRef.current.record({ kind: 'response', timestamp: Date.now(), response, latencyMs: Date.now() - startedAt });
+
+            const ageMs = Date.now() - (response.captured_at ?? capturedAt);
+            if (ageMs > MAX_RESPONSE_AGE_MS) {
+                console.warn(`[App] Dropping stale response (${ageMs}ms old)`);
             } else {
-                playSonarPing(response.stereo_pan);
-                // Safe status: infrequent updates or just pings
-                if (Math.random() > 0.7) {
-                     speak(response.navigation_command);
-                }
+                handleSonarResponse(response, { stale: ageMs > STALE_RESPONSE_MS });
             }
         }
       } catch (e) {
-        console.error("Gemini Cycle Error", e);
+        if (isAbortError(e)) {
+            console.log("[App] Gemini cycle cancelled");
+        } else if (e instanceof ProviderUnavailableError) {
+            console.warn(`[App] Provider unavailable (${e.status ?? 'network'})`);
+            if (connectivity.recordFailure(Date.now())) onConnectivityChange('offline');
+            // This cycle's run is already recorded; recording it again would double the backoff
+            if (connectivity.getMode() === 'offline') respondLocally();
+        } else if (e instanceof ProviderResponseError) {
+            // No usable analysis of this frame: stop the user rather than guess
+            console.error("[App] Unusable analysis", e);
+            handleSonarResponse({
+                safety_status: 'STOP',
+                reasoning_summary: t('analysisFailed'),
+                navigation_command: t('stop'),
+                stereo_pan: 0,
+                visual_debug: { hazards: [], safe_path: [] },
+                captured_at: capturedAt,
+            }, { stale: false });
+        } else {
+            console.error("Gemini Cycle Error", e);
+        }
       } finally {
+        inFlight.delete(controller);
         isProcessingRef.current = false;
         setIsProcessingState(false);
       }
     };
 
+    // Sample scene activity a few times a second and let the scheduler decide when to call Gemini
+    const tick = () => {
+      const video = webcamRef.current?.video;
+      const processingCanvas = processingCanvasRef.current;
+      if (processingCanvas && !sceneChangeRef.current) {
+        sceneChangeRef.current = createSceneChangeDetector(processingCanvas);
+      }
+      const sceneChange = video && video.readyState === 4 && sceneChangeRef.current
+        ? sceneChangeRef.current.measure(video)
+        : 0;
+      scheduler.observe({
+        sceneChange,
+        maxTrackId: tracksRef.current.reduce((max, t) => Math.max(max, t.id), 0),
+        status: statusTrackerRef.current.getState()?.safety_status ?? null,
+      });
+      if (scheduler.shouldRun(Date.now())) runGeminiCycle();
+    };
+
     if (appState === AppState.SCANNING) {
-      // Run every 6.0 seconds to balance latency and cost/quota
-      intervalId = setInterval(runGeminiCycle, 6000); 
-      runGeminiCycle(); // Run immediately on start
+      intervalId = setInterval(tick, 500);
+      tick(); // Run immediately on start
     }
 
-    return () => clearInterval(intervalId);
-  }, [appState, emergencyLatch, currentLang, speak]);
+    return () => {
+      clearInterval(intervalId);
+      inFlight.forEach(controller => controller.abort());
+    };
+  }, [appState, emergencyLatch, currentLang, t, speak, handleSonarResponse, onConnectivityChange]);
+
+  // --- Text Reading Loop ---
+  useEffect(() => {
+    if (appState !== AppState.READING) return;
+    let busy = false;
+    const controller = new AbortController();
+    // New translation target: everything is worth reading again
+    readKeysRef.current = new Set();
+
+    const readCycle = async () => {
+      const video = webcamRef.current?.video;
+      const processingCanvas = processingCanvasRef.current;
+      if (busy || !video || !processingCanvas || video.readyState !== 4) return;
+
+      const capturedAt = Date.now();
+      const frame = preprocessFrame(video, processingCanvas, READ_PREPROCESS);
+      if (frame.ok === false) {
+          console.warn(`[App] Reading frame rejected (${frame.reason})`);
+          if (frame.reason === 'blurred') speakReadHint(t('holdSteady'));
+          return;
+      }
+
+      busy = true;
+      setIsProcessingState(true);
+      try {
+        const rawReading = await getProvider().readText(frame.base64Image, {
+            signal: controller.signal,
+            capturedAt,
+            translateTo: translateReading ? currentLang.name : undefined,
+        });
+        // Framing is judged against the submitted image, before mapping back to the full frame
+        const ordered = sortReadingOrder(rawReading.blocks);
+        const hint = getFramingHint(ordered);
+        const reading = mapReadingToSource({ ...rawReading, blocks: ordered }, frame.transform);
+        setTextReading(reading);
+
+        // Read complete blocks not read yet; ones the model reports as cut off wait until the user re-aims
+        const fresh = ordered.filter(block => !isTruncated(block) && !readKeysRef.current.has(textKey(block.text)));
+        fresh.forEach(block => readKeysRef.current.add(textKey(block.text)));
+        const text = fresh.map(block => block.translation ?? block.text).join('. ');
+        console.log(`[App] Read ${ordered.length} text blocks (${fresh.length} new)${hint ? `, hint: ${hint.message}` : ''}`);
+
+        if (text) {
+            speak(hint ? `${text}. ${t(hint.message)}` : text);
+            if (hint) lastReadHintRef.current = { message: t(hint.message), at: Date.now() };
+        } else if (hint) {
+            speakReadHint(t(hint.message));
+        }
+      } catch (e) {
+        if (isAbortError(e)) {
+            console.log("[App] Text reading cancelled");
+        } else if (e instanceof ProviderUnavailableError) {
+            console.warn(`[App] Provider unavailable during reading (${e.status ?? 'network'})`);
+            speak(t('readingNeedsConnection'));
+            setAppState(AppState.IDLE);
+        } else {
+            console.error("[App] Text reading failed", e);
+        }
+      } finally {
+        busy = false;
+        setIsProcessingState(false);
+      }
+    };
+
+    const speakReadHint = (message: string) => {
+      const last = lastReadHintRef.current;
+      const now = Date.now();
+      if (last && last.message === message && now - last.at < READ_HINT_REPEAT_MS) return;
+      lastReadHintRef.current = { message, at: now };
+      speak(message);
+    };
+
+    const intervalId = setInterval(readCycle, READ_INTERVAL_MS);
+    readCycle();
+    return () => {
+      clearInterval(intervalId);
+      controller.abort();
+    };
+  }, [appState, translateReading, currentLang, t, speak]);
+
+  // --- Object Search Homing Loop ---
+  useEffect(() => {
+    if (appState !== AppState.SEARCHING) return;
+    const homing = targetHomingRef.current;
+    const tone = homingToneRef.current;
+    const controller = new AbortController();
+    let busy = false;
+    let lastRemoteAt = 0;
+    let lastSeenAt = performance.now();
+    let lostAnnounced = false;
+    let reachAnnounced = false;
+    let lastHudUpdate = 0;
+
+    // Open-vocabulary lookup; also covers COCO targets the detector hasn't picked up
+    const locateRemote = async (target: string) => {
+      const video = webcamRef.current?.video;
+      const processingCanvas = processingCanvasRef.current;
+      if (!video || !processingCanvas || video.readyState !== 4) return;
+      if (connectivityRef.current.getMode() === 'offline') return;
+
+      const frame = preprocessFrame(video, processingCanvas, SEARCH_PREPROCESS);
+      if (frame.ok === false) return;
+
+      busy = true;
+      lastRemoteAt = Date.now();
+      try {
+        const location = await getProvider().locateObject(frame.base64Image, target, { signal: controller.signal, capturedAt: lastRemoteAt });
+        // A newer search may have started while this one was in flight
+        if (searchRef.current?.target !== target) return;
+        if (location) {
+            const sourceLocation = { ...location, box_2d: mapBoxToSource(location, frame.transform).box_2d };
+            targetLocationRef.current = sourceLocation;
+            homing.updateRemote(sourceLocation, performance.now());
+        } else {
+            targetLocationRef.current = null;
+        }
+      } catch (e) {
+        if (isAbortError(e)) {
+            console.log("[App] Object lookup cancelled");
+        } else if (e instanceof ProviderUnavailableError) {
+            console.warn(`[App] Provider unavailable during search (${e.status ?? 'network'})`);
+        } else {
+            console.error("[App] Object lookup failed", e);
+        }
+      } finally {
+        busy = false;
+      }
+    };
+
+    const tick = () => {
+      const search = searchRef.current;
+      if (!search) return;
+      const now = performance.now();
+
+      if (!busy && !homing.hasFreshLocal(now) && Date.now() - lastRemoteAt >= SEARCH_REMOTE_INTERVAL_MS) {
+          locateRemote(search.target);
+      }
+
+      const state = homing.getState(now);
+      if (state) {
+          lastSeenAt = now;
+          lostAnnounced = false;
+          tone.update(state.pan, state.proximity);
+          if (state.inReach && !reachAnnounced) {
+              reachAnnounced = true;
+              playEarcon('found');
+              hapticsRef.current.event('found');
+              homingHapticHoldRef.current = now + 800;
+              speak(t('targetInReach', { target: search.target }), { priority: 'high' });
+          } else if (!state.inReach && state.proximity < 0.8) {
+              // Backed away: announce again next time it comes into reach
+              reachAnnounced = false;
+          }
+      } else {
+          tone.silence();
+          if (!lostAnnounced && now - lastSeenAt > SEARCH_LOST_MS) {
+              lostAnnounced = true;
+              speak(t('targetNotInView', { target: search.target }));
+          }
+      }
+
+      if (now - lastHudUpdate > 250) {
+          lastHudUpdate = now;
+          setHomingStatus(state);
+      }
+    };
+
+    const intervalId = setInterval(tick, 100);
+    tick();
+    return () => {
+      clearInterval(intervalId);
+      controller.abort();
+      tone.silence();
+    };
+  }, [appState, t, speak]);
 
 
   // --- User Interactions ---
 
+  const cancelPendingRequests = () => {
+    queryControllerRef.current?.abort();
+    queryControllerRef.current = null;
+    speechManagerRef.current.cancelAll();
+  };
+
+  // Clears all per-session navigation state (tracks, hysteresis, scheduling)
+  const resetPipeline = () => {
+    setLastResponse(null);
+    setSceneAnswer(null);
+    setStableStatus(null);
+    setLocalHazard(null);
+    statusTrackerRef.current.reset();
+    hazardEngineRef.current.reset();
+    objectTrackerRef.current.reset();
+    tracksRef.current = [];
+    schedulerRef.current.reset();
+    rejectedFramesRef.current = 0;
+    sceneChangeRef.current?.reset();
+    localHazardRef.current = null;
+  };
+
+  const stopReplay = () => {
+    replayPlayerRef.current?.stop();
+    replayPlayerRef.current = null;
+    setReplayFrame(null);
+    resetPipeline();
+    setAppState(AppState.IDLE);
+  };
+
+  const startReplay = async (archive: SessionArchive) => {
+    initAudio();
+    replayPlayerRef.current?.stop();
+    // Replayed detections and cues must not end up in a live recording
+    if (recorderRef.current.isRecording()) {
+      await recorderRef.current.stop();
+      setIsRecording(false);
+      speak(t('recordingSaved'));
+    }
+    resetPipeline();
+    setShowSessions(false);
+    console.log(`[App] Replaying session ${archive.session.id}`);
+    setAppState(AppState.REPLAYING);
+    speak(t('replayStarted'));
+
+    const player = createReplayPlayer(archive, {
+      onFrame: event => setReplayFrame(`data:image/jpeg;base64,${event.base64Image}`),
+      onDetections: event => processDetections(event.detections, event.frameWidth, event.frameHeight),
+      onResponse: event => handleResponseRef.current(event.response),
+      onCue: event => console.log(`[App] Recorded cue: ${event.cue}${event.text ? ` "${event.text}"` : ''}`),
+      onEnd: () => {
+        speak(t('replayFinished'));
+        replayPlayerRef.current = null;
+        setAppState(AppState.IDLE);
+      },
+    });
+    replayPlayerRef.current = player;
+    player.play();
+  };
+
+  const toggleRecording = async () => {
+    if (recorderRef.current.isRecording()) {
+      await recorderRef.current.stop();
+      setIsRecording(false);
+      speak(t('recordingSaved'));
+    } else {
+      recorderRef.current.start(currentLang.name, getProvider().name);
+      setIsRecording(true);
+      speak(t('recording'));
+    }
+  };
+
   const toggleScanning = () => {
     initAudio();
-    if (appState === AppState.SCANNING) {
+    if (appState === AppState.REPLAYING) {
+      console.log("[App] Stopping Replay");
+      stopReplay();
+      speak(t('replayStopped'), { interrupt: true });
+    } else if (appState === AppState.CONVERSING) {
+      stopConversation();
+      setAppState(AppState.IDLE);
+      speak(t('conversationEnded'), { interrupt: true });
+    } else if (appState === AppState.READING) {
+      stopReading();
+      speak(t('readingStopped'), { interrupt: true });
+    } else if (appState === AppState.SEARCHING) {
+      stopSearch();
+      speak(t('searchStopped'), { interrupt: true });
+    } else if (appState === AppState.SCANNING) {
       console.log("[App] Pausing Scanning");
       setAppState(AppState.IDLE);
-      setLastResponse(null);
-      speak("System Paused");
+      // Scan cycles are aborted by the intelligence loop cleanup
+      cancelPendingRequests();
+      resetPipeline();
+      speak(t('systemPaused'), { interrupt: true });
     } else {
       console.log("[App] Starting Scanning");
       setAppState(AppState.SCANNING);
-      speak("Sonar Active");
+      speak(t('sonarActive'), { interrupt: true });
     }
   };
 
@@ -335,7 +1068,8 @@ const App: React.FC = () => {
        // Pause scanning while listening
        setAppState(AppState.LISTENING);
     }
-    playBeep(600, 100); 
+    playEarcon('listenStart');
+    setIsListening(true);
     console.log("[App] Start Listening (Microphone)");
     
     // Start Audio Recording
@@ -354,140 +1088,725 @@ const App: React.FC = () => {
       console.log(`[App] MediaRecorder Started. MimeType: ${mediaRecorder.mimeType}`);
     }).catch(err => {
         console.error("Mic access denied", err);
-        speak("Microphone access denied.");
+        setIsListening(false);
+        speak(t('micDenied'));
         setAppState(AppState.IDLE);
     });
   };
 
   const stopListening = async () => {
     console.log("[App] Stop Listening triggered");
+    setIsListening(false);
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+      const recorder = mediaRecorderRef.current;
+      recorder.stop();
+      // Release the mic once the last chunk is in, so the wake-word recognizer can have it back
+      const releaseMic = () => recorder.stream.getTracks().forEach(track => track.stop());
+      if (connectivityRef.current.getMode() === 'offline') {
+        // Transcription and answers need Gemini; don't pretend we didn't hear
+        mediaRecorderRef.current.onstop = () => {
+          releaseMic();
+          speak(t('voiceQuestionsNeedConnection'));
+          setAppState(AppState.IDLE);
+        };
+        return;
+      }
       // Get the correct mime type
       const mimeType = mediaRecorderRef.current.mimeType || 'audio/webm';
       
       mediaRecorderRef.current.onstop = async () => {
+        releaseMic();
         const totalSize = audioChunksRef.current.reduce((acc, chunk) => acc + chunk.size, 0);
         console.log(`[App] Recording finished. Total Size: ${totalSize} bytes`);
 
         // Prevent processing empty or extremely short audio (clicks)
         if (totalSize < 5000) { // < 5KB is likely just a click/noise
             console.warn("[App] Audio too short, skipping transcription.");
-            playBeep(200, 100); // Error low beep
+            playEarcon('error');
+            hapticsRef.current.event('error');
             setAppState(AppState.IDLE);
             return;
         }
 
         // Create blob with correct mime type
         const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
-        const base64Audio = await blobToBase64(audioBlob);
         
-        playBeep(400, 100); // End beep
-        speak("Processing...");
+        playEarcon('listenStop');
+        speak(t('processing'));
         setIsProcessingState(true);
 
-        const transcript = await transcribeAudio(base64Audio, mimeType, currentLang.name);
-        
-        // One-off query with the transcribed text context
-        if (webcamRef.current) {
-            const screenshot = webcamRef.current.getScreenshot();
-            if (screenshot && transcript) {
-                console.log(`[App] Sending Query with context: "${transcript}"`);
-                const base64Image = screenshot.split(',')[1];
-                const response = await analyzeFrame(base64Image, currentLang.name, `User Question: "${transcript}"`);
-                
-                setLastResponse(response);
-                speak(response.reasoning_summary, true);
+        // Capture the scene as it was when the user finished asking
+        const capturedAt = Date.now();
+        const video = webcamRef.current?.video;
+        const frame = video && processingCanvasRef.current
+            ? preprocessFrame(video, processingCanvasRef.current, QUERY_PREPROCESS)
+            : null;
+
+        queryControllerRef.current?.abort();
+        const controller = new AbortController();
+        queryControllerRef.current = controller;
+        let followUp: (() => void) | null = null;
+
+        try {
+            const base64Audio = await blobToBase64(audioBlob);
+            const transcript = await getProvider().transcribeAudio(base64Audio, mimeType, currentLang.name, { signal: controller.signal });
+            if (transcript) {
+                followUp = await handleTranscript(transcript, frame, capturedAt, controller.signal);
+            } else {
+                console.warn("[App] Missing transcript");
+                speak(t('couldNotHear'));
+            }
+        } catch (e) {
+            if (isAbortError(e)) {
+                console.log("[App] Voice query cancelled");
+            } else if (e instanceof ProviderUnavailableError) {
+                console.warn(`[App] Provider unavailable during voice query (${e.status ?? 'network'})`);
+                if (connectivityRef.current.recordFailure(Date.now())) onConnectivityChange('offline');
+                speak(t('voiceQuestionsNeedConnection'));
             } else {
-                console.warn("[App] Missing screenshot or transcript");
-                speak("I couldn't hear you clearly.");
+                console.error("[App] Voice query failed", e);
             }
+        } finally {
+            if (queryControllerRef.current === controller) queryControllerRef.current = null;
         }
         
         setIsProcessingState(false);
         // Return to scanning if we were scanning before
         setAppState(AppState.IDLE); 
+        followUp?.();
       };
     }
   };
 
+  // Press-to-start / press-to-send alternative to holding the button
+  const toggleListening = () => {
+    if (isListening) stopListening();
+    else startListening();
+  };
+
+  // --- Voice Commands (push-to-talk and hands-free) ---
+
+  const answerQuestion = async (question: string, frame: PreprocessResult | null, capturedAt: number, signal: AbortSignal) => {
+    if (connectivityRef.current.getMode() === 'offline') {
+      speak(t('voiceQuestionsNeedConnection'));
+      return;
+    }
+    if (!frame || frame.ok === false) {
+      console.warn("[App] Missing frame for voice query");
+      speak(t('couldNotSee'));
+      return;
+    }
+    // Query with the transcript plus earlier questions for follow-ups
+    const history = queryHistoryRef.current.getTurns(capturedAt);
+    console.log(`[App] Sending Query with context: "${question}" (${history.length} earlier turns)`);
+    const sceneSummary = lastResponseRef.current?.reasoning_summary;
+    let rawAnswer: SceneAnswer;
+    try {
+      rawAnswer = await getProvider().askAboutScene(frame.base64Image, question, currentLang.name, { signal, capturedAt, history });
+    } catch (e) {
+      if (!(e instanceof ProviderResponseError)) throw e;
+      console.error("[App] Unusable scene answer", e);
+      speak(t('couldNotAnswer'));
+      return;
+    }
+    const answer = mapAnswerToSource(rawAnswer, frame.transform);
+    console.log(`[App] Scene answer (confidence ${answer.confidence.toFixed(2)}): "${answer.answer}"`);
+
+    // Read out text the answer doesn't already quote
+    const reading = answer.ocr_text && !answer.answer.includes(answer.ocr_text) ? ` ${t('itReads', { text: answer.ocr_text })}` : '';
+    const hedge = answer.confidence < LOW_CONFIDENCE_ANSWER ? `${t('notSure')} ` : '';
+    const spoken = `${hedge}${answer.answer}${reading}`;
+    queryHistoryRef.current.add({ question, answer: spoken, timestamp: capturedAt, sceneSummary });
+    setSceneAnswer(answer);
+    speak(spoken, { highQuality: true });
+  };
+
+  const startScanningByVoice = () => {
+    if (appState === AppState.SCANNING) {
+      speak(t('sonarAlreadyActive'));
+      return;
+    }
+    // Leave reading, search, replay or conversation first
+    if (isActive) toggleScanning();
+    initAudio();
+    setAppState(AppState.SCANNING);
+    speak(t('sonarActive'), { interrupt: true });
+  };
+
+  const changeVolume = (delta: number) => {
+    const master = Math.min(1, Math.max(0, audioVolumes.master + delta));
+    // Apply now so the confirmation is already at the new level
+    setAudioVolumes({ ...audioVolumes, master });
+    updateSettings({ audioVolumes: { ...audioVolumes, master } });
+    speak(t('volumePercent', { percent: Math.round(master * 100) }), { interrupt: true, dedupe: false });
+  };
+
+  // Local commands first, then a question about the captured frame. Mode switches are
+  // returned rather than run so they happen once the query has wrapped up.
+  const handleTranscript = async (transcript: string, frame: PreprocessResult | null, capturedAt: number, signal: AbortSignal): Promise<(() => void) | null> => {
+    const historyCommand = parseHistoryCommand(transcript, phrases);
+    if (historyCommand === 'repeat') {
+      const lastTurn = queryHistoryRef.current.last();
+      speak(lastTurn ? lastTurn.answer : t('nothingToRepeat'), { highQuality: true, dedupe: false });
+      return null;
+    }
+    if (historyCommand === 'clear') {
+      queryHistoryRef.current.clear();
+      speak(t('conversationCleared'));
+      return null;
+    }
+    const findTarget = parseFindCommand(transcript, phrases);
+    if (findTarget) return () => startSearch(findTarget);
+
+    const command = parseVoiceCommand(transcript, phrases);
+    console.log(`[App] Voice command: ${command.kind}`);
+    switch (command.kind) {
+      case 'start':
+        return startScanningByVoice;
+      case 'pause':
+        return () => isActive ? toggleScanning() : speak(t('systemPaused'), { interrupt: true });
+      case 'readText':
+        return () => appState !== AppState.READING && toggleReading();
+      case 'switchProfile':
+        return () => selectProfile(command.profileId);
+      case 'switchLanguage': {
+        const index = LANGUAGES.findIndex(lang => lang.code === command.languageCode);
+        return () => selectLanguage(index);
+      }
+      case 'louder':
+      case 'quieter':
+        changeVolume(command.kind === 'louder' ? VOLUME_STEP : -VOLUME_STEP);
+        return null;
+      case 'whatsAhead':
+        await answerQuestion(t('whatsAheadQuestion'), frame, capturedAt, signal);
+        return null;
+      case 'question':
+        await answerQuestion(command.text, frame, capturedAt, signal);
+        return null;
+    }
+  };
+
+  // Wake phrase + command from the always-on recognizer; the app state is left as it is
+  const runHandsFreeCommand = async (text: string) => {
+    console.log(`[App] Hands-free command: "${text}"`);
+    playEarcon('listenStop');
+    const capturedAt = Date.now();
+    const video = webcamRef.current?.video;
+    const frame = video && processingCanvasRef.current
+        ? preprocessFrame(video, processingCanvasRef.current, QUERY_PREPROCESS)
+        : null;
+
+    queryControllerRef.current?.abort();
+    const controller = new AbortController();
+    queryControllerRef.current = controller;
+    setIsProcessingState(true);
+    let followUp: (() => void) | null = null;
+    try {
+        followUp = await handleTranscript(text, frame, capturedAt, controller.signal);
+    } catch (e) {
+        if (isAbortError(e)) {
+            console.log("[App] Hands-free query cancelled");
+        } else if (e instanceof ProviderUnavailableError) {
+            console.warn(`[App] Provider unavailable during hands-free query (${e.status ?? 'network'})`);
+            if (connectivityRef.current.recordFailure(Date.now())) onConnectivityChange('offline');
+            speak(t('voiceQuestionsNeedConnection'));
+        } else {
+            console.error("[App] Hands-free query failed", e);
+            playEarcon('error');
+            hapticsRef.current.event('error');
+        }
+    } finally {
+        if (queryControllerRef.current === controller) queryControllerRef.current = null;
+    }
+    setIsProcessingState(false);
+    followUp?.();
+  };
+  voiceCommandRef.current = runHandsFreeCommand;
+
+  const toggleHandsFree = () => {
+    initAudio();
+    if (!wakeWordRef.current.isSupported) {
+      speak(t('handsFreeUnsupported'));
+      return;
+    }
+    const next = !handsFree;
+    console.log(`[App] Hands-free ${next ? 'on' : 'off'}`);
+    setHandsFree(next);
+    speak(t(next ? 'handsFreeOn' : 'handsFreeOff'), { interrupt: true });
+  };
+
+  // --- Live Conversation ---
+
+  const stopConversation = () => {
+    conversationGenRef.current++;
+    const conversation = conversationRef.current;
+    conversationRef.current = null;
+    conversation?.stop();
+    speechManagerRef.current.cancelAll();
+    setConversationQuestion('');
+    setConversationAnswer('');
+  };
+
+  const toggleConversation = async () => {
+    initAudio();
+    if (appState === AppState.CONVERSING) {
+      console.log("[App] Ending conversation");
+      stopConversation();
+      setAppState(AppState.IDLE);
+      speak(t('conversationEnded'), { interrupt: true });
+      return;
+    }
+    if (connectivityRef.current.getMode() === 'offline') {
+      speak(t('conversationNeedsConnection'));
+      return;
+    }
+    if (appState === AppState.REPLAYING) stopReplay();
+    if (appState === AppState.READING) stopReading();
+    if (appState === AppState.SEARCHING) stopSearch();
+    // Scanning pauses while conversing; the live session has its own view of the camera
+    cancelPendingRequests();
+    resetPipeline();
+    setAppState(AppState.CONVERSING);
+    playEarcon('listenStart');
+
+    const generation = ++conversationGenRef.current;
+    try {
+      const conversation = await startConversation(getProvider(), {
+        language: currentLang.name,
+        frameIntervalMs: CONVERSATION_FRAME_INTERVAL_MS,
+      }, {
+        onStateChange: state => {
+          if (generation !== conversationGenRef.current) return;
+          setConversationState(state);
+          if (state === 'closed' && conversationRef.current) {
+            // Closed by the provider rather than the user
+            conversationRef.current = null;
+            setAppState(AppState.IDLE);
+          }
+        },
+        onAnswer: text => generation === conversationGenRef.current && setConversationAnswer(text),
+        onUserTranscript: text => generation === conversationGenRef.current && setConversationQuestion(text),
+        speakText: text => speak(text, { dedupe: false }),
+        stopSpeech: () => speechManagerRef.current.cancelAll(),
+        captureFrame: () => {
+          const video = webcamRef.current?.video;
+          if (!video || !processingCanvasRef.current) return null;
+          const frame = preprocessFrame(video, processingCanvasRef.current, CONVERSATION_PREPROCESS);
+          return frame.ok ? frame.base64Image : null;
+        },
+      });
+      if (generation !== conversationGenRef.current) {
+        // Cancelled while connecting
+        conversation.stop();
+        return;
+      }
+      conversationRef.current = conversation;
+      console.log("[App] Conversation started");
+    } catch (e) {
+      if (generation !== conversationGenRef.current) return;
+      console.error("[App] Could not start conversation", e);
+      conversationRef.current = null;
+      setConversationState('closed');
+      setAppState(AppState.IDLE);
+      speak(t('conversationUnavailable'));
+    }
+  };
+
+  useEffect(() => () => conversationRef.current?.stop(), []);
+
+  // --- Text Reading ---
+
+  const stopReading = () => {
+    setTextReading(null);
+    lastReadHintRef.current = null;
+    setAppState(AppState.IDLE);
+  };
+
+  const toggleReading = () => {
+    initAudio();
+    if (appState === AppState.READING) {
+      console.log("[App] Leaving reading mode");
+      stopReading();
+      speak(t('readingStopped'), { interrupt: true });
+      return;
+    }
+    if (connectivityRef.current.getMode() === 'offline') {
+      speak(t('readingNeedsConnection'));
+      return;
+    }
+    if (appState === AppState.REPLAYING) stopReplay();
+    if (appState === AppState.CONVERSING) stopConversation();
+    if (appState === AppState.SEARCHING) stopSearch();
+    cancelPendingRequests();
+    resetPipeline();
+    console.log("[App] Entering reading mode");
+    setAppState(AppState.READING);
+    speak(t('readingStarted'));
+  };
+
+  const toggleTranslation = () => {
+    const next = !translateReading;
+    setTranslateReading(next);
+    speak(next ? t('translatingTo', { language: currentLang.nativeName }) : t('originalText'));
+  };
+
+  // --- Object Search ---
+
+  const stopSearch = () => {
+    searchRef.current = null;
+    targetLocationRef.current = null;
+    homingToneRef.current.silence();
+    setSearchTarget(null);
+    setHomingStatus(null);
+    setAppState(AppState.IDLE);
+  };
+
+  const startSearch = (target: string) => {
+    const cocoClass = matchCocoClass(target);
+    if (!cocoClass && connectivityRef.current.getMode() === 'offline') {
+      speak(t('findingNeedsConnection', { target }));
+      return;
+    }
+    console.log(`[App] Searching for "${target}" (local class: ${cocoClass ?? 'none'})`);
+    if (appState === AppState.READING) stopReading();
+    cancelPendingRequests();
+    resetPipeline();
+    searchRef.current = { target, cocoClass };
+    targetHomingRef.current.reset();
+    targetLocationRef.current = null;
+    setSearchTarget(target);
+    setHomingStatus(null);
+    setAppState(AppState.SEARCHING);
+    speak(t('searchingFor', { target }));
+  };
+
+  // Scanning, replaying, conversing, reading or searching: the main button stops it
+  const isActive = appState === AppState.SCANNING || appState === AppState.REPLAYING || appState === AppState.CONVERSING
+    || appState === AppState.READING || appState === AppState.SEARCHING;
+
+  // --- Keyboard, Switch Access & Gestures ---
+  // Space anywhere outside a form control: hold to talk, or press to start/send in toggle mode
+  talkKeyRef.current = settings.talkMode === 'toggle'
+    ? { down: toggleListening, up: () => {} }
+    : { down: startListening, up: stopListening };
+
+  gestureActionRef.current = gesture => {
+    if (gesture === 'doubleTap') {
+      console.log("[App] Gesture: double tap");
+      toggleScanning();
+    } else if (gesture === 'left' || gesture === 'right') {
+      const step = gesture === 'left' ? 1 : -1;
+      console.log(`[App] Gesture: swipe ${gesture}`);
+      selectLanguage((langIndex + step + LANGUAGES.length) % LANGUAGES.length);
+    }
+  };
+
+  useEffect(() => {
+    const isSpace = (e: KeyboardEvent) => e.code === 'Space' && !(e.target instanceof Element && e.target.closest('button, input, select, textarea, [role="dialog"]'));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!isSpace(e)) return;
+      e.preventDefault();
+      if (!e.repeat) talkKeyRef.current.down();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (!isSpace(e)) return;
+      e.preventDefault();
+      talkKeyRef.current.up();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // HUD shows the stabilized status (falling back to the raw response, e.g. voice query answers),
+  // raised by any more severe local hazard
+  const hudStatus = fuseStatus(stableStatus ?? lastResponse, localHazard);
+  const isLocalAlert = hudStatus?.source === 'local' && localHazard;
+  const hudCommand = isLocalAlert ? localHazard.description : lastResponse?.navigation_command;
+  const hudSummary = isLocalAlert ? t('localDetection') : lastResponse?.reasoning_summary;
+
+  // --- Screen Reader Status ---
+  // Only the status and its direction are announced, on change; the guidance itself is
+  // already spoken by our TTS and would otherwise be heard twice
+  const hudSafety = hudStatus?.safety_status;
+  const hudDirection = hudStatus ? panToDirection(hudStatus.stereo_pan) : null;
+  useEffect(() => {
+    if (!hudSafety) return;
+    const text = t('statusAnnouncement', { status: t(STATUS_WORDS[hudSafety]), direction: t(DIRECTION_WORDS[hudDirection]) });
+    setLiveStatus({ text, urgent: hudSafety === 'STOP' });
+  }, [hudSafety, hudDirection, t]);
+
   return (
-    <div className="relative w-screen h-screen bg-sonar-black text-sonar-white overflow-hidden font-mono">
+    <div
+      className="relative w-screen h-screen bg-sonar-black text-sonar-white overflow-hidden font-mono"
+      onPointerDown={gesturesRef.current.onPointerDown}
+      onPointerUp={gesturesRef.current.onPointerUp}
+    >
+      {/* Screen Reader Announcements (status changes only; guidance is spoken by TTS) */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">{liveStatus.urgent ? '' : liveStatus.text}</div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic="true">{liveStatus.urgent ? liveStatus.text : ''}</div>
+
       {/* Background Grid */}
       <div className="absolute inset-0 bg-grid opacity-20 pointer-events-none"></div>
 
-      {/* Camera Layer */}
+      {/* Camera Layer (recorded frames during replay) */}
       <div className="absolute inset-0 z-0">
-        <Webcam
-          ref={webcamRef}
-          audio={false}
-          screenshotFormat="image/jpeg"
-          videoConstraints={{ facingMode: "environment" }}
-          className="w-full h-full object-cover opacity-60"
-        />
+        {appState === AppState.REPLAYING ? (
+          replayFrame && <img ref={replayImageRef} src={replayFrame} alt="" className="w-full h-full object-cover opacity-60" />
+        ) : (
+          <Webcam
+            ref={webcamRef}
+            audio={false}
+            screenshotFormat="image/jpeg"
+            videoConstraints={{ facingMode: "environment" }}
+            className="w-full h-full object-cover opacity-60"
+          />
+        )}
       </div>
 
+      {/* Offscreen canvas for frame analysis (scene change, preprocessing) */}
+      <canvas ref={processingCanvasRef} className="hidden" />
+
       {/* Canvas Overlay */}
       <canvas 
         ref={canvasRef} 
         className="absolute inset-0 z-10 pointer-events-none"
+        aria-hidden="true"
       />
 
       {/* Header */}
       <div className="absolute top-0 left-0 w-full p-4 z-20 flex justify-between items-center bg-gradient-to-b from-black/80 to-transparent">
         <div className="flex items-center gap-2">
-            <div className={`w-3 h-3 rounded-full ${appState === AppState.SCANNING ? 'bg-sonar-safe animate-pulse' : 'bg-gray-500'}`}></div>
+            <div className={`w-3 h-3 rounded-full ${appState === AppState.SCANNING ? 'bg-sonar-safe animate-pulse' : 'bg-gray-500'}`} aria-hidden="true"></div>
             <h1 className="text-xl font-bold tracking-widest text-sonar-white">SONAR<span className="text-sonar-yellow">AI</span></h1>
+            {connectivityMode === 'offline' && (
+                <span className="text-xs font-bold text-sonar-yellow border border-sonar-yellow px-2 py-0.5 rounded-full">{t('offlineBadge')}</span>
+            )}
         </div>
         
-        <div className="relative">
-            <button 
-                onClick={() => setShowLangList(!showLangList)}
-                className="bg-sonar-panel border border-gray-700 px-3 py-1 rounded-full text-sm font-bold flex items-center gap-2"
+        <div className="flex items-center gap-2">
+            {/* Session Recording Controls */}
+            <button
+                onClick={toggleRecording}
+                disabled={appState === AppState.REPLAYING}
+                aria-label={t('recordSession')}
+                aria-pressed={isRecording}
+                className={`border px-3 py-1 rounded-full text-sm font-bold flex items-center gap-2 ${
+                    isRecording ? 'bg-sonar-alert border-sonar-alert text-black animate-pulse' : 'bg-sonar-panel border-gray-700'
+                }`}
+            >
+                {t('recButton')}
+            </button>
+            <button
+                onClick={() => setShowSessions(!showSessions)}
+                aria-label={t('sessionLog')}
+                aria-expanded={showSessions}
+                className="bg-sonar-panel border border-gray-700 px-3 py-1 rounded-full text-sm font-bold"
+            >
+                {t('logButton')}
+            </button>
+            <button
+                onClick={toggleHandsFree}
+                aria-label={t('handsFreeCommands')}
+                aria-pressed={handsFree}
+                className={`border px-3 py-1 rounded-full text-sm font-bold ${
+                    handsFree ? 'bg-sonar-safe border-sonar-safe text-black' : 'bg-sonar-panel border-gray-700'
+                }`}
+            >
+                {t('wakeButton')}
+            </button>
+            <button
+                onClick={() => { setShowSettings(!showSettings); setShowSound(false); }}
+                aria-label={t('settings')}
+                aria-expanded={showSettings}
+                className="bg-sonar-panel border border-gray-700 px-3 py-1 rounded-full text-sm font-bold"
             >
-                <span>{currentLang.flag}</span>
-                <span>{currentLang.label}</span>
+                {t('settingsButton')}
             </button>
+            <button
+                onClick={() => { initAudio(); setShowSound(!showSound); setShowSettings(false); }}
+                aria-label={t('soundAndFeedback')}
+                aria-expanded={showSound}
+                className="bg-sonar-panel border border-gray-700 px-3 py-1 rounded-full text-sm font-bold"
+            >
+                {t('soundButton')}
+            </button>
+
+            <div className="relative">
+                <button 
+                    onClick={() => setShowLangList(!showLangList)}
+                    aria-label={t('languageLabel', { language: currentLang.nativeName })}
+                    aria-expanded={showLangList}
+                    className="bg-sonar-panel border border-gray-700 px-3 py-1 rounded-full text-sm font-bold flex items-center gap-2"
+                >
+                    <span aria-hidden="true">{currentLang.flag}</span>
+                    <span>{currentLang.label}</span>
+                </button>
             
-            {showLangList && (
-                <div className="absolute top-full right-0 mt-2 bg-sonar-panel border border-gray-700 rounded-xl overflow-hidden shadow-xl w-32">
-                    {LANGUAGES.map((lang, idx) => (
-                        <button 
-                            key={lang.code}
-                            onClick={() => selectLanguage(idx)}
-                            className="w-full text-left px-4 py-2 hover:bg-gray-800 flex gap-2"
-                        >
-                            <span>{lang.flag}</span>
-                            <span>{lang.label}</span>
-                        </button>
-                    ))}
-                </div>
-            )}
+                {showLangList && (
+                    <div className="absolute top-full end-0 mt-2 bg-sonar-panel border border-gray-700 rounded-xl overflow-hidden shadow-xl w-32">
+                        {LANGUAGES.map((lang, idx) => (
+                            <button 
+                                key={lang.code}
+                                onClick={() => selectLanguage(idx)}
+                                aria-label={lang.nativeName}
+                                lang={lang.locale}
+                                aria-current={idx === langIndex}
+                                className="w-full text-start px-4 py-2 hover:bg-gray-800 flex gap-2"
+                            >
+                                <span aria-hidden="true">{lang.flag}</span>
+                                <span>{lang.label}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
       </div>
 
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          profileId={profileId}
+          languages={LANGUAGES}
+          voice={voiceSettings[currentLang.locale] ?? DEFAULT_VOICE_SETTINGS}
+          onChange={updateSettings}
+          onLanguageChange={code => selectLanguage(LANGUAGES.findIndex(lang => lang.code === code))}
+          onVoiceChange={voice => updateSettings({ voiceSettings: { ...voiceSettings, [currentLang.locale]: voice } })}
+          onSelectProfile={selectProfile}
+          onClose={() => setShowSettings(false)}
+          t={t}
+        />
+      )}
+
+      {showSound && (
+        <AudioThemePanel
+          themeId={audioThemeId}
+          volumes={audioVolumes}
+          onThemeChange={id => updateSettings({ audioThemeId: id })}
+          onVolumesChange={volumes => updateSettings({ audioVolumes: volumes })}
+          onClose={() => setShowSound(false)}
+          t={t}
+        >
+          <VoiceSettingsSection
+            language={currentLang.nativeName}
+            locale={currentLang.locale}
+            settings={voiceSettings[currentLang.locale] ?? DEFAULT_VOICE_SETTINGS}
+            onChange={voice => updateSettings({ voiceSettings: { ...voiceSettings, [currentLang.locale]: voice } })}
+            onPreview={() => speak(t('voicePreview', { language: currentLang.nativeName }), { interrupt: true, dedupe: false })}
+            t={t}
+          />
+          <FeedbackChannelSection
+            channel={feedbackChannel}
+            hapticsAvailable={hapticsRef.current.getOutput().isAvailable()}
+            onChange={channel => updateSettings({ feedbackChannel: channel })}
+            onPreview={() => {
+              // Caution on the left, then on the right
+              hapticsRef.current.status('CAUTION', -1);
+              setTimeout(() => hapticsRef.current.status('CAUTION', 1), 1500);
+            }}
+            t={t}
+          />
+        </AudioThemePanel>
+      )}
+
+      {showSessions && (
+        <SessionPanel onReplay={startReplay} onClose={() => setShowSessions(false)} t={t} locale={currentLang.locale}>
+          <ModelHealthList health={modelHealth} t={t} locale={currentLang.locale} />
+        </SessionPanel>
+      )}
+
       {/* Main Status HUD */}
-      <div className="absolute top-20 left-4 right-4 z-20">
-         {lastResponse ? (
-             <div className={`p-4 rounded-xl border-l-4 backdrop-blur-md bg-black/60 shadow-lg transition-colors duration-500 ${
-                 lastResponse.safety_status === 'STOP' ? 'border-sonar-alert' : 
-                 lastResponse.safety_status === 'CAUTION' ? 'border-sonar-yellow' : 'border-sonar-safe'
+      <div className="absolute top-20 left-4 right-4 z-20" role="region" aria-label={t('statusRegion')}>
+         {appState === AppState.CONVERSING ? (
+             <div className="p-4 rounded-xl border-s-4 border-sonar-yellow backdrop-blur-md bg-black/60 shadow-lg">
+                 <span className="text-xs text-gray-400 font-sans uppercase tracking-widest">
+                     {t(conversationState === 'connecting' ? 'connecting' : conversationState === 'answering' ? 'answering' : 'listening')}
+                 </span>
+                 {conversationQuestion && <p className="text-sm text-gray-300 font-sans mt-1">{conversationQuestion}</p>}
+                 <p className="text-lg font-bold leading-tight mt-2">{conversationAnswer || t('askAboutSurroundings')}</p>
+             </div>
+         ) : appState === AppState.SEARCHING ? (
+             <div className={`p-4 rounded-xl border-s-4 backdrop-blur-md bg-black/60 shadow-lg ${homingStatus?.inReach ? 'border-sonar-safe' : 'border-sonar-yellow'}`}>
+                 <div className="flex justify-between items-start mb-1">
+                     <span className="text-xs text-gray-400 font-sans uppercase tracking-widest">{t('searchingLabel', { target: searchTarget })}</span>
+                     {homingStatus && <span className="text-xs text-gray-400 font-sans">{t('panValue', { pan: homingStatus.pan.toFixed(1) })}</span>}
+                 </div>
+                 <p className="text-2xl font-black tracking-tighter">
+                     {t(!homingStatus ? 'notInView'
+                         : homingStatus.inReach ? 'inReach'
+                         : homingStatus.centered ? 'ahead'
+                         : homingStatus.pan < 0 ? 'left' : 'right')}
+                 </p>
+                 {homingStatus && (
+                     <div className="h-2 bg-gray-800 rounded-full mt-2 overflow-hidden">
+                         <div className="h-full bg-sonar-safe transition-all" style={{ width: `${Math.round(homingStatus.proximity * 100)}%` }}></div>
+                     </div>
+                 )}
+             </div>
+         ) : appState === AppState.READING ? (
+             <div className="p-4 rounded-xl border-s-4 border-sonar-white backdrop-blur-md bg-black/60 shadow-lg">
+                 <div className="flex justify-between items-center mb-2">
+                     <span className="text-xs text-gray-400 font-sans uppercase tracking-widest">{t('readingLabel')}</span>
+                     <button
+                         onClick={toggleTranslation}
+                         aria-label={t('translateTo', { language: currentLang.nativeName })}
+                         aria-pressed={translateReading}
+                         className={`border px-3 py-1 rounded-full text-xs font-bold ${
+                             translateReading ? 'bg-sonar-yellow border-sonar-yellow text-black' : 'bg-sonar-panel border-gray-700'
+                         }`}
+                     >
+                         {translateReading ? `→ ${currentLang.label}` : t('original')}
+                     </button>
+                 </div>
+                 {textReading?.blocks.length ? (
+                     <ol className="space-y-1 max-h-48 overflow-y-auto">
+                         {textReading.blocks.map((block, i) => (
+                             <li key={i} className={`text-lg font-bold leading-tight ${isTruncated(block) ? 'text-gray-400' : ''}`}>
+                                 {block.translation ?? block.text}
+                             </li>
+                         ))}
+                     </ol>
+                 ) : (
+                     <p className="text-gray-400">{t('pointAtText')}</p>
+                 )}
+             </div>
+         ) : sceneAnswer ? (
+             <div className="p-4 rounded-xl border-s-4 border-sonar-yellow backdrop-blur-md bg-black/60 shadow-lg">
+                 <div className="flex justify-between items-start mb-1">
+                     <span className="text-xs text-gray-400 font-sans uppercase tracking-widest">{t('answerLabel')}</span>
+                     <span className={`text-xs font-sans ${sceneAnswer.confidence < LOW_CONFIDENCE_ANSWER ? 'text-sonar-yellow' : 'text-gray-400'}`}>
+                         {t('confidenceLabel', { percent: Math.round(sceneAnswer.confidence * 100) })}
+                     </span>
+                 </div>
+                 <p className="text-lg font-bold leading-tight">{sceneAnswer.answer}</p>
+                 {sceneAnswer.ocr_text && (
+                     <p className="text-sm text-gray-300 font-sans border-t border-gray-700 pt-2 mt-2 whitespace-pre-wrap">“{sceneAnswer.ocr_text}”</p>
+                 )}
+             </div>
+         ) : hudStatus ? (
+             <div className={`p-4 rounded-xl border-s-4 backdrop-blur-md bg-black/60 shadow-lg transition-colors duration-500 ${
+                 hudStatus.safety_status === 'STOP' ? 'border-sonar-alert' : 
+                 hudStatus.safety_status === 'CAUTION' ? 'border-sonar-yellow' : 'border-sonar-safe'
              }`}>
                  <div className="flex justify-between items-start mb-1">
-                     <span className={`text-2xl font-black tracking-tighter ${
-                         lastResponse.safety_status === 'STOP' ? 'text-sonar-alert animate-pulse' : 
-                         lastResponse.safety_status === 'CAUTION' ? 'text-sonar-yellow' : 'text-sonar-safe'
+                     <span className={`text-2xl font-black tracking-tighter uppercase ${
+                         hudStatus.safety_status === 'STOP' ? 'text-sonar-alert animate-pulse' : 
+                         hudStatus.safety_status === 'CAUTION' ? 'text-sonar-yellow' : 'text-sonar-safe'
                      }`}>
-                         {lastResponse.safety_status}
+                         {t(STATUS_WORDS[hudStatus.safety_status])}
                      </span>
-                     <span className="text-xs text-gray-400 font-sans mt-2">PAN: {lastResponse.stereo_pan.toFixed(1)}</span>
+                     <span className="text-xs text-gray-400 font-sans mt-2">{t('panValue', { pan: hudStatus.stereo_pan.toFixed(1) })}</span>
                  </div>
-                 <p className="text-lg font-bold leading-tight mb-2">{lastResponse.navigation_command}</p>
-                 <p className="text-sm text-gray-300 font-sans border-t border-gray-700 pt-2 mt-1 opacity-80">{lastResponse.reasoning_summary}</p>
+                 <p className="text-lg font-bold leading-tight mb-2">{hudCommand}</p>
+                 <p className="text-sm text-gray-300 font-sans border-t border-gray-700 pt-2 mt-1 opacity-80">{hudSummary}</p>
              </div>
          ) : (
-             <div className="p-4 rounded-xl border-l-4 border-gray-500 backdrop-blur-md bg-black/60">
-                 <p className="text-gray-400">System Standby. Press Start.</p>
+             <div className="p-4 rounded-xl border-s-4 border-gray-500 backdrop-blur-md bg-black/60">
+                 <p className="text-gray-400">{t('standby')}</p>
              </div>
          )}
       </div>
@@ -504,9 +1823,9 @@ const App: React.FC = () => {
         
         {/* Processing Indicator */}
         {isProcessingState && (
-            <div className="flex items-center gap-2 text-sonar-yellow animate-pulse mb-2">
-                <div className="w-2 h-2 bg-sonar-yellow rounded-full"></div>
-                <span className="text-xs uppercase tracking-widest">Processing</span>
+            <div className="flex items-center gap-2 text-sonar-yellow animate-pulse mb-2" role="status">
+                <div className="w-2 h-2 bg-sonar-yellow rounded-full" aria-hidden="true"></div>
+                <span className="text-xs uppercase tracking-widest">{t('processingIndicator')}</span>
             </div>
         )}
 
@@ -514,35 +1833,73 @@ const App: React.FC = () => {
             {/* Start/Stop Button */}
             <button
                 onClick={toggleScanning}
+                aria-label={t(isActive ? STOP_BUTTON_LABELS[appState] ?? 'pauseSonar' : 'startSonar')}
                 className={`w-20 h-20 rounded-full flex items-center justify-center border-4 shadow-[0_0_20px_rgba(0,0,0,0.5)] transition-all transform active:scale-95 ${
-                    appState === AppState.SCANNING 
+                    isActive 
                     ? 'bg-sonar-alert border-sonar-alert text-black' 
                     : 'bg-sonar-safe border-sonar-safe text-black'
                 }`}
             >
-                {appState === AppState.SCANNING ? (
-                    <div className="w-8 h-8 bg-black rounded-sm"></div>
+                {isActive ? (
+                    <div className="w-8 h-8 bg-black rounded-sm" aria-hidden="true"></div>
                 ) : (
-                    <div className="w-0 h-0 border-t-[12px] border-t-transparent border-l-[20px] border-l-black border-b-[12px] border-b-transparent ml-1"></div>
+                    <div className="w-0 h-0 border-t-[12px] border-t-transparent border-l-[20px] border-l-black border-b-[12px] border-b-transparent ml-1" aria-hidden="true"></div>
                 )}
             </button>
 
-            {/* Mic Button (Hold to Speak) */}
+            {/* Mic Button (Hold to Speak, or press to start/send in toggle mode) */}
             <button
-                onPointerDown={startListening}
-                onPointerUp={stopListening}
-                onPointerLeave={stopListening}
+                onPointerDown={settings.talkMode === 'hold' ? startListening : undefined}
+                onPointerUp={settings.talkMode === 'hold' ? stopListening : undefined}
+                onPointerLeave={settings.talkMode === 'hold' ? stopListening : undefined}
+                // Keyboard and switch activation always toggles; holding a key isn't possible for everyone
+                onClick={e => (settings.talkMode === 'toggle' || e.detail === 0) && toggleListening()}
+                disabled={appState === AppState.CONVERSING}
+                aria-label={t(isListening ? 'sendQuestion' : settings.talkMode === 'hold' ? 'askQuestionHold' : 'askQuestion')}
+                aria-pressed={isListening}
                 onContextMenu={(e) => e.preventDefault()} // Prevents right-click/long-press menu
                 className={`w-16 h-16 rounded-full flex items-center justify-center border-2 transition-all transform active:scale-90 ${
-                    appState === AppState.LISTENING
+                    isListening
                     ? 'bg-sonar-yellow border-sonar-yellow text-black scale-110 shadow-[0_0_30px_#FFD700]'
                     : 'bg-transparent border-gray-500 text-gray-400'
                 }`}
             >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
                 </svg>
             </button>
+
+            {/* Conversation Button (Toggle) */}
+            <button
+                onClick={toggleConversation}
+                aria-label={t('liveConversation')}
+                aria-pressed={appState === AppState.CONVERSING}
+                className={`w-16 h-16 rounded-full flex items-center justify-center border-2 transition-all transform active:scale-90 ${
+                    appState === AppState.CONVERSING
+                    ? 'bg-sonar-yellow border-sonar-yellow text-black shadow-[0_0_30px_#FFD700]'
+                    : 'bg-transparent border-gray-500 text-gray-400'
+                }`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
+            </button>
+
+            {/* Reading Button (Toggle) */}
+            <button
+                onClick={toggleReading}
+                aria-label={t('readText')}
+                aria-pressed={appState === AppState.READING}
+                className={`w-16 h-16 rounded-full flex items-center justify-center border-2 transition-all transform active:scale-90 ${
+                    appState === AppState.READING
+                    ? 'bg-sonar-white border-sonar-white text-black shadow-[0_0_30px_#FFFFFF]'
+                    : 'bg-transparent border-gray-500 text-gray-400'
+                }`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                </svg>
+            </button>
         </div>
       </div>
     </div>
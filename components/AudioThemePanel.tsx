@@ -0,0 +1,103 @@
+import React from 'react';
+import { AudioVolumes, EarconCategory, EarconEvent } from '../types';
+import { AUDIO_THEMES, CATEGORY_LABELS, EARCON_CATEGORIES, EARCON_EVENTS, EARCON_LABELS, THEME_MESSAGES, getAudioTheme } from '../utils/earcons';
+import { getCategoryVolume, playEarconDefinition } from '../utils/audioUtils';
+import { Translator } from '../utils/i18n';
+
+interface AudioThemePanelProps {
+  themeId: string;
+  volumes: AudioVolumes;
+  onThemeChange: (themeId: string) => void;
+  onVolumesChange: (volumes: AudioVolumes) => void;
+  onClose: () => void;
+  t: Translator;
+  children?: React.ReactNode;
+}
+
+// Panned cues are previewed from the left, then the right
+const PREVIEW_PAN = -0.8;
+
+// Theme picker, volume mixer and per-event earcon preview
+const AudioThemePanel: React.FC<AudioThemePanelProps> = ({ themeId, volumes, onThemeChange, onVolumesChange, onClose, t, children }) => {
+  const theme = getAudioTheme(themeId);
+
+  const preview = (event: EarconEvent, previewThemeId = themeId) => {
+    const definition = getAudioTheme(previewThemeId).earcons[event];
+    const volume = getCategoryVolume(definition.category);
+    playEarconDefinition(definition, PREVIEW_PAN, volume);
+    if (definition.pan === 'follow') {
+      setTimeout(() => playEarconDefinition(definition, -PREVIEW_PAN, volume), 700);
+    }
+  };
+
+  const selectTheme = (id: string) => {
+    onThemeChange(id);
+    preview('caution', id);
+  };
+
+  const setVolume = (category: EarconCategory | 'master', value: number) => {
+    onVolumesChange(category === 'master'
+      ? { ...volumes, master: value }
+      : { ...volumes, categories: { ...volumes.categories, [category]: value } });
+  };
+
+  const slider = (category: EarconCategory | 'master', label: string, value: number) => (
+    <label key={category} className="flex items-center gap-3 text-sm py-1">
+      <span className="w-24 font-bold">{label}</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={Math.round(value * 100)}
+        onChange={e => setVolume(category, Number(e.target.value) / 100)}
+        className="flex-1 accent-sonar-yellow"
+      />
+      <span className="w-10 text-end text-gray-400 font-sans">{Math.round(value * 100)}%</span>
+    </label>
+  );
+
+  return (
+    <div className="absolute top-16 left-4 right-4 z-40 bg-sonar-panel border border-gray-700 rounded-xl shadow-xl p-4 max-h-[70vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-bold tracking-widest">{t('soundTitle')}</h2>
+        <button onClick={onClose} className="text-gray-400 px-2">{t('close')}</button>
+      </div>
+
+      {AUDIO_THEMES.map(option => (
+        <button
+          key={option.id}
+          onClick={() => selectTheme(option.id)}
+          className={`w-full text-start border rounded-lg px-3 py-2 mb-2 ${
+            option.id === theme.id ? 'border-sonar-yellow' : 'border-gray-700'
+          }`}
+        >
+          <p className="font-bold">{THEME_MESSAGES[option.id] ? t(THEME_MESSAGES[option.id].name) : option.name}</p>
+          <p className="text-gray-400 text-sm font-sans">{THEME_MESSAGES[option.id] ? t(THEME_MESSAGES[option.id].description) : option.description}</p>
+        </button>
+      ))}
+
+      <div className="mt-4 border-t border-gray-700 pt-3">
+        <h2 className="text-lg font-bold tracking-widest mb-2">{t('volumeHeading')}</h2>
+        {slider('master', t('master'), volumes.master)}
+        {EARCON_CATEGORIES.map(category => slider(category, t(CATEGORY_LABELS[category]), volumes.categories[category]))}
+      </div>
+
+      <div className="mt-4 border-t border-gray-700 pt-3">
+        <h2 className="text-lg font-bold tracking-widest mb-2">{t('previewHeading')}</h2>
+        {EARCON_EVENTS.map(event => (
+          <div key={event} className="flex items-center justify-between py-1 text-sm">
+            <span>
+              {t(EARCON_LABELS[event])}
+              <span className="text-gray-500 font-sans"> · {t(CATEGORY_LABELS[theme.earcons[event].category])}</span>
+            </span>
+            <button onClick={() => preview(event)} className="border border-gray-500 px-2 py-1 rounded text-xs font-bold">{t('play')}</button>
+          </div>
+        ))}
+      </div>
+
+      {children}
+    </div>
+  );
+};
+
+export default AudioThemePanel;
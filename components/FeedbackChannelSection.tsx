@@ -0,0 +1,50 @@
+import React from 'react';
+import { FeedbackChannel } from '../types';
+import { MessageKey, Translator } from '../utils/i18n';
+
+interface FeedbackChannelSectionProps {
+  channel: FeedbackChannel;
+  hapticsAvailable: boolean;
+  onChange: (channel: FeedbackChannel) => void;
+  onPreview: () => void;
+  t: Translator;
+}
+
+const CHANNEL_LABELS: Record<FeedbackChannel, MessageKey> = {
+  audio: 'channelAudio',
+  haptic: 'channelHaptic',
+  both: 'channelBoth',
+};
+
+// Whether status cues are heard, felt or both; speech always plays
+const FeedbackChannelSection: React.FC<FeedbackChannelSectionProps> = ({ channel, hapticsAvailable, onChange, onPreview, t }) => (
+  <div className="mt-4 border-t border-gray-700 pt-3">
+    <div className="flex justify-between items-center mb-2">
+      <h2 className="text-lg font-bold tracking-widest">{t('feedbackHeading')}</h2>
+      <button
+        onClick={onPreview}
+        disabled={channel === 'audio'}
+        className="border border-gray-500 px-2 py-1 rounded text-xs font-bold disabled:opacity-40"
+      >
+        {t('feel')}
+      </button>
+    </div>
+    <div className="flex gap-2">
+      {(Object.keys(CHANNEL_LABELS) as FeedbackChannel[]).map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          disabled={option !== 'audio' && !hapticsAvailable}
+          className={`flex-1 border px-2 py-1 rounded text-sm font-bold disabled:opacity-40 ${
+            channel === option ? 'bg-sonar-yellow border-sonar-yellow text-black' : 'border-gray-700'
+          }`}
+        >
+          {t(CHANNEL_LABELS[option])}
+        </button>
+      ))}
+    </div>
+    {!hapticsAvailable && <p className="text-xs text-gray-400 mt-2 font-sans">{t('noVibration')}</p>}
+  </div>
+);
+
+export default FeedbackChannelSection;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ModelHealth } from '../types';
+import { MessageKey, Translator } from '../utils/i18n';
+
+interface ModelHealthListProps {
+  health: ModelHealth[];
+  t: Translator;
+  locale: string;
+}
+
+const CIRCUIT_COLORS: Record<ModelHealth['circuit'], string> = {
+  closed: 'text-sonar-safe',
+  'half-open': 'text-sonar-yellow',
+  open: 'text-sonar-alert',
+};
+
+const CIRCUIT_LABELS: Record<ModelHealth['circuit'], MessageKey> = {
+  closed: 'circuitClosed',
+  'half-open': 'circuitHalfOpen',
+  open: 'circuitOpen',
+};
+
+// Per-model request stats from the active provider's retry policy
+const ModelHealthList: React.FC<ModelHealthListProps> = ({ health, t, locale }) => (
+  <div className="mt-4 border-t border-gray-700 pt-3">
+    <h2 className="text-lg font-bold tracking-widest mb-2">{t('modelsTitle')}</h2>
+    {health.length === 0 && <p className="text-gray-400 text-sm">{t('noModelRequests')}</p>}
+    {health.map(entry => (
+      <div key={entry.model} className="text-sm py-1">
+        <div className="flex justify-between">
+          <span className="font-bold">{entry.model}</span>
+          <span className={`font-bold uppercase ${CIRCUIT_COLORS[entry.circuit]}`}>{t(CIRCUIT_LABELS[entry.circuit])}</span>
+        </div>
+        <p className="text-gray-400 font-sans">
+          {t('modelStats', { successes: entry.successes, failures: entry.failures })}
+          {entry.avgLatencyMs !== null && ` · ${t('modelAvgLatency', { ms: entry.avgLatencyMs })}`}
+          {entry.circuit === 'open' && entry.circuitOpenUntil && ` · ${t('modelRetryAt', { time: new Date(entry.circuitOpenUntil).toLocaleTimeString(locale) })}`}
+        </p>
+        {entry.lastError && <p className="text-gray-500 font-sans text-xs truncate">{entry.lastError}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+export default ModelHealthList;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { SessionArchive, SessionSummary } from '../types';
+import { deleteSession, exportSession, listSessions, loadSession, parseArchive } from '../services/sessionStore';
+import { MessageKey, Translator } from '../utils/i18n';
+
+interface SessionPanelProps {
+  onReplay: (archive: SessionArchive) => void;
+  onClose: () => void;
+  t: Translator;
+  locale: string;
+  children?: React.ReactNode;
+}
+
+const formatDuration = (session: SessionSummary, t: Translator) => {
+  if (!session.endedAt) return t('sessionInProgress');
+  const seconds = Math.round((session.endedAt - session.startedAt) / 1000);
+  return t('sessionDuration', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 });
+};
+
+// Lists recorded sessions from IndexedDB with replay / export / delete actions
+const SessionPanel: React.FC<SessionPanelProps> = ({ onReplay, onClose, t, locale, children }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => {
+        console.error("[SessionPanel] Failed to list sessions", e);
+        setError('sessionStorageUnavailable');
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const replay = async (id: string) => {
+    try {
+      const archive = await loadSession(id);
+      if (archive) onReplay(archive);
+      else setError('sessionNotFound');
+    } catch (e) {
+      console.error("[SessionPanel] Failed to load session", e);
+      setError('sessionLoadFailed');
+    }
+  };
+
+  const exportArchive = async (id: string) => {
+    try {
+      await exportSession(id);
+    } catch (e) {
+      console.error("[SessionPanel] Export failed", e);
+      setError('sessionExportFailed');
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      console.error("[SessionPanel] Delete failed", e);
+      setError('sessionDeleteFailed');
+    }
+    refresh();
+  };
+
+  const importArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      onReplay(await parseArchive(file));
+    } catch (e) {
+      console.error("[SessionPanel] Import failed", e);
+      setError('invalidArchive');
+    }
+  };
+
+  return (
+    <div className="absolute top-16 left-4 right-4 z-40 bg-sonar-panel border border-gray-700 rounded-xl shadow-xl p-4 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-bold tracking-widest">{t('sessionsTitle')}</h2>
+        <button onClick={onClose} className="text-gray-400 px-2">{t('close')}</button>
+      </div>
+
+      {error && <p className="text-sonar-alert text-sm mb-2">{t(error)}</p>}
+      {sessions.length === 0 && !error && <p className="text-gray-400 text-sm mb-2">{t('noSessions')}</p>}
+
+      {sessions.map(session => (
+        <div key={session.id} className="border-t border-gray-800 py-2 flex items-center justify-between gap-2">
+          <div className="text-sm">
+            <p className="font-bold">{new Date(session.startedAt).toLocaleString(locale)}</p>
+            <p className="text-gray-400 font-sans">{formatDuration(session, t)} · {t('sessionEvents', { count: session.eventCount })} · {session.provider}</p>
+          </div>
+          <div className="flex gap-2 text-xs font-bold">
+            <button onClick={() => replay(session.id)} className="border border-sonar-safe text-sonar-safe px-2 py-1 rounded">{t('replayButton')}</button>
+            <button onClick={() => exportArchive(session.id)} className="border border-gray-500 px-2 py-1 rounded">{t('exportButton')}</button>
+            <button onClick={() => remove(session.id)} className="border border-sonar-alert text-sonar-alert px-2 py-1 rounded">{t('deleteButton')}</button>
+          </div>
+        </div>
+      ))}
+
+      <label className="block mt-3 text-sm text-gray-300 cursor-pointer">
+        <span className="border border-gray-500 px-3 py-1 rounded font-bold">{t('importArchive')}</span>
+        <input type="file" accept="application/json,.json" onChange={importArchive} className="hidden" />
+      </label>
+
+      {children}
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,186 @@
+import React, { useEffect, useRef } from 'react';
+import { SonarSettings, TalkMode, VoiceSettings } from '../types';
+import { CONFIDENCE_RANGE, PROFILE_MESSAGES, SCAN_INTERVAL_RANGE, SELECTABLE_CLASSES, SETTINGS_PROFILES } from '../utils/settings';
+import { MessageKey, translateObject, Translator } from '../utils/i18n';
+
+const TALK_MODE_LABELS: Record<TalkMode, MessageKey> = {
+  hold: 'talkModeHold',
+  toggle: 'talkModeToggle',
+};
+
+interface LanguageChoice {
+  code: string;
+  nativeName: string;
+}
+
+interface SettingsPanelProps {
+  settings: SonarSettings;
+  profileId: string | null;
+  languages: LanguageChoice[];
+  voice: VoiceSettings; // current language
+  onChange: (patch: Partial<SonarSettings>) => void;
+  onLanguageChange: (code: string) => void;
+  onVoiceChange: (voice: VoiceSettings) => void;
+  onSelectProfile: (id: string) => void;
+  onClose: () => void;
+  t: Translator;
+}
+
+// Settings screen built from native form controls so screen readers announce every
+// label, value and group; Escape closes it and focus starts on the heading.
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, profileId, languages, voice, onChange, onLanguageChange, onVoiceChange, onSelectProfile, onClose, t }) => {
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    headingRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const toggleClass = (label: string, checked: boolean) => {
+    const classes = settings.importantClasses.filter(c => c !== label);
+    onChange({ importantClasses: checked ? [...classes, label] : classes });
+  };
+
+  const scanSeconds = settings.scanIntervalMs / 1000;
+  const confidencePercent = Math.round(settings.detectionConfidence * 100);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="settings-title"
+      className="absolute top-16 left-4 right-4 z-40 bg-sonar-panel border border-gray-700 rounded-xl shadow-xl p-4 max-h-[70vh] overflow-y-auto"
+    >
+      <div className="flex justify-between items-center mb-3">
+        <h2 id="settings-title" ref={headingRef} tabIndex={-1} className="text-lg font-bold tracking-widest">{t('settingsTitle')}</h2>
+        <button onClick={onClose} className="text-gray-400 px-2" aria-label={t('closePanel')}>{t('close')}</button>
+      </div>
+
+      <fieldset>
+        <legend className="text-lg font-bold tracking-widest mb-2">{t('profileHeading')}</legend>
+        {SETTINGS_PROFILES.map(profile => (
+          <label
+            key={profile.id}
+            className={`block border rounded-lg px-3 py-2 mb-2 cursor-pointer focus-within:ring-2 focus-within:ring-sonar-yellow ${
+              profile.id === profileId ? 'border-sonar-yellow' : 'border-gray-700'
+            }`}
+          >
+            <input
+              type="radio"
+              name="settings-profile"
+              value={profile.id}
+              checked={profile.id === profileId}
+              onChange={() => onSelectProfile(profile.id)}
+              className="sr-only"
+            />
+            <span className="block font-bold">{PROFILE_MESSAGES[profile.id] ? t(PROFILE_MESSAGES[profile.id].name) : profile.name}</span>
+            <span className="block text-gray-400 text-sm font-sans">{PROFILE_MESSAGES[profile.id] ? t(PROFILE_MESSAGES[profile.id].description) : profile.description}</span>
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="mt-4 border-t border-gray-700 pt-3">
+        <h2 className="text-lg font-bold tracking-widest mb-2">{t('speechHeading')}</h2>
+        <label className="flex items-center gap-3 text-sm py-1">
+          <span className="w-24 font-bold">{t('language')}</span>
+          <select
+            value={settings.languageCode}
+            onChange={e => onLanguageChange(e.target.value)}
+            className="flex-1 bg-sonar-black border border-gray-700 rounded px-2 py-1"
+          >
+            {languages.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.nativeName}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-3 text-sm py-1">
+          <span className="w-24 font-bold">{t('rate')}</span>
+          <input
+            type="range"
+            min={50}
+            max={200}
+            value={Math.round(voice.rate * 100)}
+            aria-valuetext={t('rateValue', { rate: voice.rate.toFixed(1) })}
+            onChange={e => onVoiceChange({ ...voice, rate: Number(e.target.value) / 100 })}
+            className="flex-1 accent-sonar-yellow"
+          />
+          <span className="w-12 text-end text-gray-400 font-sans" aria-hidden="true">{voice.rate.toFixed(1)}x</span>
+        </label>
+
+        <fieldset className="mt-2">
+          <legend className="text-sm font-bold mb-1">{t('questionButton')}</legend>
+          {(Object.keys(TALK_MODE_LABELS) as TalkMode[]).map(mode => (
+            <label key={mode} className="flex items-center gap-2 text-sm py-1 font-sans">
+              <input
+                type="radio"
+                name="settings-talk-mode"
+                value={mode}
+                checked={settings.talkMode === mode}
+                onChange={() => onChange({ talkMode: mode })}
+                className="accent-sonar-yellow"
+              />
+              {t(TALK_MODE_LABELS[mode])}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      <div className="mt-4 border-t border-gray-700 pt-3">
+        <h2 className="text-lg font-bold tracking-widest mb-2">{t('detectionHeading')}</h2>
+        <label className="flex items-center gap-3 text-sm py-1">
+          <span className="w-24 font-bold">{t('scanEvery')}</span>
+          <input
+            type="range"
+            min={SCAN_INTERVAL_RANGE.min / 1000}
+            max={SCAN_INTERVAL_RANGE.max / 1000}
+            step={1}
+            value={scanSeconds}
+            aria-valuetext={t('secondsValue', { seconds: scanSeconds })}
+            onChange={e => onChange({ scanIntervalMs: Number(e.target.value) * 1000 })}
+            className="flex-1 accent-sonar-yellow"
+          />
+          <span className="w-12 text-end text-gray-400 font-sans" aria-hidden="true">{scanSeconds}s</span>
+        </label>
+        <label className="flex items-center gap-3 text-sm py-1">
+          <span className="w-24 font-bold">{t('confidence')}</span>
+          <input
+            type="range"
+            min={CONFIDENCE_RANGE.min * 100}
+            max={CONFIDENCE_RANGE.max * 100}
+            step={5}
+            value={confidencePercent}
+            aria-valuetext={t('percentValue', { percent: confidencePercent })}
+            onChange={e => onChange({ detectionConfidence: Number(e.target.value) / 100 })}
+            className="flex-1 accent-sonar-yellow"
+          />
+          <span className="w-12 text-end text-gray-400 font-sans" aria-hidden="true">{confidencePercent}%</span>
+        </label>
+
+        <fieldset className="mt-2">
+          <legend className="text-sm font-bold mb-1">{t('importantObjects')}</legend>
+          <div className="grid grid-cols-2 gap-x-3">
+            {SELECTABLE_CLASSES.map(label => (
+              <label key={label} className="flex items-center gap-2 text-sm py-1 font-sans">
+                <input
+                  type="checkbox"
+                  checked={settings.importantClasses.includes(label)}
+                  onChange={e => toggleClass(label, e.target.checked)}
+                  className="accent-sonar-yellow"
+                />
+                {translateObject(t, label)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
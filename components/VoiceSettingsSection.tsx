@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceSettings } from '../types';
+import { Translator } from '../utils/i18n';
+import { PITCH_RANGE, RATE_RANGE } from '../utils/settings';
+
+interface VoiceSettingsSectionProps {
+  language: string;
+  locale: string;
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  onPreview: () => void;
+  t: Translator;
+}
+
+// Browsers load synthesis voices asynchronously
+const useVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  useEffect(() => {
+    if (!window.speechSynthesis) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+  return voices;
+};
+
+// Rate, pitch and voice for the current language's speech synthesis
+const VoiceSettingsSection: React.FC<VoiceSettingsSectionProps> = ({ language, locale, settings, onChange, onPreview, t }) => {
+  const voices = useVoices().filter(voice => voice.lang.split('-')[0] === locale.split('-')[0]);
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-3">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-bold tracking-widest">{t('voiceHeading', { language: language.toUpperCase() })}</h2>
+        <button onClick={onPreview} className="border border-gray-500 px-2 py-1 rounded text-xs font-bold">{t('play')}</button>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm py-1">
+        <span className="w-24 font-bold">{t('rate')}</span>
+        <input
+          type="range"
+          min={RATE_RANGE.min * 100}
+          max={RATE_RANGE.max * 100}
+          value={Math.round(settings.rate * 100)}
+          onChange={e => onChange({ ...settings, rate: Number(e.target.value) / 100 })}
+          className="flex-1 accent-sonar-yellow"
+        />
+        <span className="w-10 text-end text-gray-400 font-sans">{settings.rate.toFixed(1)}x</span>
+      </label>
+
+      <label className="flex items-center gap-3 text-sm py-1">
+        <span className="w-24 font-bold">{t('pitch')}</span>
+        <input
+          type="range"
+          min={PITCH_RANGE.min * 100}
+          max={PITCH_RANGE.max * 100}
+          value={Math.round(settings.pitch * 100)}
+          onChange={e => onChange({ ...settings, pitch: Number(e.target.value) / 100 })}
+          className="flex-1 accent-sonar-yellow"
+        />
+        <span className="w-10 text-end text-gray-400 font-sans">{settings.pitch.toFixed(1)}</span>
+      </label>
+
+      <label className="flex items-center gap-3 text-sm py-1">
+        <span className="w-24 font-bold">{t('voice')}</span>
+        <select
+          value={settings.voiceURI ?? ''}
+          onChange={e => onChange({ ...settings, voiceURI: e.target.value || undefined })}
+          className="flex-1 bg-sonar-black border border-gray-700 rounded px-2 py-1"
+        >
+          <option value="">{t('systemDefaultVoice')}</option>
+          {voices.map(voice => (
+            <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default VoiceSettingsSection;
@@ -0,0 +1,110 @@
+import { ObjectLocation, SceneAnswer, SonarResponse, TextReading } from "../types";
+
+// Recorded SonarResponse payloads replayed by the mock provider.
+// Ordered as a short indoor walk: clear corridor, obstacle, door, blocked path.
+export const SONAR_FIXTURES: SonarResponse[] = [
+  {
+    safety_status: "SAFE",
+    reasoning_summary: "Clear hallway ahead",
+    navigation_command: "Walk straight ahead",
+    stereo_pan: 0,
+    visual_debug: {
+      hazards: [],
+      safe_path: [{ label: "hallway", box_2d: [450, 300, 1000, 700] }],
+    },
+  },
+  {
+    safety_status: "CAUTION",
+    reasoning_summary: "Chair on the right",
+    navigation_command: "Veer slightly left",
+    stereo_pan: -0.4,
+    visual_debug: {
+      hazards: [{ label: "chair", box_2d: [520, 640, 900, 880] }],
+      safe_path: [{ label: "floor", box_2d: [500, 150, 1000, 550] }],
+    },
+  },
+  {
+    safety_status: "SAFE",
+    reasoning_summary: "EXIT sign above door",
+    navigation_command: "Door ahead, slightly right",
+    stereo_pan: 0.3,
+    visual_debug: {
+      hazards: [],
+      safe_path: [{ label: "door", box_2d: [200, 500, 950, 750] }],
+    },
+  },
+  {
+    safety_status: "STOP",
+    reasoning_summary: "Person directly ahead",
+    navigation_command: "Stop. Wait.",
+    stereo_pan: 0,
+    visual_debug: {
+      hazards: [{ label: "person", box_2d: [150, 380, 1000, 640] }],
+      safe_path: [],
+    },
+  },
+];
+
+// Answers to TRANSCRIPT_FIXTURES, in the same order
+export const SCENE_ANSWER_FIXTURES: SceneAnswer[] = [
+  {
+    answer: "The exit is through the door slightly to your right, under the green EXIT sign.",
+    confidence: 0.9,
+    regions: [
+      { label: "EXIT sign", box_2d: [80, 540, 180, 720] },
+      { label: "door", box_2d: [200, 500, 950, 750] },
+    ],
+    ocr_text: "EXIT",
+  },
+  {
+    answer: "A hallway with a chair against the right wall. The floor in front of you is clear.",
+    confidence: 0.8,
+    regions: [{ label: "chair", box_2d: [520, 640, 900, 880] }],
+  },
+];
+
+// Successive readText results while the user pans across a notice board
+export const TEXT_READING_FIXTURES: TextReading[] = [
+  {
+    language: "English",
+    blocks: [
+      { text: "BUILDING NOTICE", box_2d: [120, 300, 200, 700], cut_off: [] },
+      { text: "The east elevator is out of service until", box_2d: [260, 120, 320, 1000], cut_off: ["right"] },
+    ],
+  },
+  {
+    language: "English",
+    blocks: [
+      { text: "BUILDING NOTICE", box_2d: [120, 200, 200, 600], cut_off: [] },
+      { text: "The east elevator is out of service until Friday.", box_2d: [260, 60, 320, 880], cut_off: [] },
+      { text: "Please use the stairs or the west elevator.", box_2d: [350, 60, 410, 840], cut_off: [] },
+    ],
+  },
+];
+
+// locateObject results as the user turns toward and walks up to the target
+// (null = not in view yet)
+export const OBJECT_LOCATION_FIXTURES: (ObjectLocation | null)[] = [
+  null,
+  { label: "door", box_2d: [300, 780, 700, 900], confidence: 0.7 },
+  { label: "door", box_2d: [250, 560, 800, 760], confidence: 0.8 },
+  { label: "door", box_2d: [150, 380, 950, 680], confidence: 0.9 },
+  { label: "door", box_2d: [50, 200, 1000, 800], confidence: 0.95 },
+];
+
+// Voice questions in order. "Where is the exit?" must reach askAboutScene (no COCO class),
+// while "Find the door." and "Where is my bag?" start an object search.
+export const TRANSCRIPT_FIXTURES: string[] = [
+  "Where is the exit?",
+  "Find the door.",
+  "What is in front of me?",
+  "Where is my bag?",
+];
+
+// Scripted turns for the mock live conversation session: what the user "said"
+// and the streamed answer, replayed in order.
+export const LIVE_CONVERSATION_FIXTURES: { question: string; answer: string }[] = [
+  { question: "What is in front of me?", answer: "A hallway with a chair on your right. The floor ahead is clear." },
+  { question: "Where is the exit?", answer: "The exit sign is above a door slightly to your right, about ten steps ahead." },
+  { question: "Is anyone near it?", answer: "One person is standing to the left of that door. Keep right to pass them." },
+];
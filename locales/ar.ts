@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: 'توقف.',
+  caution: 'انتبه.',
+  turnLeft: 'انعطف يسارًا.',
+  turnRight: 'انعطف يمينًا.',
+  goStraight: 'تقدّم إلى الأمام.',
+  pathClear: 'الطريق خالٍ.',
+
+  sonarActive: 'السونار يعمل',
+  sonarAlreadyActive: 'السونار يعمل بالفعل',
+  systemPaused: 'النظام متوقف مؤقتًا',
+  offlineMode: 'وضع عدم الاتصال. يتم استخدام الكشف على الجهاز.',
+  connectionRestored: 'عاد الاتصال. استُؤنف التوجيه بالذكاء الاصطناعي.',
+  cameraBlocked: 'الكاميرا محجوبة.',
+  analysisFailed: 'خطأ في الذكاء الاصطناعي. تقدم بحذر.',
+  profileApplied: 'ملف {profile}',
+  volumePercent: 'مستوى الصوت {percent} بالمئة',
+  voicePreview: 'هذا هو الصوت {language}.',
+
+  processing: 'جارٍ المعالجة...',
+  couldNotHear: 'لم أسمعك بوضوح.',
+  couldNotSee: 'لم أتمكن من الرؤية بوضوح.',
+  notSure: 'لست متأكدًا.',
+  couldNotAnswer: 'عذرًا، لم أتمكن من الإجابة عن ذلك.',
+  itReads: 'المكتوب هو: {text}.',
+  nothingToRepeat: 'لا يوجد شيء لتكراره بعد.',
+  conversationCleared: 'تم مسح المحادثة.',
+  voiceQuestionsNeedConnection: 'الأسئلة الصوتية تحتاج إلى اتصال.',
+  micDenied: 'تم رفض الوصول إلى الميكروفون.',
+  whatsAheadQuestion: 'ما الذي أمامي؟ صف العوائق واتجاه الطريق.',
+
+  handsFreeOn: 'تم تشغيل وضع التحدث الحر. تستمع خدمة التعرف على الكلام عبر الإنترنت في المتصفح إلى الميكروفون. قل يا سونار ثم الأمر.',
+  handsFreeOff: 'تم إيقاف وضع التحدث الحر',
+  handsFreeStopped: 'توقف الاستماع في وضع التحدث الحر.',
+  handsFreeNeedsConnection: 'يحتاج الاستماع في وضع التحدث الحر إلى اتصال بالإنترنت وقد توقف.',
+  handsFreeUnsupported: 'وضع التحدث الحر يحتاج إلى التعرف على الكلام، وهذا المتصفح لا يدعمه.',
+
+  conversationEnded: 'انتهت المحادثة',
+  conversationNeedsConnection: 'المحادثة تحتاج إلى اتصال.',
+  conversationUnavailable: 'المحادثة غير متاحة.',
+
+  readingStarted: 'وضع القراءة. وجّه الكاميرا نحو النص.',
+  readingStopped: 'توقفت القراءة',
+  readingNeedsConnection: 'القراءة تحتاج إلى اتصال.',
+  translatingTo: 'الترجمة إلى {language}',
+  originalText: 'النص الأصلي',
+  holdSteady: 'ثبّت الجهاز.',
+  readHintLeft: 'تحرك يسارًا، النص مستمر.',
+  readHintRight: 'تحرك يمينًا، النص مستمر.',
+  readHintTop: 'أمِل للأعلى، النص مستمر.',
+  readHintBottom: 'أمِل للأسفل، النص مستمر.',
+  readHintCloser: 'اقترب من النص.',
+
+  searchingFor: 'جارٍ البحث عن {target}. استدر ببطء.',
+  searchStopped: 'توقف البحث',
+  findingNeedsConnection: 'البحث عن {target} يحتاج إلى اتصال.',
+  targetInReach: '{target} في متناول يدك، أمامك مباشرة.',
+  targetNotInView: '{target} غير ظاهر. استدر ببطء.',
+
+  recording: 'جارٍ التسجيل',
+  recordingSaved: 'تم حفظ التسجيل',
+  replayStarted: 'بدأت الإعادة',
+  replayFinished: 'انتهت الإعادة',
+  replayStopped: 'توقفت الإعادة',
+
+  hazardAhead: '{object} أمامك',
+  hazardOnLeft: '{object} على اليسار',
+  hazardOnRight: '{object} على اليمين',
+  hazardApproachingAhead: '{object} يقترب من الأمام',
+  hazardApproachingLeft: '{object} يقترب من اليسار',
+  hazardApproachingRight: '{object} يقترب من اليمين',
+  hazardMovingAway: '{object} يبتعد',
+  hazardCrossingLeft: '{object} يعبر نحو اليسار',
+  hazardCrossingRight: '{object} يعبر نحو اليمين',
+  localNoObstacles: 'لم يتم اكتشاف عوائق',
+  localObjectsNoneClose: '{count} أجسام، لا شيء قريب',
+  localPathClear: 'يبدو الطريق خاليًا',
+  localStopWait: 'توقف. انتظر.',
+  localMoveLeft: 'تحرك يسارًا',
+  localMoveRight: 'تحرك يمينًا',
+  objectPerson: 'شخص',
+  objectBicycle: 'دراجة',
+  objectMotorcycle: 'دراجة نارية',
+  objectDog: 'كلب',
+  objectChair: 'كرسي',
+  objectBench: 'مقعد',
+  objectCouch: 'أريكة',
+  objectDiningTable: 'طاولة طعام',
+  objectPottedPlant: 'نبتة',
+  objectFireHydrant: 'صنبور إطفاء',
+  objectSuitcase: 'حقيبة سفر',
+  objectCar: 'سيارة',
+  objectBus: 'حافلة',
+  objectTruck: 'شاحنة',
+  objectTrain: 'قطار',
+  objectTrafficLight: 'إشارة مرور',
+  objectStopSign: 'لافتة توقف',
+  objectBackpack: 'حقيبة ظهر',
+  objectUmbrella: 'مظلة',
+  objectHandbag: 'حقيبة يد',
+  objectBed: 'سرير',
+  objectToilet: 'مرحاض',
+  objectTv: 'تلفاز',
+  objectLaptop: 'حاسوب محمول',
+  objectRefrigerator: 'ثلاجة',
+  objectSink: 'حوض',
+
+  statusSafe: 'آمن',
+  statusCaution: 'انتبه',
+  statusStop: 'توقف',
+  directionLeft: 'إلى اليسار',
+  directionAhead: 'إلى الأمام',
+  directionRight: 'إلى اليمين',
+  statusAnnouncement: '{status}، {direction}',
+
+  standby: 'النظام في وضع الاستعداد. اضغط ابدأ.',
+  processingIndicator: 'جارٍ المعالجة',
+  offlineBadge: 'غير متصل',
+  connecting: 'جارٍ الاتصال',
+  answering: 'جارٍ الرد',
+  listening: 'أستمع',
+  askAboutSurroundings: 'اسأل عمّا حولك.',
+  searchingLabel: 'البحث عن: {target}',
+  overlayHazard: 'خطر: {label}',
+  overlayTarget: 'الهدف: {label}',
+  overlayText: 'نص {number}',
+  overlayPath: 'المسار',
+  panValue: 'الاتجاه: {pan}',
+  motionApproaching: 'يقترب',
+  motionReceding: 'يبتعد',
+  motionCrossing: 'يعبر',
+  notInView: 'غير ظاهر',
+  inReach: 'في المتناول',
+  ahead: 'أمامك',
+  left: 'يسار',
+  right: 'يمين',
+  readingLabel: 'قراءة',
+  original: 'الأصل',
+  pointAtText: 'وجّه الكاميرا نحو النص.',
+  answerLabel: 'الإجابة',
+  confidenceLabel: 'الثقة: {percent}%',
+  localDetection: 'كشف محلي',
+  statusRegion: 'الحالة',
+
+  recButton: 'تسجيل',
+  logButton: 'سجل',
+  wakeButton: 'نداء',
+  settingsButton: 'إعداد',
+  soundButton: 'صوت',
+  recordSession: 'تسجيل الجلسة',
+  sessionLog: 'سجل الجلسة',
+  handsFreeCommands: 'أوامر صوتية دون استخدام اليدين',
+  settings: 'الإعدادات',
+  soundAndFeedback: 'الصوت والتنبيهات',
+  languageLabel: 'اللغة: {language}',
+  startSonar: 'تشغيل السونار',
+  pauseSonar: 'إيقاف السونار مؤقتًا',
+  stopReplay: 'إيقاف الإعادة',
+  endConversation: 'إنهاء المحادثة',
+  stopReading: 'إيقاف القراءة',
+  stopSearch: 'إيقاف البحث',
+  askQuestion: 'اطرح سؤالًا',
+  askQuestionHold: 'اطرح سؤالًا، اضغط مطولًا للتحدث',
+  sendQuestion: 'إرسال السؤال',
+  liveConversation: 'محادثة مباشرة',
+  readText: 'قراءة النص',
+  translateTo: 'الترجمة إلى {language}',
+
+  close: 'إغلاق',
+  closePanel: 'إغلاق',
+  play: 'تشغيل',
+  settingsTitle: 'الإعدادات',
+  profileHeading: 'الملف',
+  speechHeading: 'الكلام',
+  detectionHeading: 'الكشف',
+  language: 'اللغة',
+  rate: 'السرعة',
+  pitch: 'طبقة الصوت',
+  voice: 'الصوت',
+  systemDefaultVoice: 'الافتراضي للنظام',
+  rateValue: '{rate} ضعف',
+  questionButton: 'زر السؤال',
+  talkModeHold: 'اضغط مطولًا للتحدث',
+  talkModeToggle: 'اضغط للبدء، واضغط مرة أخرى للإرسال',
+  scanEvery: 'المسح كل',
+  secondsValue: '{seconds} ثانية',
+  confidence: 'الثقة',
+  percentValue: '{percent} بالمئة',
+  importantObjects: 'الأجسام المهمة',
+  profileIndoorName: 'داخلي',
+  profileIndoorDescription: 'مسح أبطأ، الأثاث والأبواب',
+  profileStreetName: 'الشارع',
+  profileStreetDescription: 'مسح سريع، الأولوية لحركة المرور، اهتزاز وصوت معًا',
+  profileTransitName: 'المواصلات',
+  profileTransitDescription: 'الحشود والأمتعة والمركبات؛ تنبيهات هادئة',
+  voiceHeading: 'الصوت · {language}',
+  soundTitle: 'الصوت',
+  volumeHeading: 'مستوى الصوت',
+  previewHeading: 'معاينة',
+  master: 'الرئيسي',
+  categoryAlerts: 'التنبيهات',
+  categoryNavigation: 'التنقل',
+  categoryInterface: 'الواجهة',
+  categorySpatial: 'المكاني',
+  themeClassicName: 'كلاسيكي',
+  themeClassicDescription: 'نقرات سونار ونبضات تحذير حادة.',
+  themeSoftName: 'ناعم',
+  themeSoftDescription: 'نغمات جيبية لطيفة ببداية بطيئة.',
+  themeLowPitchName: 'منخفض الطبقة',
+  themeLowPitchDescription: 'طنين منخفض، مسموع مع ضعف سماع الترددات العالية.',
+  earconScan: 'بدء المسح',
+  earconSafe: 'الطريق خالٍ',
+  earconCaution: 'انتبه',
+  earconStop: 'توقف',
+  earconListenStart: 'بدء الاستماع',
+  earconListenStop: 'انتهاء الاستماع',
+  earconError: 'خطأ',
+  earconFound: 'الهدف في المتناول',
+  feedbackHeading: 'التنبيهات',
+  feel: 'جرّب',
+  channelAudio: 'صوت',
+  channelHaptic: 'اهتزاز',
+  channelBoth: 'كلاهما',
+  noVibration: 'لا يوجد اهتزاز على هذا الجهاز.',
+
+  sessionsTitle: 'الجلسات',
+  replayButton: 'إعادة التشغيل',
+  exportButton: 'تصدير',
+  deleteButton: 'حذف',
+  importArchive: 'استيراد أرشيف',
+  noSessions: 'لا توجد جلسات مسجلة.',
+  sessionInProgress: 'قيد التسجيل',
+  sessionDuration: '{minutes} د {seconds} ث',
+  sessionEvents: '{count} حدث',
+  sessionStorageUnavailable: 'تخزين الجلسات غير متاح',
+  sessionNotFound: 'لم يتم العثور على الجلسة',
+  sessionLoadFailed: 'تعذر تحميل الجلسة',
+  sessionExportFailed: 'تعذر تصدير الجلسة',
+  sessionDeleteFailed: 'تعذر حذف الجلسة',
+  invalidArchive: 'ليس أرشيف جلسة صالحًا',
+  modelsTitle: 'النماذج',
+  noModelRequests: 'لا توجد طلبات بعد.',
+  circuitClosed: 'مغلقة',
+  circuitHalfOpen: 'نصف مفتوحة',
+  circuitOpen: 'مفتوحة',
+  modelStats: '{successes} ناجحة · {failures} فاشلة',
+  modelAvgLatency: 'بمتوسط {ms} مللي ثانية',
+  modelRetryAt: 'إعادة المحاولة في {time}',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['يا سونار', 'هاي سونار', 'مرحبا سونار', 'سونار'],
+  please: ['من فضلك', 'لو سمحت'],
+  start: ['ابدأ', 'استمر', 'تشغيل', 'شغل السونار'],
+  pause: ['توقف', 'قف', 'إيقاف', 'أوقف السونار'],
+  whatsAhead: ['ماذا أمامي', 'ما الذي أمامي', 'ماذا يوجد أمامي'],
+  readText: ['اقرأ', 'اقرأ هذا', 'اقرأ النص'],
+  louder: ['أعلى', 'صوت أعلى', 'ارفع الصوت'],
+  quieter: ['أخفض', 'صوت أخفض', 'اخفض الصوت'],
+  repeat: ['كرر', 'أعد', 'مرة أخرى'],
+  clearHistory: ['امسح', 'امسح المحادثة', 'انس ذلك', 'ابدأ من جديد'],
+  find: ['ابحث عن {target}', 'أين أجد {target}', 'جد {target}'],
+  whereIs: ['أين {target}', 'وين {target}'],
+  articles: [],
+  switchTo: ['انتقل إلى {name}', 'غير إلى {name}', 'تحدث ب{name}', 'تحدث {name}', 'تكلم {name}'],
+  profileMode: ['وضع {profile}', 'ملف {profile}'],
+  profileIndoor: ['داخلي', 'الداخل', 'المنزل'],
+  profileStreet: ['الشارع', 'خارجي', 'الخارج'],
+  profileTransit: ['المواصلات العامة', 'النقل العام', 'المواصلات'],
+  languageEn: ['الإنجليزية', 'الانجليزية'],
+  languageEs: ['الإسبانية'],
+  languageFr: ['الفرنسية'],
+  languageDe: ['الألمانية'],
+  languageJa: ['اليابانية'],
+  languageVi: ['الفيتنامية'],
+  languageZh: ['الصينية'],
+  languageAr: ['العربية', 'عربي'],
+};
+
+export const ar: LanguagePack = {
+  code: 'ar',
+  name: 'Arabic',
+  nativeName: 'العربية',
+  locale: 'ar-SA',
+  label: 'ARA',
+  flag: '🇸🇦',
+  direction: 'rtl',
+  messages,
+  grammar,
+};
@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: 'Stopp.',
+  caution: 'Vorsicht.',
+  turnLeft: 'Links abbiegen.',
+  turnRight: 'Rechts abbiegen.',
+  goStraight: 'Geradeaus.',
+  pathClear: 'Weg frei.',
+
+  sonarActive: 'Sonar aktiv',
+  sonarAlreadyActive: 'Sonar ist bereits aktiv',
+  systemPaused: 'System pausiert',
+  offlineMode: 'Offline-Modus. Erkennung auf dem Gerät.',
+  connectionRestored: 'Verbindung wiederhergestellt. KI-Führung fortgesetzt.',
+  cameraBlocked: 'Kamerasicht blockiert.',
+  analysisFailed: 'KI-Fehler. Vorsichtig weitergehen.',
+  profileApplied: 'Profil {profile}',
+  volumePercent: 'Lautstärke {percent} Prozent',
+  voicePreview: 'Das ist die Stimme für {language}.',
+
+  processing: 'Verarbeite...',
+  couldNotHear: 'Ich habe dich nicht richtig verstanden.',
+  couldNotSee: 'Ich konnte nichts Deutliches sehen.',
+  notSure: 'Ich bin mir nicht sicher.',
+  couldNotAnswer: 'Das konnte ich leider nicht beantworten.',
+  itReads: 'Dort steht: {text}.',
+  nothingToRepeat: 'Noch nichts zu wiederholen.',
+  conversationCleared: 'Gespräch gelöscht.',
+  voiceQuestionsNeedConnection: 'Sprachfragen brauchen eine Verbindung.',
+  micDenied: 'Mikrofonzugriff verweigert.',
+  whatsAheadQuestion: 'Was ist vor mir? Beschreibe Hindernisse und wohin der Weg führt.',
+
+  handsFreeOn: 'Freihändig an. Der Online-Sprachdienst des Browsers hört das Mikrofon. Sag Hallo Sonar, dann einen Befehl.',
+  handsFreeOff: 'Freihändig aus',
+  handsFreeStopped: 'Freihändiges Zuhören wurde beendet.',
+  handsFreeNeedsConnection: 'Freihändiges Zuhören braucht eine Internetverbindung und wurde beendet.',
+  handsFreeUnsupported: 'Freihändig braucht Spracherkennung, die dieser Browser nicht hat.',
+
+  conversationEnded: 'Gespräch beendet',
+  conversationNeedsConnection: 'Das Gespräch braucht eine Verbindung.',
+  conversationUnavailable: 'Gespräch nicht verfügbar.',
+
+  readingStarted: 'Lesen. Richte die Kamera auf den Text.',
+  readingStopped: 'Lesen beendet',
+  readingNeedsConnection: 'Lesen braucht eine Verbindung.',
+  translatingTo: 'Übersetze ins {language}',
+  originalText: 'Originaltext',
+  holdSteady: 'Ruhig halten.',
+  readHintLeft: 'Nach links, der Text geht weiter.',
+  readHintRight: 'Nach rechts, der Text geht weiter.',
+  readHintTop: 'Nach oben neigen, der Text geht weiter.',
+  readHintBottom: 'Nach unten neigen, der Text geht weiter.',
+  readHintCloser: 'Näher an den Text.',
+
+  searchingFor: 'Suche {target}. Langsam drehen.',
+  searchStopped: 'Suche beendet',
+  findingNeedsConnection: '{target} zu finden braucht eine Verbindung.',
+  targetInReach: '{target} in Reichweite, direkt vor dir.',
+  targetNotInView: 'Kein {target} in Sicht. Langsam drehen.',
+
+  recording: 'Aufnahme',
+  recordingSaved: 'Aufnahme gespeichert',
+  replayStarted: 'Wiedergabe gestartet',
+  replayFinished: 'Wiedergabe beendet',
+  replayStopped: 'Wiedergabe gestoppt',
+
+  hazardAhead: '{object} voraus',
+  hazardOnLeft: '{object} links',
+  hazardOnRight: '{object} rechts',
+  hazardApproachingAhead: '{object} kommt von vorne näher',
+  hazardApproachingLeft: '{object} kommt von links näher',
+  hazardApproachingRight: '{object} kommt von rechts näher',
+  hazardMovingAway: '{object} entfernt sich',
+  hazardCrossingLeft: '{object} quert nach links',
+  hazardCrossingRight: '{object} quert nach rechts',
+  localNoObstacles: 'Keine Hindernisse erkannt',
+  localObjectsNoneClose: '{count} Objekte, keines nah',
+  localPathClear: 'Der Weg scheint frei',
+  localStopWait: 'Stopp. Warten.',
+  localMoveLeft: 'Nach links gehen',
+  localMoveRight: 'Nach rechts gehen',
+  objectPerson: 'Person',
+  objectBicycle: 'Fahrrad',
+  objectMotorcycle: 'Motorrad',
+  objectDog: 'Hund',
+  objectChair: 'Stuhl',
+  objectBench: 'Bank',
+  objectCouch: 'Sofa',
+  objectDiningTable: 'Tisch',
+  objectPottedPlant: 'Topfpflanze',
+  objectFireHydrant: 'Hydrant',
+  objectSuitcase: 'Koffer',
+  objectCar: 'Auto',
+  objectBus: 'Bus',
+  objectTruck: 'Lastwagen',
+  objectTrain: 'Zug',
+  objectTrafficLight: 'Ampel',
+  objectStopSign: 'Stoppschild',
+  objectBackpack: 'Rucksack',
+  objectUmbrella: 'Regenschirm',
+  objectHandbag: 'Handtasche',
+  objectBed: 'Bett',
+  objectToilet: 'Toilette',
+  objectTv: 'Fernseher',
+  objectLaptop: 'Laptop',
+  objectRefrigerator: 'Kühlschrank',
+  objectSink: 'Spüle',
+
+  statusSafe: 'Sicher',
+  statusCaution: 'Vorsicht',
+  statusStop: 'Stopp',
+  directionLeft: 'links',
+  directionAhead: 'vorne',
+  directionRight: 'rechts',
+  statusAnnouncement: '{status}, {direction}',
+
+  standby: 'System bereit. Start drücken.',
+  processingIndicator: 'Verarbeitung',
+  offlineBadge: 'OFFLINE',
+  connecting: 'Verbinde',
+  answering: 'Antwortet',
+  listening: 'Hört zu',
+  askAboutSurroundings: 'Frag nach deiner Umgebung.',
+  searchingLabel: 'Suche: {target}',
+  overlayHazard: 'GEFAHR: {label}',
+  overlayTarget: 'ZIEL: {label}',
+  overlayText: 'TEXT {number}',
+  overlayPath: 'WEG',
+  panValue: 'PAN: {pan}',
+  motionApproaching: 'nähert sich',
+  motionReceding: 'entfernt sich',
+  motionCrossing: 'kreuzt',
+  notInView: 'NICHT IN SICHT',
+  inReach: 'IN REICHWEITE',
+  ahead: 'VORNE',
+  left: 'LINKS',
+  right: 'RECHTS',
+  readingLabel: 'Lesen',
+  original: 'ORIGINAL',
+  pointAtText: 'Richte die Kamera auf Text.',
+  answerLabel: 'Antwort',
+  confidenceLabel: 'KONF: {percent} %',
+  localDetection: 'Lokale Erkennung',
+  statusRegion: 'Status',
+
+  recButton: 'AUF',
+  logButton: 'LOG',
+  wakeButton: 'WACH',
+  settingsButton: 'EINST',
+  soundButton: 'TON',
+  recordSession: 'Sitzung aufnehmen',
+  sessionLog: 'Sitzungsprotokoll',
+  handsFreeCommands: 'Freihändige Sprachbefehle',
+  settings: 'Einstellungen',
+  soundAndFeedback: 'Ton und Rückmeldung',
+  languageLabel: 'Sprache: {language}',
+  startSonar: 'Sonar starten',
+  pauseSonar: 'Sonar pausieren',
+  stopReplay: 'Wiedergabe stoppen',
+  endConversation: 'Gespräch beenden',
+  stopReading: 'Lesen beenden',
+  stopSearch: 'Suche beenden',
+  askQuestion: 'Frage stellen',
+  askQuestionHold: 'Frage stellen, zum Sprechen gedrückt halten',
+  sendQuestion: 'Frage senden',
+  liveConversation: 'Live-Gespräch',
+  readText: 'Text lesen',
+  translateTo: 'Ins {language} übersetzen',
+
+  close: 'SCHLIESSEN',
+  closePanel: 'Schließen',
+  play: 'HÖREN',
+  settingsTitle: 'EINSTELLUNGEN',
+  profileHeading: 'PROFIL',
+  speechHeading: 'SPRACHE',
+  detectionHeading: 'ERKENNUNG',
+  language: 'Sprache',
+  rate: 'Tempo',
+  pitch: 'Tonhöhe',
+  voice: 'Stimme',
+  systemDefaultVoice: 'Systemstandard',
+  rateValue: '{rate}-fach',
+  questionButton: 'Frage-Taste',
+  talkModeHold: 'Zum Sprechen halten',
+  talkModeToggle: 'Drücken zum Starten, erneut drücken zum Senden',
+  scanEvery: 'Scan alle',
+  secondsValue: '{seconds} Sekunden',
+  confidence: 'Konfidenz',
+  percentValue: '{percent} Prozent',
+  importantObjects: 'Wichtige Objekte',
+  profileIndoorName: 'Drinnen',
+  profileIndoorDescription: 'Langsamere Scans, Möbel und Türen',
+  profileStreetName: 'Straße',
+  profileStreetDescription: 'Schnelle Scans, Verkehr zuerst, spürbar und hörbar',
+  profileTransitName: 'Unterwegs',
+  profileTransitDescription: 'Menschenmengen, Gepäck und Fahrzeuge; leise Signale',
+  voiceHeading: 'STIMME · {language}',
+  soundTitle: 'TON',
+  volumeHeading: 'LAUTSTÄRKE',
+  previewHeading: 'VORSCHAU',
+  master: 'Gesamt',
+  categoryAlerts: 'Warnungen',
+  categoryNavigation: 'Navigation',
+  categoryInterface: 'Bedienung',
+  categorySpatial: 'Räumlich',
+  themeClassicName: 'Klassisch',
+  themeClassicDescription: 'Sonar-Pings und scharfe Warnimpulse.',
+  themeSoftName: 'Sanft',
+  themeSoftDescription: 'Sanfte Sinustöne mit langsamem Einsatz.',
+  themeLowPitchName: 'Tief',
+  themeLowPitchDescription: 'Tiefe, brummende Töne, hörbar auch bei Hochtonschwerhörigkeit.',
+  earconScan: 'Scan gestartet',
+  earconSafe: 'Weg frei',
+  earconCaution: 'Vorsicht',
+  earconStop: 'Stopp',
+  earconListenStart: 'Hört zu',
+  earconListenStop: 'Zuhören beendet',
+  earconError: 'Fehler',
+  earconFound: 'Ziel in Reichweite',
+  feedbackHeading: 'RÜCKMELDUNG',
+  feel: 'FÜHLEN',
+  channelAudio: 'Ton',
+  channelHaptic: 'Vibration',
+  channelBoth: 'Beides',
+  noVibration: 'Dieses Gerät unterstützt keine Vibration.',
+
+  sessionsTitle: 'SITZUNGEN',
+  replayButton: 'ABSPIELEN',
+  exportButton: 'EXPORTIEREN',
+  deleteButton: 'LÖSCHEN',
+  importArchive: 'ARCHIV IMPORTIEREN',
+  noSessions: 'Keine aufgezeichneten Sitzungen.',
+  sessionInProgress: 'läuft',
+  sessionDuration: '{minutes} Min. {seconds} Sek.',
+  sessionEvents: '{count} Ereignisse',
+  sessionStorageUnavailable: 'Sitzungsspeicher nicht verfügbar',
+  sessionNotFound: 'Sitzung nicht gefunden',
+  sessionLoadFailed: 'Sitzung konnte nicht geladen werden',
+  sessionExportFailed: 'Sitzung konnte nicht exportiert werden',
+  sessionDeleteFailed: 'Sitzung konnte nicht gelöscht werden',
+  invalidArchive: 'Kein gültiges Sitzungsarchiv',
+  modelsTitle: 'MODELLE',
+  noModelRequests: 'Noch keine Anfragen.',
+  circuitClosed: 'geschlossen',
+  circuitHalfOpen: 'halboffen',
+  circuitOpen: 'offen',
+  modelStats: '{successes} ok · {failures} fehlgeschlagen',
+  modelAvgLatency: '{ms} ms im Schnitt',
+  modelRetryAt: 'neuer Versuch um {time}',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['hallo sonar', 'hey sonar', 'sonar'],
+  please: ['bitte'],
+  start: ['start', 'starte', 'starten', 'weiter', 'sonar an'],
+  pause: ['halt', 'anhalten', 'stopp', 'pause', 'sonar aus'],
+  whatsAhead: ['was ist vor mir', 'was liegt vor mir', 'was ist vorne'],
+  readText: ['lies', 'lesen', 'vorlesen', 'lies vor', 'lies den text'],
+  louder: ['lauter', 'lautstärke hoch'],
+  quieter: ['leiser', 'lautstärke runter'],
+  repeat: ['wiederholen', 'wiederhole', 'wiederhole das', 'nochmal', 'noch mal'],
+  clearHistory: ['löschen', 'vergiss es', 'vergiss das', 'von vorne'],
+  find: ['finde {target}', 'such nach {target}', 'suche nach {target}', 'such {target}', 'suche {target}'],
+  whereIs: ['wo ist {target}', 'wo sind {target}'],
+  articles: ['der', 'die', 'das', 'den', 'dem', 'ein', 'eine', 'einen', 'mein', 'meine', 'meinen'],
+  switchTo: ['wechsle zu {name}', 'wechsle auf {name}', 'sprich {name}'],
+  profileMode: ['{profile} modus', '{profile}modus', 'profil {profile}', '{profile} profil'],
+  profileIndoor: ['drinnen', 'innen', 'innenraum', 'zuhause'],
+  profileStreet: ['straße', 'strasse', 'straßen', 'draußen', 'außen'],
+  profileTransit: ['öffentliche verkehrsmittel', 'verkehrsmittel', 'nahverkehr', 'öpnv'],
+  languageEn: ['englisch'],
+  languageEs: ['spanisch'],
+  languageFr: ['französisch'],
+  languageDe: ['deutsch'],
+  languageJa: ['japanisch'],
+  languageVi: ['vietnamesisch'],
+  languageZh: ['chinesisch'],
+  languageAr: ['arabisch'],
+};
+
+export const de: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  nativeName: 'Deutsch',
+  locale: 'de-DE',
+  label: 'DEU',
+  flag: '🇩🇪',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
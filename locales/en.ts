@@ -0,0 +1,321 @@
+import { LanguagePack } from '../utils/i18n';
+
+// Source catalog: every key the app uses. Other packs are checked against it.
+// {name} placeholders are filled in by the translator.
+export const EN_MESSAGES = {
+  // Urgent phrases, pre-generated as neural speech
+  stop: 'Stop.',
+  caution: 'Caution.',
+  turnLeft: 'Turn left.',
+  turnRight: 'Turn right.',
+  goStraight: 'Go straight.',
+  pathClear: 'Path clear.',
+
+  // Spoken status and mode changes
+  sonarActive: 'Sonar active',
+  sonarAlreadyActive: 'Sonar already active',
+  systemPaused: 'System paused',
+  offlineMode: 'Offline mode. Using on-device detection.',
+  connectionRestored: 'Connection restored. AI guidance resumed.',
+  cameraBlocked: 'Camera view blocked.',
+  analysisFailed: 'AI error. Proceed with caution.',
+  profileApplied: '{profile} profile',
+  volumePercent: 'Volume {percent} percent',
+  voicePreview: 'This is the {language} voice.',
+
+  // Voice questions
+  processing: 'Processing...',
+  couldNotHear: "I couldn't hear you clearly.",
+  couldNotSee: "I couldn't see clearly.",
+  notSure: "I'm not sure.",
+  couldNotAnswer: "Sorry, I couldn't answer that.",
+  itReads: 'It reads: {text}.',
+  nothingToRepeat: 'Nothing to repeat yet.',
+  conversationCleared: 'Conversation cleared.',
+  voiceQuestionsNeedConnection: 'Voice questions need a connection.',
+  micDenied: 'Microphone access denied.',
+  whatsAheadQuestion: 'What is ahead of me? Describe obstacles and where the path goes.',
+
+  // Hands-free
+  handsFreeOn: "Hands-free on. Your browser's online speech service hears the microphone. Say Hey Sonar, then a command.",
+  handsFreeOff: 'Hands-free off',
+  handsFreeStopped: 'Hands-free listening stopped.',
+  handsFreeNeedsConnection: 'Hands-free listening needs an internet connection and has stopped.',
+  handsFreeUnsupported: 'Hands-free needs speech recognition, which this browser lacks.',
+
+  // Conversation
+  conversationEnded: 'Conversation ended',
+  conversationNeedsConnection: 'Conversation needs a connection.',
+  conversationUnavailable: 'Conversation unavailable.',
+
+  // Reading
+  readingStarted: 'Reading. Point at the text.',
+  readingStopped: 'Reading stopped',
+  readingNeedsConnection: 'Reading needs a connection.',
+  translatingTo: 'Translating to {language}',
+  originalText: 'Original text',
+  holdSteady: 'Hold steady.',
+  readHintLeft: 'Move left, text continues.',
+  readHintRight: 'Move right, text continues.',
+  readHintTop: 'Tilt up, text continues.',
+  readHintBottom: 'Tilt down, text continues.',
+  readHintCloser: 'Move closer to the text.',
+
+  // Object search
+  searchingFor: 'Searching for {target}. Turn slowly.',
+  searchStopped: 'Search stopped',
+  findingNeedsConnection: 'Finding {target} needs a connection.',
+  targetInReach: '{target} within reach, straight ahead.',
+  targetNotInView: 'No {target} in view. Turn slowly.',
+
+  // Recording and replay
+  recording: 'Recording',
+  recordingSaved: 'Recording saved',
+  replayStarted: 'Replay started',
+  replayFinished: 'Replay finished',
+  replayStopped: 'Replay stopped',
+
+  // On-device guidance: local hazards and offline navigation
+  hazardAhead: '{object} ahead',
+  hazardOnLeft: '{object} on the left',
+  hazardOnRight: '{object} on the right',
+  hazardApproachingAhead: '{object} approaching ahead',
+  hazardApproachingLeft: '{object} approaching from the left',
+  hazardApproachingRight: '{object} approaching from the right',
+  hazardMovingAway: '{object} moving away',
+  hazardCrossingLeft: '{object} crossing to the left',
+  hazardCrossingRight: '{object} crossing to the right',
+  localNoObstacles: 'No obstacles detected',
+  localObjectsNoneClose: '{count} objects, none close',
+  localPathClear: 'Path appears clear',
+  localStopWait: 'Stop. Wait.',
+  localMoveLeft: 'Move left',
+  localMoveRight: 'Move right',
+  objectPerson: 'person',
+  objectBicycle: 'bicycle',
+  objectMotorcycle: 'motorcycle',
+  objectDog: 'dog',
+  objectChair: 'chair',
+  objectBench: 'bench',
+  objectCouch: 'couch',
+  objectDiningTable: 'dining table',
+  objectPottedPlant: 'potted plant',
+  objectFireHydrant: 'fire hydrant',
+  objectSuitcase: 'suitcase',
+  objectCar: 'car',
+  objectBus: 'bus',
+  objectTruck: 'truck',
+  objectTrain: 'train',
+  objectTrafficLight: 'traffic light',
+  objectStopSign: 'stop sign',
+  objectBackpack: 'backpack',
+  objectUmbrella: 'umbrella',
+  objectHandbag: 'handbag',
+  objectBed: 'bed',
+  objectToilet: 'toilet',
+  objectTv: 'tv',
+  objectLaptop: 'laptop',
+  objectRefrigerator: 'refrigerator',
+  objectSink: 'sink',
+
+  // Status words (HUD and screen reader announcements)
+  statusSafe: 'Safe',
+  statusCaution: 'Caution',
+  statusStop: 'Stop',
+  directionLeft: 'left',
+  directionAhead: 'ahead',
+  directionRight: 'right',
+  statusAnnouncement: '{status}, {direction}',
+
+  // HUD
+  standby: 'System standby. Press start.',
+  processingIndicator: 'Processing',
+  offlineBadge: 'OFFLINE',
+  connecting: 'Connecting',
+  answering: 'Answering',
+  listening: 'Listening',
+  askAboutSurroundings: 'Ask about your surroundings.',
+  searchingLabel: 'Searching: {target}',
+  overlayHazard: 'HAZARD: {label}',
+  overlayTarget: 'TARGET: {label}',
+  overlayText: 'TEXT {number}',
+  overlayPath: 'PATH',
+  panValue: 'PAN: {pan}',
+  motionApproaching: 'approaching',
+  motionReceding: 'receding',
+  motionCrossing: 'crossing',
+  notInView: 'NOT IN VIEW',
+  inReach: 'IN REACH',
+  ahead: 'AHEAD',
+  left: 'LEFT',
+  right: 'RIGHT',
+  readingLabel: 'Reading',
+  original: 'ORIGINAL',
+  pointAtText: 'Point the camera at text.',
+  answerLabel: 'Answer',
+  confidenceLabel: 'CONF: {percent}%',
+  localDetection: 'Local detection',
+  statusRegion: 'Status',
+
+  // Controls (visible labels are short; accessible names are spelled out)
+  recButton: 'REC',
+  logButton: 'LOG',
+  wakeButton: 'WAKE',
+  settingsButton: 'SET',
+  soundButton: 'SND',
+  recordSession: 'Record session',
+  sessionLog: 'Session log',
+  handsFreeCommands: 'Hands-free voice commands',
+  settings: 'Settings',
+  soundAndFeedback: 'Sound and feedback',
+  languageLabel: 'Language: {language}',
+  startSonar: 'Start sonar',
+  pauseSonar: 'Pause sonar',
+  stopReplay: 'Stop replay',
+  endConversation: 'End conversation',
+  stopReading: 'Stop reading',
+  stopSearch: 'Stop search',
+  askQuestion: 'Ask a question',
+  askQuestionHold: 'Ask a question, hold to talk',
+  sendQuestion: 'Send question',
+  liveConversation: 'Live conversation',
+  readText: 'Read text',
+  translateTo: 'Translate to {language}',
+
+  // Panels
+  close: 'CLOSE',
+  closePanel: 'Close',
+  play: 'PLAY',
+  settingsTitle: 'SETTINGS',
+  profileHeading: 'PROFILE',
+  speechHeading: 'SPEECH',
+  detectionHeading: 'DETECTION',
+  language: 'Language',
+  rate: 'Rate',
+  pitch: 'Pitch',
+  voice: 'Voice',
+  systemDefaultVoice: 'System default',
+  rateValue: '{rate} times',
+  questionButton: 'Question button',
+  talkModeHold: 'Hold to talk',
+  talkModeToggle: 'Press to start, press again to send',
+  scanEvery: 'Scan every',
+  secondsValue: '{seconds} seconds',
+  confidence: 'Confidence',
+  percentValue: '{percent} percent',
+  importantObjects: 'Important objects',
+  profileIndoorName: 'Indoor',
+  profileIndoorDescription: 'Slower scans, furniture and doorways',
+  profileStreetName: 'Street',
+  profileStreetDescription: 'Fast scans, traffic first, felt as well as heard',
+  profileTransitName: 'Transit',
+  profileTransitDescription: 'Crowds, luggage and vehicles; quiet cues',
+  voiceHeading: 'VOICE · {language}',
+  soundTitle: 'SOUND',
+  volumeHeading: 'VOLUME',
+  previewHeading: 'PREVIEW',
+  master: 'Master',
+  categoryAlerts: 'Alerts',
+  categoryNavigation: 'Navigation',
+  categoryInterface: 'Interface',
+  categorySpatial: 'Spatial',
+  themeClassicName: 'Classic',
+  themeClassicDescription: 'Sonar pings and sharp warning pulses.',
+  themeSoftName: 'Soft',
+  themeSoftDescription: 'Gentle sine tones with slow attacks.',
+  themeLowPitchName: 'Low Pitch',
+  themeLowPitchDescription: 'Low, buzzy tones that stay audible with high-frequency hearing loss.',
+  earconScan: 'Scan started',
+  earconSafe: 'Path clear',
+  earconCaution: 'Caution',
+  earconStop: 'Stop',
+  earconListenStart: 'Listening',
+  earconListenStop: 'Done listening',
+  earconError: 'Error',
+  earconFound: 'Target in reach',
+  feedbackHeading: 'FEEDBACK',
+  feel: 'FEEL',
+  channelAudio: 'Audio',
+  channelHaptic: 'Haptic',
+  channelBoth: 'Both',
+  noVibration: 'This device has no vibration support.',
+
+  // Sessions and model health
+  sessionsTitle: 'SESSIONS',
+  replayButton: 'REPLAY',
+  exportButton: 'EXPORT',
+  deleteButton: 'DELETE',
+  importArchive: 'IMPORT ARCHIVE',
+  noSessions: 'No recorded sessions.',
+  sessionInProgress: 'in progress',
+  sessionDuration: '{minutes}m {seconds}s',
+  sessionEvents: '{count} events',
+  sessionStorageUnavailable: 'Session storage unavailable',
+  sessionNotFound: 'Session not found',
+  sessionLoadFailed: 'Could not load session',
+  sessionExportFailed: 'Could not export session',
+  sessionDeleteFailed: 'Could not delete session',
+  invalidArchive: 'Not a valid session archive',
+  modelsTitle: 'MODELS',
+  noModelRequests: 'No requests yet.',
+  circuitClosed: 'closed',
+  circuitHalfOpen: 'half-open',
+  circuitOpen: 'open',
+  modelStats: '{successes} ok · {failures} failed',
+  modelAvgLatency: '{ms}ms avg',
+  modelRetryAt: 'retry at {time}',
+};
+
+export type Messages = Record<keyof typeof EN_MESSAGES, string>;
+
+// Source grammar for spoken commands, checked against like the catalog. Phrases match the
+// whole utterance, ignoring case and punctuation; a {placeholder} captures the rest of it.
+export const EN_GRAMMAR = {
+  wakePhrases: ['hey sonar', 'ok sonar', 'okay sonar', 'sonar'],
+  // Dropped from either end of a command
+  please: ['please'],
+  start: ['start', 'resume', 'start sonar', 'start scanning', 'start navigation', 'sonar on'],
+  pause: ['pause', 'stop', 'pause sonar', 'pause scanning', 'stop sonar', 'stop scanning', 'sonar off'],
+  whatsAhead: [
+    "what's ahead", 'whats ahead', 'what is ahead',
+    "what's in front", "what's in front of me", 'whats in front', 'whats in front of me', 'what is in front', 'what is in front of me',
+  ],
+  readText: ['read', 'read text', 'read the text', 'read this', 'read it'],
+  louder: ['louder', 'volume up', 'turn it up'],
+  quieter: ['quieter', 'softer', 'volume down', 'turn it down'],
+  repeat: ['repeat', 'repeat that', 'say that again', 'say it again', 'again'],
+  clearHistory: ['clear', 'clear history', 'clear conversation', 'start over', 'forget it', 'forget that'],
+  find: ['find {target}', 'look for {target}', 'search for {target}', 'locate {target}'],
+  // Only a search when the target is an object the detector can track
+  whereIs: ['where is {target}', "where's {target}", 'where are {target}'],
+  // Dropped from the start of a search target
+  articles: ['the', 'a', 'an', 'my', 'some'],
+  switchTo: ['switch to {name}', 'change to {name}', 'speak {name}', 'use {name}'],
+  profileMode: ['{profile} mode', '{profile} profile'],
+  profileIndoor: ['indoor', 'indoors', 'inside', 'home'],
+  profileStreet: ['street', 'outdoor', 'outdoors', 'outside'],
+  profileTransit: ['transit', 'transport', 'public transport'],
+  // Language names as spoken in this language (each pack's own name and nativeName always work)
+  languageEn: ['english'],
+  languageEs: ['spanish'],
+  languageFr: ['french'],
+  languageDe: ['german'],
+  languageJa: ['japanese'],
+  languageVi: ['vietnamese'],
+  languageZh: ['chinese', 'mandarin'],
+  languageAr: ['arabic'],
+};
+
+export type Grammar = Record<keyof typeof EN_GRAMMAR, string[]>;
+
+export const en: LanguagePack = {
+  code: 'en',
+  name: 'English',
+  nativeName: 'English',
+  locale: 'en-US',
+  label: 'ENG',
+  flag: '🇺🇸',
+  direction: 'ltr',
+  messages: EN_MESSAGES,
+  grammar: EN_GRAMMAR,
+};
@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: 'Alto.',
+  caution: 'Cuidado.',
+  turnLeft: 'Gira a la izquierda.',
+  turnRight: 'Gira a la derecha.',
+  goStraight: 'Sigue recto.',
+  pathClear: 'Camino despejado.',
+
+  sonarActive: 'Sonar activo',
+  sonarAlreadyActive: 'El sonar ya está activo',
+  systemPaused: 'Sistema en pausa',
+  offlineMode: 'Modo sin conexión. Usando detección en el dispositivo.',
+  connectionRestored: 'Conexión restablecida. Guía con IA reanudada.',
+  cameraBlocked: 'Vista de la cámara bloqueada.',
+  analysisFailed: 'Error de la IA. Avanza con cuidado.',
+  profileApplied: 'Perfil {profile}',
+  volumePercent: 'Volumen al {percent} por ciento',
+  voicePreview: 'Esta es la voz en {language}.',
+
+  processing: 'Procesando...',
+  couldNotHear: 'No te he oído bien.',
+  couldNotSee: 'No he podido ver bien.',
+  notSure: 'No estoy seguro.',
+  couldNotAnswer: 'Lo siento, no pude responder a eso.',
+  itReads: 'Dice: {text}.',
+  nothingToRepeat: 'Todavía no hay nada que repetir.',
+  conversationCleared: 'Conversación borrada.',
+  voiceQuestionsNeedConnection: 'Las preguntas por voz necesitan conexión.',
+  micDenied: 'Acceso al micrófono denegado.',
+  whatsAheadQuestion: '¿Qué hay delante de mí? Describe los obstáculos y hacia dónde va el camino.',
+
+  handsFreeOn: 'Manos libres activado. El servicio de voz en línea del navegador escucha el micrófono. Di Oye Sonar y luego una orden.',
+  handsFreeOff: 'Manos libres desactivado',
+  handsFreeStopped: 'La escucha manos libres se ha detenido.',
+  handsFreeNeedsConnection: 'La escucha manos libres necesita conexión a internet y se ha detenido.',
+  handsFreeUnsupported: 'Manos libres necesita reconocimiento de voz, y este navegador no lo tiene.',
+
+  conversationEnded: 'Conversación terminada',
+  conversationNeedsConnection: 'La conversación necesita conexión.',
+  conversationUnavailable: 'Conversación no disponible.',
+
+  readingStarted: 'Lectura. Apunta al texto.',
+  readingStopped: 'Lectura detenida',
+  readingNeedsConnection: 'La lectura necesita conexión.',
+  translatingTo: 'Traduciendo al {language}',
+  originalText: 'Texto original',
+  holdSteady: 'Mantén la cámara quieta.',
+  readHintLeft: 'Muévete a la izquierda, el texto continúa.',
+  readHintRight: 'Muévete a la derecha, el texto continúa.',
+  readHintTop: 'Inclina hacia arriba, el texto continúa.',
+  readHintBottom: 'Inclina hacia abajo, el texto continúa.',
+  readHintCloser: 'Acércate al texto.',
+
+  searchingFor: 'Buscando {target}. Gira despacio.',
+  searchStopped: 'Búsqueda detenida',
+  findingNeedsConnection: 'Buscar {target} necesita conexión.',
+  targetInReach: '{target} al alcance, justo delante.',
+  targetNotInView: 'No se ve {target}. Gira despacio.',
+
+  recording: 'Grabando',
+  recordingSaved: 'Grabación guardada',
+  replayStarted: 'Reproducción iniciada',
+  replayFinished: 'Reproducción terminada',
+  replayStopped: 'Reproducción detenida',
+
+  hazardAhead: '{object} delante',
+  hazardOnLeft: '{object} a la izquierda',
+  hazardOnRight: '{object} a la derecha',
+  hazardApproachingAhead: '{object} acercándose de frente',
+  hazardApproachingLeft: '{object} acercándose por la izquierda',
+  hazardApproachingRight: '{object} acercándose por la derecha',
+  hazardMovingAway: '{object} alejándose',
+  hazardCrossingLeft: '{object} cruzando hacia la izquierda',
+  hazardCrossingRight: '{object} cruzando hacia la derecha',
+  localNoObstacles: 'No se detectan obstáculos',
+  localObjectsNoneClose: '{count} objetos, ninguno cerca',
+  localPathClear: 'El camino parece despejado',
+  localStopWait: 'Alto. Espera.',
+  localMoveLeft: 'Muévete a la izquierda',
+  localMoveRight: 'Muévete a la derecha',
+  objectPerson: 'persona',
+  objectBicycle: 'bicicleta',
+  objectMotorcycle: 'moto',
+  objectDog: 'perro',
+  objectChair: 'silla',
+  objectBench: 'banco',
+  objectCouch: 'sofá',
+  objectDiningTable: 'mesa',
+  objectPottedPlant: 'planta',
+  objectFireHydrant: 'boca de incendios',
+  objectSuitcase: 'maleta',
+  objectCar: 'coche',
+  objectBus: 'autobús',
+  objectTruck: 'camión',
+  objectTrain: 'tren',
+  objectTrafficLight: 'semáforo',
+  objectStopSign: 'señal de stop',
+  objectBackpack: 'mochila',
+  objectUmbrella: 'paraguas',
+  objectHandbag: 'bolso',
+  objectBed: 'cama',
+  objectToilet: 'inodoro',
+  objectTv: 'televisor',
+  objectLaptop: 'portátil',
+  objectRefrigerator: 'nevera',
+  objectSink: 'fregadero',
+
+  statusSafe: 'Seguro',
+  statusCaution: 'Cuidado',
+  statusStop: 'Alto',
+  directionLeft: 'a la izquierda',
+  directionAhead: 'delante',
+  directionRight: 'a la derecha',
+  statusAnnouncement: '{status}, {direction}',
+
+  standby: 'Sistema en espera. Pulsa iniciar.',
+  processingIndicator: 'Procesando',
+  offlineBadge: 'SIN CONEXIÓN',
+  connecting: 'Conectando',
+  answering: 'Respondiendo',
+  listening: 'Escuchando',
+  askAboutSurroundings: 'Pregunta por tu entorno.',
+  searchingLabel: 'Buscando: {target}',
+  overlayHazard: 'PELIGRO: {label}',
+  overlayTarget: 'OBJETIVO: {label}',
+  overlayText: 'TEXTO {number}',
+  overlayPath: 'CAMINO',
+  panValue: 'BALANCE: {pan}',
+  motionApproaching: 'acercándose',
+  motionReceding: 'alejándose',
+  motionCrossing: 'cruzando',
+  notInView: 'NO VISIBLE',
+  inReach: 'AL ALCANCE',
+  ahead: 'DELANTE',
+  left: 'IZQUIERDA',
+  right: 'DERECHA',
+  readingLabel: 'Lectura',
+  original: 'ORIGINAL',
+  pointAtText: 'Apunta la cámara al texto.',
+  answerLabel: 'Respuesta',
+  confidenceLabel: 'CONF: {percent}%',
+  localDetection: 'Detección local',
+  statusRegion: 'Estado',
+
+  recButton: 'GRAB',
+  logButton: 'REG',
+  wakeButton: 'VOZ',
+  settingsButton: 'AJU',
+  soundButton: 'SON',
+  recordSession: 'Grabar sesión',
+  sessionLog: 'Registro de sesiones',
+  handsFreeCommands: 'Órdenes de voz manos libres',
+  settings: 'Ajustes',
+  soundAndFeedback: 'Sonido y respuesta',
+  languageLabel: 'Idioma: {language}',
+  startSonar: 'Iniciar sonar',
+  pauseSonar: 'Pausar sonar',
+  stopReplay: 'Detener reproducción',
+  endConversation: 'Terminar conversación',
+  stopReading: 'Detener lectura',
+  stopSearch: 'Detener búsqueda',
+  askQuestion: 'Hacer una pregunta',
+  askQuestionHold: 'Hacer una pregunta, mantén pulsado para hablar',
+  sendQuestion: 'Enviar pregunta',
+  liveConversation: 'Conversación en directo',
+  readText: 'Leer texto',
+  translateTo: 'Traducir al {language}',
+
+  close: 'CERRAR',
+  closePanel: 'Cerrar',
+  play: 'OÍR',
+  settingsTitle: 'AJUSTES',
+  profileHeading: 'PERFIL',
+  speechHeading: 'VOZ',
+  detectionHeading: 'DETECCIÓN',
+  language: 'Idioma',
+  rate: 'Velocidad',
+  pitch: 'Tono',
+  voice: 'Voz',
+  systemDefaultVoice: 'Predeterminada del sistema',
+  rateValue: '{rate} veces',
+  questionButton: 'Botón de pregunta',
+  talkModeHold: 'Mantener para hablar',
+  talkModeToggle: 'Pulsar para empezar, pulsar otra vez para enviar',
+  scanEvery: 'Escanear cada',
+  secondsValue: '{seconds} segundos',
+  confidence: 'Confianza',
+  percentValue: '{percent} por ciento',
+  importantObjects: 'Objetos importantes',
+  profileIndoorName: 'Interior',
+  profileIndoorDescription: 'Escaneos más lentos, muebles y puertas',
+  profileStreetName: 'Calle',
+  profileStreetDescription: 'Escaneos rápidos, tráfico primero, se siente y se oye',
+  profileTransitName: 'Transporte',
+  profileTransitDescription: 'Multitudes, equipaje y vehículos; avisos discretos',
+  voiceHeading: 'VOZ · {language}',
+  soundTitle: 'SONIDO',
+  volumeHeading: 'VOLUMEN',
+  previewHeading: 'PRUEBA',
+  master: 'General',
+  categoryAlerts: 'Alertas',
+  categoryNavigation: 'Navegación',
+  categoryInterface: 'Interfaz',
+  categorySpatial: 'Espacial',
+  themeClassicName: 'Clásico',
+  themeClassicDescription: 'Pings de sonar y pulsos de aviso nítidos.',
+  themeSoftName: 'Suave',
+  themeSoftDescription: 'Tonos sinusoidales suaves con ataques lentos.',
+  themeLowPitchName: 'Tono grave',
+  themeLowPitchDescription: 'Tonos graves y zumbantes que se oyen bien con pérdida auditiva en agudos.',
+  earconScan: 'Escaneo iniciado',
+  earconSafe: 'Camino despejado',
+  earconCaution: 'Cuidado',
+  earconStop: 'Alto',
+  earconListenStart: 'Escuchando',
+  earconListenStop: 'Fin de la escucha',
+  earconError: 'Error',
+  earconFound: 'Objetivo al alcance',
+  feedbackHeading: 'RESPUESTA',
+  feel: 'SENTIR',
+  channelAudio: 'Audio',
+  channelHaptic: 'Vibración',
+  channelBoth: 'Ambos',
+  noVibration: 'Este dispositivo no admite vibración.',
+
+  sessionsTitle: 'SESIONES',
+  replayButton: 'REPRODUCIR',
+  exportButton: 'EXPORTAR',
+  deleteButton: 'BORRAR',
+  importArchive: 'IMPORTAR ARCHIVO',
+  noSessions: 'No hay sesiones grabadas.',
+  sessionInProgress: 'en curso',
+  sessionDuration: '{minutes} min {seconds} s',
+  sessionEvents: '{count} eventos',
+  sessionStorageUnavailable: 'Almacenamiento de sesiones no disponible',
+  sessionNotFound: 'Sesión no encontrada',
+  sessionLoadFailed: 'No se pudo cargar la sesión',
+  sessionExportFailed: 'No se pudo exportar la sesión',
+  sessionDeleteFailed: 'No se pudo borrar la sesión',
+  invalidArchive: 'No es un archivo de sesión válido',
+  modelsTitle: 'MODELOS',
+  noModelRequests: 'Aún no hay solicitudes.',
+  circuitClosed: 'cerrado',
+  circuitHalfOpen: 'semiabierto',
+  circuitOpen: 'abierto',
+  modelStats: '{successes} correctas · {failures} fallidas',
+  modelAvgLatency: '{ms} ms de media',
+  modelRetryAt: 'reintento a las {time}',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['oye sonar', 'hola sonar', 'sonar'],
+  please: ['por favor'],
+  start: ['empieza', 'inicia', 'activa', 'continúa', 'empieza sonar', 'activa el sonar'],
+  pause: ['para', 'pausa', 'detente', 'para el sonar', 'pausa el sonar'],
+  whatsAhead: ['qué hay delante', 'qué hay adelante', 'qué hay delante de mí', 'qué tengo delante'],
+  readText: ['lee', 'leer', 'lee esto', 'lee el texto', 'leer el texto'],
+  louder: ['más alto', 'más fuerte', 'sube el volumen'],
+  quieter: ['más bajo', 'más suave', 'baja el volumen'],
+  repeat: ['repite', 'repítelo', 'repite eso', 'otra vez'],
+  clearHistory: ['borrar', 'borra', 'olvídalo', 'empieza de nuevo', 'borra la conversación'],
+  find: ['busca {target}', 'buscar {target}', 'encuentra {target}', 'localiza {target}'],
+  whereIs: ['dónde está {target}', 'dónde están {target}'],
+  articles: ['el', 'la', 'los', 'las', 'un', 'una', 'mi', 'mis'],
+  switchTo: ['cambia a {name}', 'cambiar a {name}', 'habla en {name}', 'habla {name}', 'pasa a {name}'],
+  profileMode: ['modo {profile}', 'perfil {profile}'],
+  profileIndoor: ['interior', 'dentro', 'casa'],
+  profileStreet: ['calle', 'exterior', 'fuera'],
+  profileTransit: ['transporte público', 'transporte', 'tránsito'],
+  languageEn: ['inglés', 'ingles'],
+  languageEs: ['español', 'espanol'],
+  languageFr: ['francés', 'frances'],
+  languageDe: ['alemán', 'aleman'],
+  languageJa: ['japonés', 'japones'],
+  languageVi: ['vietnamita'],
+  languageZh: ['chino', 'mandarín'],
+  languageAr: ['árabe', 'arabe'],
+};
+
+export const es: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  nativeName: 'Español',
+  locale: 'es-ES',
+  label: 'ESP',
+  flag: '🇪🇸',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: 'Stop.',
+  caution: 'Attention.',
+  turnLeft: 'Tournez à gauche.',
+  turnRight: 'Tournez à droite.',
+  goStraight: 'Continuez tout droit.',
+  pathClear: 'Chemin dégagé.',
+
+  sonarActive: 'Sonar actif',
+  sonarAlreadyActive: 'Le sonar est déjà actif',
+  systemPaused: 'Système en pause',
+  offlineMode: "Mode hors ligne. Détection sur l'appareil.",
+  connectionRestored: 'Connexion rétablie. Guidage IA repris.',
+  cameraBlocked: 'Vue de la caméra bloquée.',
+  analysisFailed: "Erreur de l'IA. Avancez avec prudence.",
+  profileApplied: 'Profil {profile}',
+  volumePercent: 'Volume à {percent} pour cent',
+  voicePreview: 'Voici la voix en {language}.',
+
+  processing: 'Traitement...',
+  couldNotHear: "Je ne vous ai pas bien entendu.",
+  couldNotSee: "Je n'ai pas bien vu.",
+  notSure: "Je n'en suis pas sûr.",
+  couldNotAnswer: "Désolé, je n'ai pas pu répondre.",
+  itReads: 'On peut lire : {text}.',
+  nothingToRepeat: 'Rien à répéter pour le moment.',
+  conversationCleared: 'Conversation effacée.',
+  voiceQuestionsNeedConnection: 'Les questions vocales nécessitent une connexion.',
+  micDenied: 'Accès au microphone refusé.',
+  whatsAheadQuestion: "Qu'y a-t-il devant moi ? Décris les obstacles et la direction du chemin.",
+
+  handsFreeOn: 'Mains libres activé. Le service vocal en ligne du navigateur écoute le micro. Dites Dis Sonar, puis une commande.',
+  handsFreeOff: 'Mains libres désactivé',
+  handsFreeStopped: "L'écoute mains libres s'est arrêtée.",
+  handsFreeNeedsConnection: "L'écoute mains libres nécessite une connexion internet et s'est arrêtée.",
+  handsFreeUnsupported: 'Le mode mains libres nécessite la reconnaissance vocale, absente de ce navigateur.',
+
+  conversationEnded: 'Conversation terminée',
+  conversationNeedsConnection: 'La conversation nécessite une connexion.',
+  conversationUnavailable: 'Conversation indisponible.',
+
+  readingStarted: 'Lecture. Visez le texte.',
+  readingStopped: 'Lecture arrêtée',
+  readingNeedsConnection: 'La lecture nécessite une connexion.',
+  translatingTo: 'Traduction en {language}',
+  originalText: 'Texte original',
+  holdSteady: 'Restez immobile.',
+  readHintLeft: 'Déplacez-vous à gauche, le texte continue.',
+  readHintRight: 'Déplacez-vous à droite, le texte continue.',
+  readHintTop: 'Inclinez vers le haut, le texte continue.',
+  readHintBottom: 'Inclinez vers le bas, le texte continue.',
+  readHintCloser: 'Rapprochez-vous du texte.',
+
+  searchingFor: 'Recherche de {target}. Tournez lentement.',
+  searchStopped: 'Recherche arrêtée',
+  findingNeedsConnection: 'Trouver {target} nécessite une connexion.',
+  targetInReach: '{target} à portée, droit devant.',
+  targetNotInView: 'Aucun {target} en vue. Tournez lentement.',
+
+  recording: 'Enregistrement',
+  recordingSaved: 'Enregistrement sauvegardé',
+  replayStarted: 'Relecture lancée',
+  replayFinished: 'Relecture terminée',
+  replayStopped: 'Relecture arrêtée',
+
+  hazardAhead: '{object} devant',
+  hazardOnLeft: '{object} à gauche',
+  hazardOnRight: '{object} à droite',
+  hazardApproachingAhead: '{object} qui approche devant',
+  hazardApproachingLeft: '{object} qui approche par la gauche',
+  hazardApproachingRight: '{object} qui approche par la droite',
+  hazardMovingAway: "{object} qui s'éloigne",
+  hazardCrossingLeft: '{object} qui traverse vers la gauche',
+  hazardCrossingRight: '{object} qui traverse vers la droite',
+  localNoObstacles: 'Aucun obstacle détecté',
+  localObjectsNoneClose: '{count} objets, aucun proche',
+  localPathClear: 'Le chemin semble libre',
+  localStopWait: 'Stop. Attendez.',
+  localMoveLeft: 'Allez à gauche',
+  localMoveRight: 'Allez à droite',
+  objectPerson: 'personne',
+  objectBicycle: 'vélo',
+  objectMotorcycle: 'moto',
+  objectDog: 'chien',
+  objectChair: 'chaise',
+  objectBench: 'banc',
+  objectCouch: 'canapé',
+  objectDiningTable: 'table',
+  objectPottedPlant: 'plante',
+  objectFireHydrant: "bouche d'incendie",
+  objectSuitcase: 'valise',
+  objectCar: 'voiture',
+  objectBus: 'bus',
+  objectTruck: 'camion',
+  objectTrain: 'train',
+  objectTrafficLight: 'feu de circulation',
+  objectStopSign: 'panneau stop',
+  objectBackpack: 'sac à dos',
+  objectUmbrella: 'parapluie',
+  objectHandbag: 'sac à main',
+  objectBed: 'lit',
+  objectToilet: 'toilettes',
+  objectTv: 'télévision',
+  objectLaptop: 'ordinateur portable',
+  objectRefrigerator: 'réfrigérateur',
+  objectSink: 'évier',
+
+  statusSafe: 'Sûr',
+  statusCaution: 'Attention',
+  statusStop: 'Stop',
+  directionLeft: 'à gauche',
+  directionAhead: 'devant',
+  directionRight: 'à droite',
+  statusAnnouncement: '{status}, {direction}',
+
+  standby: 'Système en veille. Appuyez sur démarrer.',
+  processingIndicator: 'Traitement',
+  offlineBadge: 'HORS LIGNE',
+  connecting: 'Connexion',
+  answering: 'Réponse',
+  listening: 'Écoute',
+  askAboutSurroundings: 'Posez une question sur votre environnement.',
+  searchingLabel: 'Recherche : {target}',
+  overlayHazard: 'DANGER : {label}',
+  overlayTarget: 'CIBLE : {label}',
+  overlayText: 'TEXTE {number}',
+  overlayPath: 'CHEMIN',
+  panValue: 'BALANCE : {pan}',
+  motionApproaching: "s'approche",
+  motionReceding: "s'éloigne",
+  motionCrossing: 'traverse',
+  notInView: 'HORS CHAMP',
+  inReach: 'À PORTÉE',
+  ahead: 'DEVANT',
+  left: 'GAUCHE',
+  right: 'DROITE',
+  readingLabel: 'Lecture',
+  original: 'ORIGINAL',
+  pointAtText: 'Pointez la caméra vers le texte.',
+  answerLabel: 'Réponse',
+  confidenceLabel: 'CONF : {percent} %',
+  localDetection: 'Détection locale',
+  statusRegion: 'État',
+
+  recButton: 'ENR',
+  logButton: 'JRN',
+  wakeButton: 'VOIX',
+  settingsButton: 'RÉG',
+  soundButton: 'SON',
+  recordSession: 'Enregistrer la session',
+  sessionLog: 'Journal des sessions',
+  handsFreeCommands: 'Commandes vocales mains libres',
+  settings: 'Réglages',
+  soundAndFeedback: 'Son et retours',
+  languageLabel: 'Langue : {language}',
+  startSonar: 'Démarrer le sonar',
+  pauseSonar: 'Mettre le sonar en pause',
+  stopReplay: 'Arrêter la relecture',
+  endConversation: 'Terminer la conversation',
+  stopReading: 'Arrêter la lecture',
+  stopSearch: 'Arrêter la recherche',
+  askQuestion: 'Poser une question',
+  askQuestionHold: 'Poser une question, maintenir pour parler',
+  sendQuestion: 'Envoyer la question',
+  liveConversation: 'Conversation en direct',
+  readText: 'Lire le texte',
+  translateTo: 'Traduire en {language}',
+
+  close: 'FERMER',
+  closePanel: 'Fermer',
+  play: 'ÉCOUTER',
+  settingsTitle: 'RÉGLAGES',
+  profileHeading: 'PROFIL',
+  speechHeading: 'PAROLE',
+  detectionHeading: 'DÉTECTION',
+  language: 'Langue',
+  rate: 'Débit',
+  pitch: 'Hauteur',
+  voice: 'Voix',
+  systemDefaultVoice: 'Voix du système',
+  rateValue: '{rate} fois',
+  questionButton: 'Bouton de question',
+  talkModeHold: 'Maintenir pour parler',
+  talkModeToggle: 'Appuyer pour commencer, appuyer à nouveau pour envoyer',
+  scanEvery: 'Analyser toutes les',
+  secondsValue: '{seconds} secondes',
+  confidence: 'Confiance',
+  percentValue: '{percent} pour cent',
+  importantObjects: 'Objets importants',
+  profileIndoorName: 'Intérieur',
+  profileIndoorDescription: 'Analyses plus lentes, meubles et portes',
+  profileStreetName: 'Rue',
+  profileStreetDescription: "Analyses rapides, priorité à la circulation, ressenti et entendu",
+  profileTransitName: 'Transports',
+  profileTransitDescription: 'Foule, bagages et véhicules ; signaux discrets',
+  voiceHeading: 'VOIX · {language}',
+  soundTitle: 'SON',
+  volumeHeading: 'VOLUME',
+  previewHeading: 'APERÇU',
+  master: 'Général',
+  categoryAlerts: 'Alertes',
+  categoryNavigation: 'Navigation',
+  categoryInterface: 'Interface',
+  categorySpatial: 'Spatial',
+  themeClassicName: 'Classique',
+  themeClassicDescription: "Pings de sonar et impulsions d'alerte nettes.",
+  themeSoftName: 'Doux',
+  themeSoftDescription: 'Sons sinusoïdaux doux aux attaques lentes.',
+  themeLowPitchName: 'Grave',
+  themeLowPitchDescription: "Sons graves et bourdonnants, audibles malgré une perte d'audition dans les aigus.",
+  earconScan: 'Analyse lancée',
+  earconSafe: 'Chemin dégagé',
+  earconCaution: 'Attention',
+  earconStop: 'Stop',
+  earconListenStart: 'Écoute',
+  earconListenStop: "Fin de l'écoute",
+  earconError: 'Erreur',
+  earconFound: 'Cible à portée',
+  feedbackHeading: 'RETOURS',
+  feel: 'SENTIR',
+  channelAudio: 'Audio',
+  channelHaptic: 'Vibration',
+  channelBoth: 'Les deux',
+  noVibration: "Cet appareil ne prend pas en charge la vibration.",
+
+  sessionsTitle: 'SESSIONS',
+  replayButton: 'REJOUER',
+  exportButton: 'EXPORTER',
+  deleteButton: 'SUPPRIMER',
+  importArchive: 'IMPORTER UNE ARCHIVE',
+  noSessions: 'Aucune session enregistrée.',
+  sessionInProgress: 'en cours',
+  sessionDuration: '{minutes} min {seconds} s',
+  sessionEvents: '{count} événements',
+  sessionStorageUnavailable: 'Stockage des sessions indisponible',
+  sessionNotFound: 'Session introuvable',
+  sessionLoadFailed: 'Impossible de charger la session',
+  sessionExportFailed: "Impossible d'exporter la session",
+  sessionDeleteFailed: 'Impossible de supprimer la session',
+  invalidArchive: "Ce n'est pas une archive de session valide",
+  modelsTitle: 'MODÈLES',
+  noModelRequests: 'Aucune requête pour le moment.',
+  circuitClosed: 'fermé',
+  circuitHalfOpen: 'semi-ouvert',
+  circuitOpen: 'ouvert',
+  modelStats: '{successes} réussies · {failures} échouées',
+  modelAvgLatency: '{ms} ms en moyenne',
+  modelRetryAt: 'nouvel essai à {time}',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['dis sonar', 'ok sonar', 'sonar'],
+  please: ["s'il te plaît", "s'il vous plaît"],
+  start: ['démarre', 'démarrer', 'commence', 'reprends', 'démarre le sonar'],
+  pause: ['arrête', 'arrêter', 'pause', 'mets en pause', 'arrête le sonar'],
+  whatsAhead: ["qu'y a-t-il devant", "qu'y a-t-il devant moi", "qu'est-ce qu'il y a devant", "qu'est-ce qu'il y a devant moi"],
+  readText: ['lis', 'lire', 'lis ça', 'lis le texte', 'lire le texte'],
+  louder: ['plus fort', 'monte le son', 'augmente le volume'],
+  quieter: ['moins fort', 'baisse le son', 'baisse le volume'],
+  repeat: ['répète', 'répétez', 'répète ça', 'encore'],
+  clearHistory: ['efface', 'effacer', 'oublie', 'oublie ça', 'recommence'],
+  find: ['trouve {target}', 'cherche {target}', 'localise {target}'],
+  whereIs: ['où est {target}', 'où sont {target}'],
+  articles: ['le', 'la', 'les', 'un', 'une', 'mon', 'ma', 'mes'],
+  switchTo: ['passe en {name}', 'passe à {name}', 'parle en {name}', 'parle {name}'],
+  profileMode: ['mode {profile}', 'profil {profile}'],
+  profileIndoor: ['intérieur', 'interieur', 'maison'],
+  profileStreet: ['rue', 'extérieur', 'exterieur', 'dehors'],
+  profileTransit: ['transports en commun', 'transports', 'transport'],
+  languageEn: ['anglais'],
+  languageEs: ['espagnol'],
+  languageFr: ['français', 'francais'],
+  languageDe: ['allemand'],
+  languageJa: ['japonais'],
+  languageVi: ['vietnamien'],
+  languageZh: ['chinois', 'mandarin'],
+  languageAr: ['arabe'],
+};
+
+export const fr: LanguagePack = {
+  code: 'fr',
+  name: 'French',
+  nativeName: 'Français',
+  locale: 'fr-FR',
+  label: 'FRA',
+  flag: '🇫🇷',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
@@ -0,0 +1,12 @@
+import { LanguagePack } from '../utils/i18n';
+import { ar } from './ar';
+import { de } from './de';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { ja } from './ja';
+import { vi } from './vi';
+import { zh } from './zh';
+
+// Order here is the order of the language menu and swipe cycling
+export const BUILT_IN_PACKS: LanguagePack[] = [en, es, fr, de, ja, vi, zh, ar];
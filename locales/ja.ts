@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: '止まって。',
+  caution: '注意。',
+  turnLeft: '左に曲がって。',
+  turnRight: '右に曲がって。',
+  goStraight: 'まっすぐ進んで。',
+  pathClear: '道は空いています。',
+
+  sonarActive: 'ソナー作動中',
+  sonarAlreadyActive: 'ソナーはすでに作動中です',
+  systemPaused: '一時停止しました',
+  offlineMode: 'オフラインモード。端末内の検出を使います。',
+  connectionRestored: '接続が回復しました。AI案内を再開します。',
+  cameraBlocked: 'カメラの視界がふさがれています。',
+  analysisFailed: 'AIエラーです。注意して進んでください。',
+  profileApplied: '{profile}プロファイル',
+  volumePercent: '音量{percent}パーセント',
+  voicePreview: 'これは{language}の音声です。',
+
+  processing: '処理中...',
+  couldNotHear: 'よく聞き取れませんでした。',
+  couldNotSee: 'よく見えませんでした。',
+  notSure: '確かではありません。',
+  couldNotAnswer: 'すみません、お答えできませんでした。',
+  itReads: '書いてあるのは「{text}」です。',
+  nothingToRepeat: 'まだ繰り返す内容がありません。',
+  conversationCleared: '会話を消去しました。',
+  voiceQuestionsNeedConnection: '音声での質問には接続が必要です。',
+  micDenied: 'マイクへのアクセスが拒否されました。',
+  whatsAheadQuestion: '前に何がありますか？障害物と道の方向を説明してください。',
+
+  handsFreeOn: 'ハンズフリーをオンにしました。マイクの音声はブラウザのオンライン音声認識サービスに送られます。「ねえソナー」と言ってから指示してください。',
+  handsFreeOff: 'ハンズフリーをオフにしました',
+  handsFreeStopped: 'ハンズフリーの聞き取りが止まりました。',
+  handsFreeNeedsConnection: 'ハンズフリーの聞き取りにはインターネット接続が必要なため、停止しました。',
+  handsFreeUnsupported: 'ハンズフリーには音声認識が必要ですが、このブラウザにはありません。',
+
+  conversationEnded: '会話を終了しました',
+  conversationNeedsConnection: '会話には接続が必要です。',
+  conversationUnavailable: '会話は利用できません。',
+
+  readingStarted: '読み上げモード。文字にカメラを向けてください。',
+  readingStopped: '読み上げを終了しました',
+  readingNeedsConnection: '読み上げには接続が必要です。',
+  translatingTo: '{language}に翻訳します',
+  originalText: '原文',
+  holdSteady: '動かさないでください。',
+  readHintLeft: '左へ。文字が続いています。',
+  readHintRight: '右へ。文字が続いています。',
+  readHintTop: '上に傾けて。文字が続いています。',
+  readHintBottom: '下に傾けて。文字が続いています。',
+  readHintCloser: '文字に近づいてください。',
+
+  searchingFor: '{target}を探しています。ゆっくり回ってください。',
+  searchStopped: '探索を終了しました',
+  findingNeedsConnection: '{target}を探すには接続が必要です。',
+  targetInReach: '{target}は手の届く距離、正面です。',
+  targetNotInView: '{target}は見えません。ゆっくり回ってください。',
+
+  recording: '録画中',
+  recordingSaved: '録画を保存しました',
+  replayStarted: '再生を開始しました',
+  replayFinished: '再生が終わりました',
+  replayStopped: '再生を停止しました',
+
+  hazardAhead: '前方に{object}',
+  hazardOnLeft: '左に{object}',
+  hazardOnRight: '右に{object}',
+  hazardApproachingAhead: '前方から{object}が接近',
+  hazardApproachingLeft: '左から{object}が接近',
+  hazardApproachingRight: '右から{object}が接近',
+  hazardMovingAway: '{object}が遠ざかっています',
+  hazardCrossingLeft: '{object}が左へ横切っています',
+  hazardCrossingRight: '{object}が右へ横切っています',
+  localNoObstacles: '障害物はありません',
+  localObjectsNoneClose: '物体が{count}個、近くにはありません',
+  localPathClear: '道は空いているようです',
+  localStopWait: '止まって。待ってください。',
+  localMoveLeft: '左へ',
+  localMoveRight: '右へ',
+  objectPerson: '人',
+  objectBicycle: '自転車',
+  objectMotorcycle: 'バイク',
+  objectDog: '犬',
+  objectChair: '椅子',
+  objectBench: 'ベンチ',
+  objectCouch: 'ソファ',
+  objectDiningTable: 'テーブル',
+  objectPottedPlant: '鉢植え',
+  objectFireHydrant: '消火栓',
+  objectSuitcase: 'スーツケース',
+  objectCar: '車',
+  objectBus: 'バス',
+  objectTruck: 'トラック',
+  objectTrain: '電車',
+  objectTrafficLight: '信号機',
+  objectStopSign: '一時停止の標識',
+  objectBackpack: 'リュック',
+  objectUmbrella: '傘',
+  objectHandbag: 'ハンドバッグ',
+  objectBed: 'ベッド',
+  objectToilet: 'トイレ',
+  objectTv: 'テレビ',
+  objectLaptop: 'ノートパソコン',
+  objectRefrigerator: '冷蔵庫',
+  objectSink: 'シンク',
+
+  statusSafe: '安全',
+  statusCaution: '注意',
+  statusStop: '停止',
+  directionLeft: '左',
+  directionAhead: '正面',
+  directionRight: '右',
+  statusAnnouncement: '{status}、{direction}',
+
+  standby: '待機中。開始を押してください。',
+  processingIndicator: '処理中',
+  offlineBadge: 'オフライン',
+  connecting: '接続中',
+  answering: '回答中',
+  listening: '聞き取り中',
+  askAboutSurroundings: '周りについて質問してください。',
+  searchingLabel: '探索中: {target}',
+  overlayHazard: '危険: {label}',
+  overlayTarget: '目標: {label}',
+  overlayText: 'テキスト {number}',
+  overlayPath: '通路',
+  panValue: '方向: {pan}',
+  motionApproaching: '接近中',
+  motionReceding: '遠ざかる',
+  motionCrossing: '横切る',
+  notInView: '視界外',
+  inReach: '手の届く距離',
+  ahead: '正面',
+  left: '左',
+  right: '右',
+  readingLabel: '読み上げ',
+  original: '原文',
+  pointAtText: 'カメラを文字に向けてください。',
+  answerLabel: '回答',
+  confidenceLabel: '確信度: {percent}%',
+  localDetection: '端末内の検出',
+  statusRegion: '状態',
+
+  recButton: '録画',
+  logButton: '記録',
+  wakeButton: '音声',
+  settingsButton: '設定',
+  soundButton: '音',
+  recordSession: 'セッションを録画',
+  sessionLog: 'セッション記録',
+  handsFreeCommands: 'ハンズフリー音声コマンド',
+  settings: '設定',
+  soundAndFeedback: '音とフィードバック',
+  languageLabel: '言語: {language}',
+  startSonar: 'ソナーを開始',
+  pauseSonar: 'ソナーを一時停止',
+  stopReplay: '再生を停止',
+  endConversation: '会話を終了',
+  stopReading: '読み上げを終了',
+  stopSearch: '探索を終了',
+  askQuestion: '質問する',
+  askQuestionHold: '質問する、押したまま話す',
+  sendQuestion: '質問を送信',
+  liveConversation: 'ライブ会話',
+  readText: '文字を読む',
+  translateTo: '{language}に翻訳',
+
+  close: '閉じる',
+  closePanel: '閉じる',
+  play: '再生',
+  settingsTitle: '設定',
+  profileHeading: 'プロファイル',
+  speechHeading: '音声',
+  detectionHeading: '検出',
+  language: '言語',
+  rate: '速さ',
+  pitch: '高さ',
+  voice: '声',
+  systemDefaultVoice: 'システム標準',
+  rateValue: '{rate}倍',
+  questionButton: '質問ボタン',
+  talkModeHold: '押したまま話す',
+  talkModeToggle: '押して開始、もう一度押して送信',
+  scanEvery: 'スキャン間隔',
+  secondsValue: '{seconds}秒',
+  confidence: '確信度',
+  percentValue: '{percent}パーセント',
+  importantObjects: '重要な物体',
+  profileIndoorName: '屋内',
+  profileIndoorDescription: 'ゆっくりスキャン、家具とドア',
+  profileStreetName: '屋外',
+  profileStreetDescription: '速いスキャン、交通を優先、振動と音で通知',
+  profileTransitName: '交通機関',
+  profileTransitDescription: '人混み、荷物、乗り物。控えめな合図',
+  voiceHeading: '声 · {language}',
+  soundTitle: '音',
+  volumeHeading: '音量',
+  previewHeading: '試聴',
+  master: '全体',
+  categoryAlerts: '警告',
+  categoryNavigation: 'ナビゲーション',
+  categoryInterface: '操作音',
+  categorySpatial: '空間音',
+  themeClassicName: 'クラシック',
+  themeClassicDescription: 'ソナーのピンと鋭い警告音。',
+  themeSoftName: 'ソフト',
+  themeSoftDescription: '立ち上がりのゆるやかな柔らかい音。',
+  themeLowPitchName: '低音',
+  themeLowPitchDescription: '高音域が聞こえにくくても聞き取りやすい低いブザー音。',
+  earconScan: 'スキャン開始',
+  earconSafe: '道は空いています',
+  earconCaution: '注意',
+  earconStop: '停止',
+  earconListenStart: '聞き取り開始',
+  earconListenStop: '聞き取り終了',
+  earconError: 'エラー',
+  earconFound: '目標は手の届く距離',
+  feedbackHeading: 'フィードバック',
+  feel: '振動',
+  channelAudio: '音',
+  channelHaptic: '振動',
+  channelBoth: '両方',
+  noVibration: 'この端末は振動に対応していません。',
+
+  sessionsTitle: 'セッション',
+  replayButton: '再生',
+  exportButton: '書き出し',
+  deleteButton: '削除',
+  importArchive: 'アーカイブを読み込む',
+  noSessions: '記録されたセッションはありません。',
+  sessionInProgress: '記録中',
+  sessionDuration: '{minutes}分{seconds}秒',
+  sessionEvents: '{count}件のイベント',
+  sessionStorageUnavailable: 'セッションの保存領域を利用できません',
+  sessionNotFound: 'セッションが見つかりません',
+  sessionLoadFailed: 'セッションを読み込めませんでした',
+  sessionExportFailed: 'セッションを書き出せませんでした',
+  sessionDeleteFailed: 'セッションを削除できませんでした',
+  invalidArchive: '有効なセッションアーカイブではありません',
+  modelsTitle: 'モデル',
+  noModelRequests: 'まだリクエストはありません。',
+  circuitClosed: '正常',
+  circuitHalfOpen: '半開',
+  circuitOpen: '遮断',
+  modelStats: '成功 {successes} · 失敗 {failures}',
+  modelAvgLatency: '平均 {ms}ms',
+  modelRetryAt: '{time} に再試行',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['ねえソナー', 'ヘイソナー', 'ソナー'],
+  please: ['ください', 'お願い'],
+  start: ['スタート', '開始', '始めて', 'ソナーを開始'],
+  pause: ['一時停止', '停止', '止めて', 'ストップ'],
+  whatsAhead: ['前に何がある', '前に何があるの', '前には何がある', '前は何'],
+  readText: ['読んで', '読み上げて', 'これを読んで', 'テキストを読んで'],
+  louder: ['音量を上げて', '大きく', 'もっと大きく'],
+  quieter: ['音量を下げて', '小さく', 'もっと小さく'],
+  repeat: ['もう一度', 'もう一回', '繰り返して'],
+  clearHistory: ['クリア', 'リセット', '忘れて', '履歴を消して'],
+  find: ['{target}を探して', '{target}を見つけて', '{target}を探す'],
+  whereIs: ['{target}はどこ', '{target}はどこにある', '{target}はどこですか'],
+  articles: ['私の', '僕の'],
+  switchTo: ['{name}に切り替えて', '{name}にして', '{name}に変えて', '{name}で話して'],
+  profileMode: ['{profile}モード'],
+  profileIndoor: ['屋内', '室内', '家'],
+  profileStreet: ['屋外', '道路', '外'],
+  profileTransit: ['公共交通機関', '交通機関', '電車'],
+  languageEn: ['英語'],
+  languageEs: ['スペイン語'],
+  languageFr: ['フランス語'],
+  languageDe: ['ドイツ語'],
+  languageJa: ['日本語'],
+  languageVi: ['ベトナム語'],
+  languageZh: ['中国語'],
+  languageAr: ['アラビア語'],
+};
+
+export const ja: LanguagePack = {
+  code: 'ja',
+  name: 'Japanese',
+  nativeName: '日本語',
+  locale: 'ja-JP',
+  label: 'JPN',
+  flag: '🇯🇵',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: 'Dừng lại.',
+  caution: 'Cẩn thận.',
+  turnLeft: 'Rẽ trái.',
+  turnRight: 'Rẽ phải.',
+  goStraight: 'Đi thẳng.',
+  pathClear: 'Đường trống.',
+
+  sonarActive: 'Sonar đang hoạt động',
+  sonarAlreadyActive: 'Sonar đã hoạt động rồi',
+  systemPaused: 'Hệ thống tạm dừng',
+  offlineMode: 'Chế độ ngoại tuyến. Dùng nhận diện trên thiết bị.',
+  connectionRestored: 'Đã kết nối lại. Tiếp tục hướng dẫn bằng AI.',
+  cameraBlocked: 'Camera bị che.',
+  analysisFailed: 'Lỗi AI. Hãy đi thận trọng.',
+  profileApplied: 'Cấu hình {profile}',
+  volumePercent: 'Âm lượng {percent} phần trăm',
+  voicePreview: 'Đây là giọng {language}.',
+
+  processing: 'Đang xử lý...',
+  couldNotHear: 'Tôi nghe không rõ.',
+  couldNotSee: 'Tôi nhìn không rõ.',
+  notSure: 'Tôi không chắc.',
+  couldNotAnswer: 'Xin lỗi, tôi không trả lời được.',
+  itReads: 'Nội dung là: {text}.',
+  nothingToRepeat: 'Chưa có gì để lặp lại.',
+  conversationCleared: 'Đã xóa cuộc trò chuyện.',
+  voiceQuestionsNeedConnection: 'Câu hỏi bằng giọng nói cần kết nối mạng.',
+  micDenied: 'Không được phép dùng micrô.',
+  whatsAheadQuestion: 'Phía trước tôi có gì? Hãy mô tả chướng ngại vật và hướng đi của con đường.',
+
+  handsFreeOn: 'Đã bật rảnh tay. Dịch vụ nhận dạng giọng nói trực tuyến của trình duyệt nghe micrô. Nói Hey Sonar, rồi nói lệnh.',
+  handsFreeOff: 'Đã tắt rảnh tay',
+  handsFreeStopped: 'Đã ngừng nghe rảnh tay.',
+  handsFreeNeedsConnection: 'Nghe rảnh tay cần kết nối internet và đã dừng.',
+  handsFreeUnsupported: 'Chế độ rảnh tay cần nhận dạng giọng nói, trình duyệt này không hỗ trợ.',
+
+  conversationEnded: 'Đã kết thúc cuộc trò chuyện',
+  conversationNeedsConnection: 'Trò chuyện cần kết nối mạng.',
+  conversationUnavailable: 'Không thể trò chuyện.',
+
+  readingStarted: 'Chế độ đọc. Hướng camera vào chữ.',
+  readingStopped: 'Đã dừng đọc',
+  readingNeedsConnection: 'Đọc chữ cần kết nối mạng.',
+  translatingTo: 'Đang dịch sang {language}',
+  originalText: 'Văn bản gốc',
+  holdSteady: 'Giữ yên máy.',
+  readHintLeft: 'Sang trái, chữ vẫn còn tiếp.',
+  readHintRight: 'Sang phải, chữ vẫn còn tiếp.',
+  readHintTop: 'Nghiêng lên, chữ vẫn còn tiếp.',
+  readHintBottom: 'Nghiêng xuống, chữ vẫn còn tiếp.',
+  readHintCloser: 'Lại gần chữ hơn.',
+
+  searchingFor: 'Đang tìm {target}. Xoay chậm.',
+  searchStopped: 'Đã dừng tìm',
+  findingNeedsConnection: 'Tìm {target} cần kết nối mạng.',
+  targetInReach: '{target} trong tầm tay, ngay phía trước.',
+  targetNotInView: 'Không thấy {target}. Xoay chậm.',
+
+  recording: 'Đang ghi',
+  recordingSaved: 'Đã lưu bản ghi',
+  replayStarted: 'Bắt đầu phát lại',
+  replayFinished: 'Phát lại xong',
+  replayStopped: 'Đã dừng phát lại',
+
+  hazardAhead: '{object} phía trước',
+  hazardOnLeft: '{object} bên trái',
+  hazardOnRight: '{object} bên phải',
+  hazardApproachingAhead: '{object} đang tiến lại từ phía trước',
+  hazardApproachingLeft: '{object} đang tiến lại từ bên trái',
+  hazardApproachingRight: '{object} đang tiến lại từ bên phải',
+  hazardMovingAway: '{object} đang đi xa',
+  hazardCrossingLeft: '{object} đang băng qua sang trái',
+  hazardCrossingRight: '{object} đang băng qua sang phải',
+  localNoObstacles: 'Không phát hiện chướng ngại vật',
+  localObjectsNoneClose: '{count} vật thể, không có gì ở gần',
+  localPathClear: 'Đường có vẻ trống',
+  localStopWait: 'Dừng lại. Chờ đã.',
+  localMoveLeft: 'Sang trái',
+  localMoveRight: 'Sang phải',
+  objectPerson: 'người',
+  objectBicycle: 'xe đạp',
+  objectMotorcycle: 'xe máy',
+  objectDog: 'chó',
+  objectChair: 'ghế',
+  objectBench: 'ghế dài',
+  objectCouch: 'ghế sofa',
+  objectDiningTable: 'bàn ăn',
+  objectPottedPlant: 'chậu cây',
+  objectFireHydrant: 'trụ cứu hỏa',
+  objectSuitcase: 'vali',
+  objectCar: 'ô tô',
+  objectBus: 'xe buýt',
+  objectTruck: 'xe tải',
+  objectTrain: 'tàu hỏa',
+  objectTrafficLight: 'đèn giao thông',
+  objectStopSign: 'biển dừng',
+  objectBackpack: 'ba lô',
+  objectUmbrella: 'ô',
+  objectHandbag: 'túi xách',
+  objectBed: 'giường',
+  objectToilet: 'bồn cầu',
+  objectTv: 'tivi',
+  objectLaptop: 'máy tính xách tay',
+  objectRefrigerator: 'tủ lạnh',
+  objectSink: 'bồn rửa',
+
+  statusSafe: 'An toàn',
+  statusCaution: 'Cẩn thận',
+  statusStop: 'Dừng',
+  directionLeft: 'bên trái',
+  directionAhead: 'phía trước',
+  directionRight: 'bên phải',
+  statusAnnouncement: '{status}, {direction}',
+
+  standby: 'Hệ thống đang chờ. Nhấn bắt đầu.',
+  processingIndicator: 'Đang xử lý',
+  offlineBadge: 'NGOẠI TUYẾN',
+  connecting: 'Đang kết nối',
+  answering: 'Đang trả lời',
+  listening: 'Đang nghe',
+  askAboutSurroundings: 'Hãy hỏi về xung quanh bạn.',
+  searchingLabel: 'Đang tìm: {target}',
+  overlayHazard: 'NGUY HIỂM: {label}',
+  overlayTarget: 'MỤC TIÊU: {label}',
+  overlayText: 'CHỮ {number}',
+  overlayPath: 'LỐI ĐI',
+  panValue: 'HƯỚNG: {pan}',
+  motionApproaching: 'đang đến gần',
+  motionReceding: 'đang ra xa',
+  motionCrossing: 'đang băng qua',
+  notInView: 'KHÔNG THẤY',
+  inReach: 'TRONG TẦM TAY',
+  ahead: 'PHÍA TRƯỚC',
+  left: 'TRÁI',
+  right: 'PHẢI',
+  readingLabel: 'Đọc',
+  original: 'BẢN GỐC',
+  pointAtText: 'Hướng camera vào chữ.',
+  answerLabel: 'Trả lời',
+  confidenceLabel: 'ĐỘ TIN CẬY: {percent}%',
+  localDetection: 'Nhận diện trên máy',
+  statusRegion: 'Trạng thái',
+
+  recButton: 'GHI',
+  logButton: 'NHẬT KÝ',
+  wakeButton: 'GỌI',
+  settingsButton: 'CÀI',
+  soundButton: 'ÂM',
+  recordSession: 'Ghi phiên',
+  sessionLog: 'Nhật ký phiên',
+  handsFreeCommands: 'Lệnh giọng nói rảnh tay',
+  settings: 'Cài đặt',
+  soundAndFeedback: 'Âm thanh và phản hồi',
+  languageLabel: 'Ngôn ngữ: {language}',
+  startSonar: 'Bật sonar',
+  pauseSonar: 'Tạm dừng sonar',
+  stopReplay: 'Dừng phát lại',
+  endConversation: 'Kết thúc trò chuyện',
+  stopReading: 'Dừng đọc',
+  stopSearch: 'Dừng tìm',
+  askQuestion: 'Đặt câu hỏi',
+  askQuestionHold: 'Đặt câu hỏi, giữ để nói',
+  sendQuestion: 'Gửi câu hỏi',
+  liveConversation: 'Trò chuyện trực tiếp',
+  readText: 'Đọc chữ',
+  translateTo: 'Dịch sang {language}',
+
+  close: 'ĐÓNG',
+  closePanel: 'Đóng',
+  play: 'NGHE',
+  settingsTitle: 'CÀI ĐẶT',
+  profileHeading: 'CẤU HÌNH',
+  speechHeading: 'GIỌNG NÓI',
+  detectionHeading: 'NHẬN DIỆN',
+  language: 'Ngôn ngữ',
+  rate: 'Tốc độ',
+  pitch: 'Cao độ',
+  voice: 'Giọng',
+  systemDefaultVoice: 'Mặc định hệ thống',
+  rateValue: '{rate} lần',
+  questionButton: 'Nút hỏi',
+  talkModeHold: 'Giữ để nói',
+  talkModeToggle: 'Nhấn để bắt đầu, nhấn lần nữa để gửi',
+  scanEvery: 'Quét mỗi',
+  secondsValue: '{seconds} giây',
+  confidence: 'Độ tin cậy',
+  percentValue: '{percent} phần trăm',
+  importantObjects: 'Vật thể quan trọng',
+  profileIndoorName: 'Trong nhà',
+  profileIndoorDescription: 'Quét chậm hơn, đồ đạc và cửa ra vào',
+  profileStreetName: 'Đường phố',
+  profileStreetDescription: 'Quét nhanh, ưu tiên xe cộ, vừa rung vừa nghe',
+  profileTransitName: 'Phương tiện công cộng',
+  profileTransitDescription: 'Đám đông, hành lý và xe cộ; tín hiệu nhẹ nhàng',
+  voiceHeading: 'GIỌNG · {language}',
+  soundTitle: 'ÂM THANH',
+  volumeHeading: 'ÂM LƯỢNG',
+  previewHeading: 'NGHE THỬ',
+  master: 'Tổng',
+  categoryAlerts: 'Cảnh báo',
+  categoryNavigation: 'Dẫn đường',
+  categoryInterface: 'Giao diện',
+  categorySpatial: 'Không gian',
+  themeClassicName: 'Cổ điển',
+  themeClassicDescription: 'Tiếng ping sonar và xung cảnh báo sắc nét.',
+  themeSoftName: 'Nhẹ nhàng',
+  themeSoftDescription: 'Âm sin êm dịu, lên tiếng chậm.',
+  themeLowPitchName: 'Âm trầm',
+  themeLowPitchDescription: 'Âm trầm, rè, vẫn nghe rõ khi bị suy giảm thính lực âm cao.',
+  earconScan: 'Bắt đầu quét',
+  earconSafe: 'Đường trống',
+  earconCaution: 'Cẩn thận',
+  earconStop: 'Dừng',
+  earconListenStart: 'Đang nghe',
+  earconListenStop: 'Nghe xong',
+  earconError: 'Lỗi',
+  earconFound: 'Mục tiêu trong tầm tay',
+  feedbackHeading: 'PHẢN HỒI',
+  feel: 'RUNG THỬ',
+  channelAudio: 'Âm thanh',
+  channelHaptic: 'Rung',
+  channelBoth: 'Cả hai',
+  noVibration: 'Thiết bị này không hỗ trợ rung.',
+
+  sessionsTitle: 'PHIÊN',
+  replayButton: 'PHÁT LẠI',
+  exportButton: 'XUẤT',
+  deleteButton: 'XÓA',
+  importArchive: 'NHẬP TỆP LƯU TRỮ',
+  noSessions: 'Chưa có phiên nào được ghi.',
+  sessionInProgress: 'đang diễn ra',
+  sessionDuration: '{minutes} phút {seconds} giây',
+  sessionEvents: '{count} sự kiện',
+  sessionStorageUnavailable: 'Không dùng được bộ nhớ phiên',
+  sessionNotFound: 'Không tìm thấy phiên',
+  sessionLoadFailed: 'Không thể tải phiên',
+  sessionExportFailed: 'Không thể xuất phiên',
+  sessionDeleteFailed: 'Không thể xóa phiên',
+  invalidArchive: 'Không phải tệp lưu trữ phiên hợp lệ',
+  modelsTitle: 'MÔ HÌNH',
+  noModelRequests: 'Chưa có yêu cầu nào.',
+  circuitClosed: 'đóng',
+  circuitHalfOpen: 'nửa mở',
+  circuitOpen: 'mở',
+  modelStats: '{successes} thành công · {failures} thất bại',
+  modelAvgLatency: 'trung bình {ms} ms',
+  modelRetryAt: 'thử lại lúc {time}',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['hey sonar', 'này sonar', 'ê sonar', 'sonar'],
+  please: ['làm ơn', 'nhé'],
+  start: ['bắt đầu', 'tiếp tục', 'bắt đầu quét', 'bật sonar'],
+  pause: ['dừng', 'dừng lại', 'tạm dừng', 'tắt sonar'],
+  whatsAhead: ['phía trước có gì', 'trước mặt có gì', 'có gì phía trước'],
+  readText: ['đọc', 'đọc chữ', 'đọc văn bản', 'đọc cái này'],
+  louder: ['to hơn', 'tăng âm lượng'],
+  quieter: ['nhỏ hơn', 'giảm âm lượng'],
+  repeat: ['nhắc lại', 'lặp lại', 'nói lại'],
+  clearHistory: ['xóa', 'xóa lịch sử', 'quên đi', 'bắt đầu lại'],
+  find: ['tìm giúp tôi {target}', 'tìm kiếm {target}', 'tìm {target}'],
+  whereIs: ['{target} ở đâu', '{target} đâu rồi'],
+  articles: ['cái', 'chiếc', 'con', 'quyển'],
+  switchTo: ['chuyển sang {name}', 'đổi sang {name}', 'nói {name}'],
+  profileMode: ['chế độ {profile}'],
+  profileIndoor: ['trong nhà', 'trong phòng'],
+  profileStreet: ['đường phố', 'ngoài đường', 'ngoài trời'],
+  profileTransit: ['phương tiện công cộng', 'giao thông công cộng'],
+  languageEn: ['tiếng anh'],
+  languageEs: ['tiếng tây ban nha'],
+  languageFr: ['tiếng pháp'],
+  languageDe: ['tiếng đức'],
+  languageJa: ['tiếng nhật'],
+  languageVi: ['tiếng việt'],
+  languageZh: ['tiếng trung', 'tiếng hoa'],
+  languageAr: ['tiếng ả rập'],
+};
+
+export const vi: LanguagePack = {
+  code: 'vi',
+  name: 'Vietnamese',
+  nativeName: 'Tiếng Việt',
+  locale: 'vi-VN',
+  label: 'VIE',
+  flag: '🇻🇳',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
@@ -0,0 +1,293 @@
+import { LanguagePack } from '../utils/i18n';
+import { Grammar, Messages } from './en';
+
+const messages: Messages = {
+  stop: '停下。',
+  caution: '注意。',
+  turnLeft: '向左转。',
+  turnRight: '向右转。',
+  goStraight: '直走。',
+  pathClear: '前方通畅。',
+
+  sonarActive: '声呐已启动',
+  sonarAlreadyActive: '声呐已经在运行',
+  systemPaused: '系统已暂停',
+  offlineMode: '离线模式。使用设备端检测。',
+  connectionRestored: '连接已恢复。AI 导航继续。',
+  cameraBlocked: '摄像头视野被挡住。',
+  analysisFailed: 'AI 出错。请小心前进。',
+  profileApplied: '{profile}模式',
+  volumePercent: '音量百分之{percent}',
+  voicePreview: '这是{language}语音。',
+
+  processing: '正在处理...',
+  couldNotHear: '我没听清楚。',
+  couldNotSee: '我没看清楚。',
+  notSure: '我不太确定。',
+  couldNotAnswer: '抱歉，我无法回答这个问题。',
+  itReads: '上面写着：{text}。',
+  nothingToRepeat: '还没有可以重复的内容。',
+  conversationCleared: '对话已清除。',
+  voiceQuestionsNeedConnection: '语音提问需要网络连接。',
+  micDenied: '麦克风权限被拒绝。',
+  whatsAheadQuestion: '我前面有什么？请描述障碍物和道路的方向。',
+
+  handsFreeOn: '免提已开启。麦克风的声音会发送到浏览器的在线语音识别服务。先说“嘿，声纳”，再说指令。',
+  handsFreeOff: '免提已关闭',
+  handsFreeStopped: '免提监听已停止。',
+  handsFreeNeedsConnection: '免提监听需要联网，已停止。',
+  handsFreeUnsupported: '免提需要语音识别，但此浏览器不支持。',
+
+  conversationEnded: '对话已结束',
+  conversationNeedsConnection: '对话需要网络连接。',
+  conversationUnavailable: '对话不可用。',
+
+  readingStarted: '阅读模式。请对准文字。',
+  readingStopped: '阅读已停止',
+  readingNeedsConnection: '阅读需要网络连接。',
+  translatingTo: '翻译成{language}',
+  originalText: '原文',
+  holdSteady: '请保持稳定。',
+  readHintLeft: '向左移，文字还没完。',
+  readHintRight: '向右移，文字还没完。',
+  readHintTop: '向上倾斜，文字还没完。',
+  readHintBottom: '向下倾斜，文字还没完。',
+  readHintCloser: '请靠近文字。',
+
+  searchingFor: '正在寻找{target}。请慢慢转动。',
+  searchStopped: '寻找已停止',
+  findingNeedsConnection: '寻找{target}需要网络连接。',
+  targetInReach: '{target}就在正前方，伸手可及。',
+  targetNotInView: '看不到{target}。请慢慢转动。',
+
+  recording: '正在录制',
+  recordingSaved: '录制已保存',
+  replayStarted: '开始回放',
+  replayFinished: '回放结束',
+  replayStopped: '回放已停止',
+
+  hazardAhead: '前方有{object}',
+  hazardOnLeft: '左侧有{object}',
+  hazardOnRight: '右侧有{object}',
+  hazardApproachingAhead: '{object}正从前方靠近',
+  hazardApproachingLeft: '{object}正从左侧靠近',
+  hazardApproachingRight: '{object}正从右侧靠近',
+  hazardMovingAway: '{object}正在远离',
+  hazardCrossingLeft: '{object}正向左穿过',
+  hazardCrossingRight: '{object}正向右穿过',
+  localNoObstacles: '未检测到障碍物',
+  localObjectsNoneClose: '{count}个物体，都不近',
+  localPathClear: '道路似乎通畅',
+  localStopWait: '停下。请等待。',
+  localMoveLeft: '向左走',
+  localMoveRight: '向右走',
+  objectPerson: '行人',
+  objectBicycle: '自行车',
+  objectMotorcycle: '摩托车',
+  objectDog: '狗',
+  objectChair: '椅子',
+  objectBench: '长椅',
+  objectCouch: '沙发',
+  objectDiningTable: '餐桌',
+  objectPottedPlant: '盆栽',
+  objectFireHydrant: '消防栓',
+  objectSuitcase: '行李箱',
+  objectCar: '汽车',
+  objectBus: '公交车',
+  objectTruck: '卡车',
+  objectTrain: '火车',
+  objectTrafficLight: '红绿灯',
+  objectStopSign: '停车标志',
+  objectBackpack: '背包',
+  objectUmbrella: '雨伞',
+  objectHandbag: '手提包',
+  objectBed: '床',
+  objectToilet: '马桶',
+  objectTv: '电视',
+  objectLaptop: '笔记本电脑',
+  objectRefrigerator: '冰箱',
+  objectSink: '水槽',
+
+  statusSafe: '安全',
+  statusCaution: '注意',
+  statusStop: '停止',
+  directionLeft: '左侧',
+  directionAhead: '前方',
+  directionRight: '右侧',
+  statusAnnouncement: '{status}，{direction}',
+
+  standby: '系统待命。请按开始。',
+  processingIndicator: '处理中',
+  offlineBadge: '离线',
+  connecting: '正在连接',
+  answering: '正在回答',
+  listening: '正在聆听',
+  askAboutSurroundings: '询问你周围的环境。',
+  searchingLabel: '寻找：{target}',
+  overlayHazard: '危险：{label}',
+  overlayTarget: '目标：{label}',
+  overlayText: '文字 {number}',
+  overlayPath: '通道',
+  panValue: '方位：{pan}',
+  motionApproaching: '正在靠近',
+  motionReceding: '正在远离',
+  motionCrossing: '正在横穿',
+  notInView: '不在视野内',
+  inReach: '伸手可及',
+  ahead: '前方',
+  left: '左',
+  right: '右',
+  readingLabel: '阅读',
+  original: '原文',
+  pointAtText: '将摄像头对准文字。',
+  answerLabel: '回答',
+  confidenceLabel: '置信度：{percent}%',
+  localDetection: '本地检测',
+  statusRegion: '状态',
+
+  recButton: '录制',
+  logButton: '记录',
+  wakeButton: '唤醒',
+  settingsButton: '设置',
+  soundButton: '声音',
+  recordSession: '录制会话',
+  sessionLog: '会话记录',
+  handsFreeCommands: '免提语音指令',
+  settings: '设置',
+  soundAndFeedback: '声音与反馈',
+  languageLabel: '语言：{language}',
+  startSonar: '启动声呐',
+  pauseSonar: '暂停声呐',
+  stopReplay: '停止回放',
+  endConversation: '结束对话',
+  stopReading: '停止阅读',
+  stopSearch: '停止寻找',
+  askQuestion: '提问',
+  askQuestionHold: '提问，按住说话',
+  sendQuestion: '发送问题',
+  liveConversation: '实时对话',
+  readText: '阅读文字',
+  translateTo: '翻译成{language}',
+
+  close: '关闭',
+  closePanel: '关闭',
+  play: '播放',
+  settingsTitle: '设置',
+  profileHeading: '模式',
+  speechHeading: '语音',
+  detectionHeading: '检测',
+  language: '语言',
+  rate: '语速',
+  pitch: '音调',
+  voice: '声音',
+  systemDefaultVoice: '系统默认',
+  rateValue: '{rate}倍',
+  questionButton: '提问按钮',
+  talkModeHold: '按住说话',
+  talkModeToggle: '按一下开始，再按一下发送',
+  scanEvery: '扫描间隔',
+  secondsValue: '{seconds}秒',
+  confidence: '置信度',
+  percentValue: '百分之{percent}',
+  importantObjects: '重要物体',
+  profileIndoorName: '室内',
+  profileIndoorDescription: '扫描较慢，关注家具和门',
+  profileStreetName: '街道',
+  profileStreetDescription: '快速扫描，交通优先，震动和声音同时提示',
+  profileTransitName: '公共交通',
+  profileTransitDescription: '人群、行李和车辆；安静的提示',
+  voiceHeading: '声音 · {language}',
+  soundTitle: '声音',
+  volumeHeading: '音量',
+  previewHeading: '试听',
+  master: '总音量',
+  categoryAlerts: '警报',
+  categoryNavigation: '导航',
+  categoryInterface: '界面',
+  categorySpatial: '空间',
+  themeClassicName: '经典',
+  themeClassicDescription: '声呐提示音和清脆的警告脉冲。',
+  themeSoftName: '柔和',
+  themeSoftDescription: '起音缓慢的柔和正弦音。',
+  themeLowPitchName: '低音',
+  themeLowPitchDescription: '低沉的嗡嗡声，高频听力下降时也能听清。',
+  earconScan: '开始扫描',
+  earconSafe: '前方通畅',
+  earconCaution: '注意',
+  earconStop: '停止',
+  earconListenStart: '开始聆听',
+  earconListenStop: '聆听结束',
+  earconError: '错误',
+  earconFound: '目标伸手可及',
+  feedbackHeading: '反馈',
+  feel: '试震',
+  channelAudio: '声音',
+  channelHaptic: '震动',
+  channelBoth: '两者',
+  noVibration: '此设备不支持震动。',
+
+  sessionsTitle: '会话',
+  replayButton: '回放',
+  exportButton: '导出',
+  deleteButton: '删除',
+  importArchive: '导入存档',
+  noSessions: '没有已录制的会话。',
+  sessionInProgress: '进行中',
+  sessionDuration: '{minutes}分{seconds}秒',
+  sessionEvents: '{count} 个事件',
+  sessionStorageUnavailable: '会话存储不可用',
+  sessionNotFound: '找不到会话',
+  sessionLoadFailed: '无法加载会话',
+  sessionExportFailed: '无法导出会话',
+  sessionDeleteFailed: '无法删除会话',
+  invalidArchive: '不是有效的会话存档',
+  modelsTitle: '模型',
+  noModelRequests: '暂无请求。',
+  circuitClosed: '正常',
+  circuitHalfOpen: '半开',
+  circuitOpen: '断开',
+  modelStats: '成功 {successes} · 失败 {failures}',
+  modelAvgLatency: '平均 {ms} 毫秒',
+  modelRetryAt: '{time} 重试',
+};
+
+const grammar: Grammar = {
+  wakePhrases: ['嘿声纳', '嘿声呐', '你好声纳', '声纳', '声呐', '嘿 sonar'],
+  please: ['请', '吧'],
+  start: ['开始', '启动', '继续', '开始扫描', '打开声纳'],
+  pause: ['暂停', '停止', '停', '关闭声纳'],
+  whatsAhead: ['前面有什么', '前方有什么', '我前面有什么'],
+  readText: ['读', '读一下', '朗读', '读文字', '读这个'],
+  louder: ['大声点', '大声一点', '调大音量', '音量调高'],
+  quieter: ['小声点', '小声一点', '调小音量', '音量调低'],
+  repeat: ['重复', '再说一遍', '再说一次'],
+  clearHistory: ['清除', '清空', '忘掉', '重新开始'],
+  find: ['帮我找{target}', '找一下{target}', '寻找{target}', '找{target}'],
+  whereIs: ['{target}在哪里', '{target}在哪儿', '{target}在哪'],
+  articles: ['我的', '那个', '这个'],
+  switchTo: ['切换到{name}', '换成{name}', '说{name}', '用{name}'],
+  profileMode: ['{profile}模式'],
+  profileIndoor: ['室内', '屋内', '家里'],
+  profileStreet: ['街道', '户外', '室外'],
+  profileTransit: ['公共交通', '交通', '地铁'],
+  languageEn: ['英语', '英文'],
+  languageEs: ['西班牙语'],
+  languageFr: ['法语'],
+  languageDe: ['德语'],
+  languageJa: ['日语'],
+  languageVi: ['越南语'],
+  languageZh: ['中文', '汉语', '普通话'],
+  languageAr: ['阿拉伯语'],
+};
+
+export const zh: LanguagePack = {
+  code: 'zh',
+  name: 'Chinese',
+  nativeName: '中文',
+  locale: 'zh-CN',
+  label: 'CHN',
+  flag: '🇨🇳',
+  direction: 'ltr',
+  messages,
+  grammar,
+};
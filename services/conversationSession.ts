@@ -0,0 +1,149 @@
+import { LiveSession, SonarProvider } from "../types";
+import { createPcmStreamPlayer } from "../utils/audioUtils";
+import { MicStream, startMicStream } from "../utils/micStream";
+
+export type ConversationState = 'connecting' | 'listening' | 'answering' | 'closed';
+
+export interface ConversationCallbacks {
+  onStateChange(state: ConversationState): void;
+  onAnswer(text: string, final: boolean): void;
+  onUserTranscript?(text: string): void;
+  // Used when the session returns text only (e.g. the mock provider)
+  speakText(text: string): void;
+  stopSpeech(): void;
+  // Latest camera frame as base64 JPEG, or null if none is available
+  captureFrame(): string | null;
+}
+
+export interface ConversationOptions {
+  language: string;
+  frameIntervalMs?: number;
+  // Mic level that counts as the user talking over an answer
+  bargeInLevel?: number;
+}
+
+export interface Conversation {
+  interrupt(): void;
+  stop(): void;
+}
+
+// Wires a provider's live session to the mic, the camera and the speakers:
+// mic audio and periodic frames stream in, partial answers play as they arrive,
+// and speaking over an answer cuts it off.
+export const startConversation = async (
+  provider: SonarProvider,
+  options: ConversationOptions,
+  callbacks: ConversationCallbacks
+): Promise<Conversation> => {
+  if (!provider.connectLive) {
+    throw new Error(`Provider "${provider.name}" does not support live conversation`);
+  }
+  const frameIntervalMs = options.frameIntervalMs ?? 2000;
+  const bargeInLevel = options.bargeInLevel ?? 0.06;
+
+  const player = createPcmStreamPlayer();
+  let session: LiveSession | null = null;
+  let mic: MicStream | null = null;
+  let frameTimer: ReturnType<typeof setInterval> | null = null;
+  let answering = false;
+  let stopped = false;
+  // Text-only sessions: answer text already handed to speech synthesis
+  let spokenLength = 0;
+
+  const setAnswering = (value: boolean) => {
+    if (answering === value) return;
+    answering = value;
+    callbacks.onStateChange(value ? 'answering' : 'listening');
+  };
+
+  const cutOff = () => {
+    player.stop();
+    callbacks.stopSpeech();
+    spokenLength = 0;
+    setAnswering(false);
+  };
+
+  // Speak whole sentences as soon as they are complete
+  const speakNewSentences = (text: string, final: boolean) => {
+    const pending = text.slice(spokenLength);
+    const lastBoundary = final ? pending.length : Math.max(pending.lastIndexOf('. '), pending.lastIndexOf('? '), pending.lastIndexOf('! ')) + 1;
+    if (lastBoundary <= 0) return;
+    const sentence = pending.slice(0, lastBoundary).trim();
+    spokenLength += lastBoundary;
+    if (sentence) callbacks.speakText(sentence);
+  };
+
+  callbacks.onStateChange('connecting');
+  session = await provider.connectLive({ language: options.language }, {
+    onText: (text, final) => {
+      if (stopped) return;
+      setAnswering(true);
+      callbacks.onAnswer(text, final);
+      if (!session?.producesAudio) speakNewSentences(text, final);
+      if (final) spokenLength = 0;
+    },
+    onAudio: data => {
+      if (stopped) return;
+      setAnswering(true);
+      player.enqueue(data);
+    },
+    onUserTranscript: text => callbacks.onUserTranscript?.(text),
+    onTurnComplete: () => setAnswering(false),
+    onInterrupted: () => {
+      console.log("[Conversation] Answer interrupted");
+      cutOff();
+    },
+    onError: error => console.error("[Conversation] Session error", error),
+    onClose: () => {
+      if (!stopped) stop();
+    },
+  });
+
+  // Closed by the server before it finished opening: report it like any other failure to start
+  if (stopped) throw new Error("Live session closed while connecting");
+
+  try {
+    mic = await startMicStream((data, level) => {
+      if (stopped || !session) return;
+      // Local barge-in: don't wait for the server to notice the user talking
+      if (answering && level > bargeInLevel) {
+        cutOff();
+        session.interrupt();
+      }
+      session.sendAudio(data);
+    });
+  } catch (e) {
+    stop();
+    throw e;
+  }
+  if (stopped) {
+    mic.stop();
+    throw new Error("Live session closed while connecting");
+  }
+
+  const sendFrame = () => {
+    const frame = callbacks.captureFrame();
+    if (frame && session && !stopped) session.sendFrame(frame);
+  };
+  sendFrame();
+  frameTimer = setInterval(sendFrame, frameIntervalMs);
+  callbacks.onStateChange('listening');
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    if (frameTimer) clearInterval(frameTimer);
+    mic?.stop();
+    player.stop();
+    session?.close();
+    callbacks.onStateChange('closed');
+  }
+
+  return {
+    interrupt: () => {
+      cutOff();
+      session?.interrupt();
+    },
+    stop,
+  };
+};
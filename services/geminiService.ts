@@ -1,9 +1,62 @@
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { SonarResponse } from "../types";
+import {
+  SonarResponse,
+  SceneAnswer,
+  ObjectLocation,
+  TextReading,
+  ReadTextOptions,
+  SonarProvider,
+  QueryTurn,
+  AnalyzeOptions,
+  RequestOptions,
+  LiveSession,
+  LiveSessionCallbacks,
+  LiveSessionOptions,
+} from "../types";
+import { validateObjectLocation, validateSceneAnswer, validateSonarResponse, validateTextReading } from "../utils/sonarValidation";
+import { formatHistoryPrompt } from "../utils/queryHistory";
+import { ProviderResponseError, ProviderUnavailableError, createAbortError, isAbortError, isUnavailableError } from "./providerErrors";
+import {
+  DEFAULT_CIRCUIT_BREAKER,
+  DEFAULT_RETRY_POLICIES,
+  CircuitBreakerOptions,
+  GeminiTask,
+  ModelHealthRegistry,
+  RequestTimeoutError,
+  RetryPolicy,
+  computeBackoffMs,
+  createModelHealthRegistry,
+  isRetryableError,
+  parseRetryAfterMs,
+} from "./retryPolicy";
 
-// Support both standard API_KEY and GEMINI_API_KEY as requested
-const apiKey = process.env.API_KEY || (process.env as any).GEMINI_API_KEY;
-const ai = new GoogleGenAI({ apiKey: apiKey });
+export interface GeminiModelConfig {
+  visionPrimary: string;
+  visionFallback: string;
+  transcriptionPrimary: string;
+  transcriptionFallback: string;
+  speech: string;
+  live: string;
+  voiceName: string;
+}
+
+// Use Flash as primary for speed/stability, Pro as fallback or specialized
+export const DEFAULT_GEMINI_MODELS: GeminiModelConfig = {
+  visionPrimary: "gemini-2.5-flash",
+  visionFallback: "gemini-3-pro-preview",
+  transcriptionPrimary: "gemini-2.5-flash",
+  transcriptionFallback: "gemini-3-pro-preview",
+  speech: "gemini-2.5-flash-preview-tts",
+  live: "gemini-live-2.5-flash-preview",
+  voiceName: "Aoede",
+};
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  models?: Partial<GeminiModelConfig>;
+  retryPolicies?: Partial<Record<GeminiTask, Partial<RetryPolicy>>>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
 
 const SYSTEM_INSTRUCTION = `
 **Role:** SonarAI, a spatial navigation engine.
@@ -17,6 +70,48 @@ const SYSTEM_INSTRUCTION = `
 {"safety_status":"SAFE"|"CAUTION"|"STOP","reasoning_summary":"<Max 5 words>","navigation_command":"<Max 5 words>","stereo_pan":<float -1.0 to 1.0>,"visual_debug":{"hazards":[{"label":"string","box_2d":[ymin,xmin,ymax,xmax]}],"safe_path":[{"label":"string","box_2d":[ymin,xmin,ymax,xmax]}]}}
 `;
 
+const QA_SYSTEM_INSTRUCTION = `
+**Role:** SonarAI, answering a visually impaired user's question about the camera frame.
+**Task:** Answer the question fully and directly in one to three short sentences.
+1. **Reading:** When asked about text (signs, labels, prices, screens), quote it exactly in "ocr_text".
+2. **Grounding:** List the parts of the frame your answer refers to in "regions".
+3. **Honesty:** If the answer is not visible, say so and set a low confidence.
+**Constraint:** Return ONLY valid minified JSON. Do NOT use Markdown code blocks.
+
+**JSON OUTPUT FORMAT:**
+{"answer":"string","confidence":<float 0.0 to 1.0>,"regions":[{"label":"string","box_2d":[ymin,xmin,ymax,xmax]}],"ocr_text":"string"}
+`;
+
+const READ_SYSTEM_INSTRUCTION = `
+**Role:** SonarAI, reading text aloud for a visually impaired user.
+**Task:** Transcribe all legible text in the camera frame (signs, labels, screens, documents).
+1. **Blocks:** One block per line, sign or short paragraph, exactly as written, in reading order.
+2. **Position:** Give each block's box_2d.
+3. **Framing:** In "cut_off", list the frame edges ("left","right","top","bottom") a block runs past.
+4. **Translation:** Only when asked, add a "translation" for each block.
+**Constraint:** Return ONLY valid minified JSON. Do NOT use Markdown code blocks. Return {"blocks":[]} when no text is legible.
+
+**JSON OUTPUT FORMAT:**
+{"language":"string","blocks":[{"text":"string","translation":"string","box_2d":[ymin,xmin,ymax,xmax],"cut_off":["left"|"right"|"top"|"bottom"]}]}
+`;
+
+const LOCATE_SYSTEM_INSTRUCTION = `
+**Role:** SonarAI, helping a visually impaired user find an object.
+**Task:** Decide whether the requested object is visible in the camera frame and where.
+If several match, pick the nearest one. If it is not visible, set "found" to false.
+**Constraint:** Return ONLY valid minified JSON. Do NOT use Markdown code blocks.
+
+**JSON OUTPUT FORMAT:**
+{"found":true|false,"label":"string","box_2d":[ymin,xmin,ymax,xmax],"confidence":<float 0.0 to 1.0>}
+`;
+
+const LIVE_SYSTEM_INSTRUCTION = `
+**Role:** SonarAI, a conversational guide for a visually impaired user.
+You receive the user's voice and periodic camera frames of what is in front of them.
+Answer questions about the scene directly and briefly, mention hazards first, and use
+clock directions or left/right for positions. Remember earlier questions in this conversation.
+`;
+
 // Schema for structured output
 const schema = {
   type: Type.OBJECT,
@@ -54,148 +149,501 @@ const schema = {
   required: ["safety_status", "navigation_command", "stereo_pan", "visual_debug"],
 };
 
-// Helper to handle parsing and retries with logging
-const generateWithFallback = async (params: any, primaryModel: string, fallbackModel: string, taskName: string) => {
-    console.log(`[GeminiService] Starting ${taskName} with primary model: ${primaryModel}`);
-    try {
-        const response = await ai.models.generateContent({
-            model: primaryModel,
-            ...params
-        });
-        console.log(`[GeminiService] ${taskName} success with ${primaryModel}`);
-        return response;
-    } catch (error: any) {
-        console.warn(`[GeminiService] ${primaryModel} failed for ${taskName}. Status: ${error.status || 'Unknown'}, Message: ${error.message}`);
-        
-        // Retry on 429 (Quota) or 500 (Server Error)
-        if (error.status === 429 || error.status === 503 || error.status === 500 || error.message?.includes("429")) {
-            console.warn(`[GeminiService] Retrying ${taskName} with fallback model: ${fallbackModel}`);
+const qaSchema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    confidence: { type: Type.NUMBER },
+    regions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+        },
+      },
+    },
+    ocr_text: { type: Type.STRING },
+  },
+  required: ["answer", "confidence", "regions"],
+};
+
+const readSchema = {
+  type: Type.OBJECT,
+  properties: {
+    language: { type: Type.STRING },
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          translation: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          cut_off: { type: Type.ARRAY, items: { type: Type.STRING, enum: ["left", "right", "top", "bottom"] } },
+        },
+        required: ["text", "box_2d"],
+      },
+    },
+  },
+  required: ["blocks"],
+};
+
+const locateSchema = {
+  type: Type.OBJECT,
+  properties: {
+    found: { type: Type.BOOLEAN },
+    label: { type: Type.STRING },
+    box_2d: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+    confidence: { type: Type.NUMBER },
+  },
+  required: ["found"],
+};
+
+// Follow-up questions are answered in the context of the earlier ones
+const historyPreamble = (history?: QueryTurn[]): string => history?.length
+  ? `Earlier in this conversation:\n${formatHistoryPrompt(history)}\nResolve references like "it" or "there" using the conversation above.\n`
+  : "";
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    }, { once: true });
+});
+
+// Tries each model in order under the task's retry policy. Models whose circuit
+// is open are skipped; timeouts, 429s and 5xx are retried with backoff (or the
+// server's retry-after hint), anything else is thrown immediately. Aborting the
+// caller's signal cancels the in-flight attempt and any pending retry.
+const generateWithFallback = async (
+    ai: GoogleGenAI,
+    params: any,
+    modelChain: string[],
+    taskName: string,
+    policy: RetryPolicy,
+    health: ModelHealthRegistry,
+    signal?: AbortSignal
+) => {
+    let lastError: any = null;
+    if (signal?.aborted) throw createAbortError();
+
+    for (const model of modelChain) {
+        if (!health.canAttempt(model)) {
+            console.warn(`[GeminiService] Skipping ${model} for ${taskName}: circuit open`);
+            continue;
+        }
+        console.log(`[GeminiService] Starting ${taskName} with model: ${model}`);
+
+        for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+            const cancel = () => controller.abort();
+            signal?.addEventListener("abort", cancel);
+            const startedAt = Date.now();
             try {
-                const fallbackResponse = await ai.models.generateContent({
-                    model: fallbackModel,
-                    ...params
+                const response = await ai.models.generateContent({
+                    model,
+                    ...params,
+                    config: { ...params.config, abortSignal: controller.signal },
                 });
-                console.log(`[GeminiService] ${taskName} success with ${fallbackModel}`);
-                return fallbackResponse;
-            } catch (fallbackError: any) {
-                console.error(`[GeminiService] Fallback ${fallbackModel} also failed for ${taskName}.`, fallbackError);
-                throw fallbackError;
+                health.recordSuccess(model, Date.now() - startedAt);
+                console.log(`[GeminiService] ${taskName} success with ${model} in ${Date.now() - startedAt}ms`);
+                return response;
+            } catch (rawError: any) {
+                if (signal?.aborted) {
+                    console.log(`[GeminiService] ${taskName} cancelled`);
+                    throw createAbortError();
+                }
+                const error = controller.signal.aborted ? new RequestTimeoutError(model, policy.timeoutMs) : rawError;
+                const retryAfterMs = parseRetryAfterMs(error);
+                health.recordFailure(model, error, retryAfterMs);
+                lastError = error;
+                console.warn(`[GeminiService] ${model} failed for ${taskName} (attempt ${attempt + 1}). Status: ${error.status || 'Unknown'}, Message: ${error.message}`);
+
+                if (!isRetryableError(error)) throw error;
+                // Circuit just opened, or the server wants a longer pause than we can wait: move on
+                if (!health.canAttempt(model) || attempt === policy.maxRetries) break;
+                if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) break;
+
+                const delayMs = retryAfterMs ?? computeBackoffMs(policy, attempt);
+                console.warn(`[GeminiService] Retrying ${taskName} on ${model} in ${Math.round(delayMs)}ms`);
+                await sleep(delayMs, signal);
+            } finally {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", cancel);
             }
         }
-        throw error;
     }
+
+    if (!lastError) {
+        throw new ProviderUnavailableError(`All models cooling down for ${taskName}: ${modelChain.join(", ")}`);
+    }
+    console.error(`[GeminiService] All models failed for ${taskName}.`, lastError);
+    throw lastError;
 };
 
-export const analyzeFrame = async (base64Image: string, language: string = 'English', customPrompt?: string): Promise<SonarResponse> => {
-  try {
-    console.log(`[GeminiService] analyzeFrame called. Image size: ${Math.round(base64Image.length / 1024)}KB`);
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): SonarProvider => {
+  // Support both standard API_KEY and GEMINI_API_KEY as requested
+  const apiKey = options.apiKey || process.env.API_KEY || (process.env as any).GEMINI_API_KEY;
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+  const models: GeminiModelConfig = { ...DEFAULT_GEMINI_MODELS, ...options.models };
+  const policyFor = (task: GeminiTask): RetryPolicy => ({ ...DEFAULT_RETRY_POLICIES[task], ...options.retryPolicies?.[task] });
+  const health = createModelHealthRegistry({ ...DEFAULT_CIRCUIT_BREAKER, ...options.circuitBreaker });
+
+  const analyzeFrame = async (base64Image: string, language: string = 'English', customPrompt?: string, options: AnalyzeOptions = {}): Promise<SonarResponse> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    try {
+      console.log(`[GeminiService] analyzeFrame called. Image size: ${Math.round(base64Image.length / 1024)}KB`);
     
-    const langInstruction = `Output in ${language}.`;
-    const prompt = customPrompt 
-      ? `${customPrompt} ${langInstruction}`
-      : `Perform deep reasoning: Check safety, read signs, find safe path. ${langInstruction}`;
+      const langInstruction = `Output in ${language}.`;
+      const basePrompt = customPrompt 
+        ? `${customPrompt} ${langInstruction}`
+        : `Perform deep reasoning: Check safety, read signs, find safe path. ${langInstruction}`;
+      const prompt = `${historyPreamble(options.history)}${basePrompt}`;
     
-    const requestParams = {
-      contents: {
-        parts: [
-          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: SYSTEM_INSTRUCTION,
-      },
-    };
+      const requestParams = {
+        contents: {
+          parts: [
+            { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction: SYSTEM_INSTRUCTION,
+        },
+      };
+
+      const response = await generateWithFallback(ai, requestParams, [models.visionPrimary, models.visionFallback], "Image Analysis", policyFor("analysis"), health, options.signal);
 
-    // Use Flash as primary for speed/stability, Pro as fallback or specialized
-    // Changing primary to Flash to reduce 500 errors and latency
-    const response = await generateWithFallback(requestParams, "gemini-2.5-flash", "gemini-3-pro-preview", "Image Analysis");
-
-    if (response.text) {
-      console.log(`[GeminiService] Raw Analysis Response:`, response.text.substring(0, 100) + "...");
-      // Robust cleaning just in case model ignores "No Markdown" instruction or wraps it
-      let cleanText = response.text.replace(/```json/g, "").replace(/```/g, "").trim();
-      try {
-          const parsed = JSON.parse(cleanText) as SonarResponse;
-          return parsed;
-      } catch (e) {
-          console.error(`[GeminiService] JSON Parse Error. Raw text:`, response.text);
-          throw e;
+      if (response.text) {
+        console.log(`[GeminiService] Raw Analysis Response:`, response.text.substring(0, 100) + "...");
+        // Robust cleaning just in case model ignores "No Markdown" instruction or wraps it
+        let cleanText = response.text.replace(/```json/g, "").replace(/```/g, "").trim();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(cleanText);
+        } catch (e) {
+            console.error(`[GeminiService] JSON Parse Error. Raw text:`, response.text);
+            throw e;
+        }
+        const { response: validated, repairs } = validateSonarResponse(parsed);
+        if (repairs.length) {
+            console.warn(`[GeminiService] Repaired analysis response:`, repairs);
+        }
+        if (!validated) {
+            throw new Error(`Unusable analysis response: ${repairs.join('; ')}`);
+        }
+        return { ...validated, captured_at: capturedAt };
+      }
+      throw new Error("No response text received from Gemini");
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] Final Analyze Error:", error);
+      // Connectivity / quota failures are surfaced so the app can switch to offline guidance
+      if (isUnavailableError(error)) {
+        throw new ProviderUnavailableError(`Gemini unavailable: ${error?.message ?? error}`, error?.status, { cause: error });
       }
+      throw new ProviderResponseError(`Unusable analysis: ${error?.message ?? error}`, { cause: error });
     }
-    throw new Error("No response text received from Gemini");
-  } catch (error) {
-    console.error("[GeminiService] Final Analyze Error:", error);
-    // Fallback safety response
-    return {
-      safety_status: "STOP",
-      reasoning_summary: "AI Error. Proceed with caution.",
-      navigation_command: "Stop.",
-      stereo_pan: 0,
-      visual_debug: { hazards: [], safe_path: [] },
-    };
-  }
-};
+  };
+
+  const askAboutScene = async (base64Image: string, question: string, language: string = 'English', options: AnalyzeOptions = {}): Promise<SceneAnswer> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    try {
+      console.log(`[GeminiService] askAboutScene called: "${question}"`);
 
-export const transcribeAudio = async (audioBase64: string, mimeType: string, language: string = 'English'): Promise<string> => {
-  try {
-    // Sanitize MIME type (remove codecs, e.g., "audio/webm;codecs=opus" -> "audio/webm")
-    // The API often throws 500 if specific codecs are passed in the MIME string
-    const cleanMimeType = mimeType.split(';')[0];
+      const requestParams = {
+        contents: {
+          parts: [
+            { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+            { text: `${historyPreamble(options.history)}Question: "${question}" Answer in ${language}.` },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: qaSchema,
+          systemInstruction: QA_SYSTEM_INSTRUCTION,
+        },
+      };
+
+      const response = await generateWithFallback(ai, requestParams, [models.visionPrimary, models.visionFallback], "Scene Question", policyFor("question"), health, options.signal);
+
+      if (response.text) {
+        const cleanText = response.text.replace(/```json/g, "").replace(/```/g, "").trim();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(cleanText);
+        } catch (e) {
+            console.error(`[GeminiService] JSON Parse Error. Raw text:`, response.text);
+            throw e;
+        }
+        const { answer, repairs } = validateSceneAnswer(parsed);
+        if (repairs.length) {
+            console.warn(`[GeminiService] Repaired scene answer:`, repairs);
+        }
+        if (!answer) {
+            throw new Error(`Unusable scene answer: ${repairs.join('; ')}`);
+        }
+        return { ...answer, captured_at: capturedAt };
+      }
+      throw new Error("No response text received from Gemini");
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] Final Scene Question Error:", error);
+      if (isUnavailableError(error)) {
+        throw new ProviderUnavailableError(`Gemini unavailable: ${error?.message ?? error}`, error?.status, { cause: error });
+      }
+      throw new ProviderResponseError(`Unusable scene answer: ${error?.message ?? error}`, { cause: error });
+    }
+  };
+
+  const readText = async (base64Image: string, options: ReadTextOptions = {}): Promise<TextReading> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    try {
+      console.log(`[GeminiService] readText called${options.translateTo ? `, translating to ${options.translateTo}` : ''}`);
+
+      const requestParams = {
+        contents: {
+          parts: [
+            { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+            { text: options.translateTo
+                ? `Read all text. Translate each block into ${options.translateTo}.`
+                : "Read all text exactly as written. Do not translate." },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: readSchema,
+          systemInstruction: READ_SYSTEM_INSTRUCTION,
+        },
+      };
+
+      const response = await generateWithFallback(ai, requestParams, [models.visionPrimary, models.visionFallback], "Text Reading", policyFor("question"), health, options.signal);
+
+      if (response.text) {
+        const cleanText = response.text.replace(/```json/g, "").replace(/```/g, "").trim();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(cleanText);
+        } catch (e) {
+            console.error(`[GeminiService] JSON Parse Error. Raw text:`, response.text);
+            throw e;
+        }
+        const { reading, repairs } = validateTextReading(parsed);
+        if (repairs.length) {
+            console.warn(`[GeminiService] Repaired text reading:`, repairs);
+        }
+        if (!reading) {
+            throw new Error(`Unusable text reading: ${repairs.join('; ')}`);
+        }
+        return { ...reading, captured_at: capturedAt };
+      }
+      throw new Error("No response text received from Gemini");
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] Final Text Reading Error:", error);
+      if (isUnavailableError(error)) {
+        throw new ProviderUnavailableError(`Gemini unavailable: ${error?.message ?? error}`, error?.status, { cause: error });
+      }
+      // Nothing read; the reading loop simply tries the next frame
+      return { blocks: [], captured_at: capturedAt };
+    }
+  };
+
+  const locateObject = async (base64Image: string, target: string, options: AnalyzeOptions = {}): Promise<ObjectLocation | null> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    try {
+      console.log(`[GeminiService] locateObject called: "${target}"`);
+
+      const requestParams = {
+        contents: {
+          parts: [
+            { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+            { text: `Find: "${target}".` },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: locateSchema,
+          systemInstruction: LOCATE_SYSTEM_INSTRUCTION,
+        },
+      };
+
+      // Homing needs quick answers: same budget as scan analysis
+      const response = await generateWithFallback(ai, requestParams, [models.visionPrimary, models.visionFallback], "Object Search", policyFor("analysis"), health, options.signal);
+
+      if (response.text) {
+        const cleanText = response.text.replace(/```json/g, "").replace(/```/g, "").trim();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(cleanText);
+        } catch (e) {
+            console.error(`[GeminiService] JSON Parse Error. Raw text:`, response.text);
+            throw e;
+        }
+        const { location, repairs } = validateObjectLocation(parsed, target);
+        if (repairs.length) {
+            console.warn(`[GeminiService] Repaired object location:`, repairs);
+        }
+        return location ? { ...location, captured_at: capturedAt } : null;
+      }
+      throw new Error("No response text received from Gemini");
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] Final Object Search Error:", error);
+      if (isUnavailableError(error)) {
+        throw new ProviderUnavailableError(`Gemini unavailable: ${error?.message ?? error}`, error?.status, { cause: error });
+      }
+      return null;
+    }
+  };
+
+  const transcribeAudio = async (audioBase64: string, mimeType: string, language: string = 'English', options: RequestOptions = {}): Promise<string> => {
+    try {
+      // Sanitize MIME type (remove codecs, e.g., "audio/webm;codecs=opus" -> "audio/webm")
+      // The API often throws 500 if specific codecs are passed in the MIME string
+      const cleanMimeType = mimeType.split(';')[0];
     
-    console.log(`[GeminiService] transcribeAudio called. Original Mime: ${mimeType}, Clean Mime: ${cleanMimeType}, Size: ${Math.round(audioBase64.length / 1024)}KB`);
-
-    const requestParams = {
-      contents: {
-        parts: [
-          { inlineData: { mimeType: cleanMimeType, data: audioBase64 } },
-          { text: `Transcribe this audio strictly. Language: ${language}. Return only the transcription text.` },
-        ],
-      },
-    };
+      console.log(`[GeminiService] transcribeAudio called. Original Mime: ${mimeType}, Clean Mime: ${cleanMimeType}, Size: ${Math.round(audioBase64.length / 1024)}KB`);
+
+      const requestParams = {
+        contents: {
+          parts: [
+            { inlineData: { mimeType: cleanMimeType, data: audioBase64 } },
+            { text: `Transcribe this audio strictly. Language: ${language}. Return only the transcription text.` },
+          ],
+        },
+      };
 
-    // Using Flash for transcription as it is more stable for audio
-    const response = await generateWithFallback(requestParams, "gemini-2.5-flash", "gemini-3-pro-preview", "Audio Transcription");
+      // Using Flash for transcription as it is more stable for audio
+      const response = await generateWithFallback(ai, requestParams, [models.transcriptionPrimary, models.transcriptionFallback], "Audio Transcription", policyFor("transcription"), health, options.signal);
     
-    const text = response.text || "";
-    console.log(`[GeminiService] Transcription Result: "${text}"`);
-    return text;
-  } catch (error) {
-    console.error("[GeminiService] Transcription Final Error:", error);
-    return "";
-  }
-};
+      const text = response.text || "";
+      console.log(`[GeminiService] Transcription Result: "${text}"`);
+      return text;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] Transcription Final Error:", error);
+      return "";
+    }
+  };
 
-export const generateSpeech = async (text: string): Promise<string | null> => {
-  try {
-    console.log(`[GeminiService] generateSpeech called for text: "${text.substring(0, 20)}..."`);
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts", 
-      contents: {
-        parts: [{ text: text }],
-      },
+  const generateSpeech = async (text: string, options: RequestOptions = {}): Promise<string | null> => {
+    try {
+      console.log(`[GeminiService] generateSpeech called for text: "${text.substring(0, 20)}..."`);
+      const response = await generateWithFallback(ai, {
+        contents: {
+          parts: [{ text: text }],
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: models.voiceName },
+            },
+          },
+        },
+      }, [models.speech], "Speech Synthesis", policyFor("speech"), health, options.signal);
+
+      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (audioData) {
+          console.log(`[GeminiService] TTS Success. Audio data length: ${audioData.length}`);
+          return audioData;
+      } else {
+          console.warn(`[GeminiService] TTS returned no inline data.`);
+          return null;
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error("[GeminiService] TTS Error:", error);
+      return null;
+    }
+  };
+
+  // Live API session: audio in/out with server-side voice activity detection,
+  // so interruptions are detected by the server and reported via `interrupted`
+  const connectLive = async (sessionOptions: LiveSessionOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession> => {
+    console.log(`[GeminiService] Connecting live session with ${models.live}`);
+    let answerText = "";
+    let answering = false; // a model turn is streaming
+    // After a local barge-in, the rest of the interrupted turn is still streaming in; drop it
+    let discardingTurn = false;
+
+    const session = await ai.live.connect({
+      model: models.live,
       config: {
         responseModalities: [Modality.AUDIO],
+        systemInstruction: `${LIVE_SYSTEM_INSTRUCTION} Respond in ${sessionOptions.language}.`,
         speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: "Aoede" },
-          },
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: models.voiceName } },
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+      callbacks: {
+        onmessage: message => {
+          const content = message.serverContent;
+          if (!content) return;
+          if (content.interrupted) {
+            answerText = "";
+            answering = discardingTurn = false;
+            callbacks.onInterrupted();
+          }
+          if (content.inputTranscription?.text) {
+            callbacks.onUserTranscript?.(content.inputTranscription.text);
+          }
+          if (discardingTurn) {
+            if (content.turnComplete) answering = discardingTurn = false;
+            return;
+          }
+          content.modelTurn?.parts?.forEach(part => {
+            if (part.inlineData?.data) {
+              answering = true;
+              callbacks.onAudio(part.inlineData.data);
+            }
+          });
+          if (content.outputTranscription?.text) {
+            answering = true;
+            answerText += content.outputTranscription.text;
+            callbacks.onText(answerText, false);
+          }
+          if (content.turnComplete) {
+            callbacks.onText(answerText, true);
+            answerText = "";
+            answering = false;
+            callbacks.onTurnComplete();
+          }
+        },
+        onerror: e => {
+          console.error("[GeminiService] Live session error", e);
+          callbacks.onError(e.error ?? e);
+        },
+        onclose: () => {
+          console.log("[GeminiService] Live session closed");
+          callbacks.onClose();
         },
       },
     });
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (audioData) {
-        console.log(`[GeminiService] TTS Success. Audio data length: ${audioData.length}`);
-        return audioData;
-    } else {
-        console.warn(`[GeminiService] TTS returned no inline data.`);
-        return null;
-    }
-  } catch (error) {
-    console.error("[GeminiService] TTS Error:", error);
-    return null;
-  }
-};
\ No newline at end of file
+    return {
+      producesAudio: true,
+      sendAudio: data => session.sendRealtimeInput({ audio: { data, mimeType: "audio/pcm;rate=16000" } }),
+      sendFrame: data => session.sendRealtimeInput({ video: { data, mimeType: "image/jpeg" } }),
+      sendText: text => session.sendClientContent({ turns: text, turnComplete: true }),
+      // The server detects barge-in from the audio stream itself; until it does, drop the partial answer
+      // and any audio still arriving for it
+      interrupt: () => {
+        answerText = "";
+        discardingTurn = answering;
+      },
+      close: () => session.close(),
+    };
+  };
+
+  return { name: "gemini", analyzeFrame, askAboutScene, readText, locateObject, transcribeAudio, generateSpeech, speechVoiceId: `${models.speech}/${models.voiceName}`, connectLive, getHealth: health.getHealth };
+};
@@ -0,0 +1,201 @@
+import {
+  SonarResponse,
+  SceneAnswer,
+  ObjectLocation,
+  TextReading,
+  ReadTextOptions,
+  SonarProvider,
+  AnalyzeOptions,
+  RequestOptions,
+  LiveSession,
+  LiveSessionCallbacks,
+  LiveSessionOptions,
+} from "../types";
+import { createAbortError } from "./providerErrors";
+import { decodePcm16, rms } from "../utils/audioUtils";
+import { SONAR_FIXTURES, SCENE_ANSWER_FIXTURES, TEXT_READING_FIXTURES, OBJECT_LOCATION_FIXTURES, TRANSCRIPT_FIXTURES, LIVE_CONVERSATION_FIXTURES } from "../fixtures/sonarFixtures";
+
+export interface MockProviderOptions {
+  responses?: SonarResponse[];
+  answers?: SceneAnswer[];
+  readings?: TextReading[];
+  locations?: (ObjectLocation | null)[];
+  transcripts?: string[];
+  conversation?: { question: string; answer: string }[];
+  // Simulated network latency so loading states in App.tsx stay visible
+  latencyMs?: number;
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  }, { once: true });
+});
+
+// Deterministic offline provider: replays fixtures in order and wraps around.
+export const createMockProvider = (options: MockProviderOptions = {}): SonarProvider => {
+  const responses = options.responses ?? SONAR_FIXTURES;
+  const answers = options.answers ?? SCENE_ANSWER_FIXTURES;
+  const readings = options.readings ?? TEXT_READING_FIXTURES;
+  const locations = options.locations ?? OBJECT_LOCATION_FIXTURES;
+  const transcripts = options.transcripts ?? TRANSCRIPT_FIXTURES;
+  const latencyMs = options.latencyMs ?? 400;
+  let frameIndex = 0;
+  let answerIndex = 0;
+  let readingIndex = 0;
+  let locationIndex = 0;
+  let lastTarget: string | null = null;
+  let transcriptIndex = 0;
+
+  const analyzeFrame = async (base64Image: string, language: string = 'English', customPrompt?: string, options: AnalyzeOptions = {}): Promise<SonarResponse> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    console.log(`[MockService] analyzeFrame #${frameIndex} (${language})${customPrompt ? ` prompt: ${customPrompt}` : ''}${options.history?.length ? ` with ${options.history.length} earlier turns` : ''}`);
+    await delay(latencyMs, options.signal);
+    const fixture = responses[frameIndex % responses.length];
+    frameIndex++;
+    // Return a copy so callers can't mutate the recorded fixture
+    return { ...JSON.parse(JSON.stringify(fixture)), captured_at: capturedAt } as SonarResponse;
+  };
+
+  const askAboutScene = async (base64Image: string, question: string, language: string = 'English', options: AnalyzeOptions = {}): Promise<SceneAnswer> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    console.log(`[MockService] askAboutScene #${answerIndex} (${language}): "${question}"`);
+    await delay(latencyMs, options.signal);
+    const fixture = answers[answerIndex % answers.length];
+    answerIndex++;
+    return { ...JSON.parse(JSON.stringify(fixture)), captured_at: capturedAt } as SceneAnswer;
+  };
+
+  // Fixtures carry no translations; translated reads are tagged so the flow is visible
+  const readText = async (base64Image: string, options: ReadTextOptions = {}): Promise<TextReading> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    console.log(`[MockService] readText #${readingIndex}${options.translateTo ? ` -> ${options.translateTo}` : ''}`);
+    await delay(latencyMs, options.signal);
+    const fixture: TextReading = JSON.parse(JSON.stringify(readings[readingIndex % readings.length]));
+    readingIndex++;
+    if (options.translateTo) {
+      fixture.blocks.forEach(block => { block.translation = `[${options.translateTo}] ${block.text}`; });
+    }
+    return { ...fixture, captured_at: capturedAt };
+  };
+
+  // Whatever the target, the fixture sequence approaches it and then stays in reach;
+  // a new target restarts the sequence
+  const locateObject = async (base64Image: string, target: string, options: AnalyzeOptions = {}): Promise<ObjectLocation | null> => {
+    const capturedAt = options.capturedAt ?? Date.now();
+    if (target !== lastTarget) {
+      lastTarget = target;
+      locationIndex = 0;
+    }
+    console.log(`[MockService] locateObject #${locationIndex}: "${target}"`);
+    await delay(latencyMs, options.signal);
+    const fixture = locations[Math.min(locationIndex, locations.length - 1)];
+    locationIndex++;
+    return fixture ? { ...JSON.parse(JSON.stringify(fixture)), label: target, captured_at: capturedAt } : null;
+  };
+
+  const transcribeAudio = async (audioBase64: string, mimeType: string, language: string = 'English', options: RequestOptions = {}): Promise<string> => {
+    console.log(`[MockService] transcribeAudio called. Mime: ${mimeType}, Language: ${language}`);
+    await delay(latencyMs, options.signal);
+    const text = transcripts.length ? transcripts[transcriptIndex % transcripts.length] : "";
+    transcriptIndex++;
+    return text;
+  };
+
+  // No recorded audio: returning null makes App fall back to browser speechSynthesis
+  const generateSpeech = async (text: string, options: RequestOptions = {}): Promise<string | null> => {
+    if (options.signal?.aborted) throw createAbortError();
+    console.log(`[MockService] generateSpeech skipped for text: "${text.substring(0, 20)}..."`);
+    return null;
+  };
+
+  // Fake streaming session: a crude energy VAD ends the user's turn after a pause,
+  // then the next scripted answer is streamed back word by word. Text only, so
+  // the app voices it with speechSynthesis. This runs in-process in place of the
+  // Gemini provider's connectLive: it exercises conversationSession and the UI, not
+  // the WebSocket transport or the Live message handling, which remain untested.
+  const connectLive = async (sessionOptions: LiveSessionOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession> => {
+    const conversation = options.conversation ?? LIVE_CONVERSATION_FIXTURES;
+    const history: string[] = [];
+    let turnIndex = 0;
+    let userSpeaking = false;
+    let lastVoiceAt = 0;
+    let streamTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+    console.log(`[MockService] Live session opened (${sessionOptions.language})`);
+
+    const cancelStream = () => {
+      if (streamTimer) clearTimeout(streamTimer);
+      streamTimer = null;
+    };
+
+    const answer = (question: string) => {
+      if (!conversation.length) return;
+      cancelStream();
+      const scripted = conversation[turnIndex % conversation.length];
+      turnIndex++;
+      callbacks.onUserTranscript?.(question);
+      // Show that earlier turns are remembered
+      const recall = history.length ? ` (Earlier you asked: "${history[history.length - 1]}")` : "";
+      history.push(question);
+      const words = `${scripted.answer}${recall}`.split(" ");
+      let i = 0;
+      const streamNext = () => {
+        i++;
+        const text = words.slice(0, i).join(" ");
+        if (i >= words.length) {
+          streamTimer = null;
+          callbacks.onText(text, true);
+          callbacks.onTurnComplete();
+          return;
+        }
+        callbacks.onText(text, false);
+        streamTimer = setTimeout(streamNext, 120);
+      };
+      streamTimer = setTimeout(streamNext, latencyMs);
+    };
+
+    return {
+      producesAudio: false,
+      sendAudio: data => {
+        if (closed) return;
+        const level = rms(decodePcm16(data));
+        const now = Date.now();
+        if (level > 0.03) {
+          if (!userSpeaking && streamTimer) {
+            // Barge-in: the user talks over the answer
+            cancelStream();
+            callbacks.onInterrupted();
+          }
+          userSpeaking = true;
+          lastVoiceAt = now;
+        } else if (userSpeaking && now - lastVoiceAt > 700) {
+          userSpeaking = false;
+          answer(conversation[turnIndex % conversation.length]?.question ?? "");
+        }
+      },
+      sendFrame: data => {
+        if (!closed) console.log(`[MockService] Live frame received (${Math.round(data.length / 1024)}KB)`);
+      },
+      sendText: text => {
+        if (!closed) answer(text);
+      },
+      interrupt: () => {
+        if (!streamTimer) return;
+        cancelStream();
+        callbacks.onInterrupted();
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        cancelStream();
+        callbacks.onClose();
+      },
+    };
+  };
+
+  return { name: "mock", analyzeFrame, askAboutScene, readText, locateObject, transcribeAudio, generateSpeech, connectLive };
+};
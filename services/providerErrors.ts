@@ -0,0 +1,38 @@
+import { RequestTimeoutError } from "./retryPolicy";
+
+// Raised by providers when the backend can't be reached or refuses work (network
+// down, quota exhausted, persistent 5xx). App switches to offline guidance on it.
+export class ProviderUnavailableError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ProviderUnavailableError";
+    this.status = status;
+  }
+}
+
+// Raised when the backend answered but nothing usable came back (malformed or invalid
+// payload). Carries no user-facing text; App speaks its own message in the active language.
+export class ProviderResponseError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ProviderResponseError";
+  }
+}
+
+const UNAVAILABLE_STATUSES = [429, 500, 502, 503, 504];
+const UNAVAILABLE_PATTERNS = ["429", "quota", "resource_exhausted", "failed to fetch", "networkerror", "network error", "load failed"];
+
+// Distinguishes connectivity/quota failures from bad payloads or programming errors
+export const isUnavailableError = (error: any): boolean => {
+  if (error instanceof ProviderUnavailableError || error instanceof RequestTimeoutError) return true;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  if (UNAVAILABLE_STATUSES.includes(error?.status)) return true;
+  const message = String(error?.message ?? "").toLowerCase();
+  return UNAVAILABLE_PATTERNS.some(pattern => message.includes(pattern));
+};
+
+export const createAbortError = () => new DOMException("Request aborted", "AbortError");
+
+export const isAbortError = (error: any): boolean => error?.name === "AbortError";
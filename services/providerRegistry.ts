@@ -0,0 +1,36 @@
+import { SonarProvider } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockService";
+
+export type ProviderName = 'gemini' | 'mock';
+
+const factories: Record<ProviderName, () => SonarProvider> = {
+  gemini: () => createGeminiProvider(),
+  mock: () => createMockProvider(),
+};
+
+let activeProvider: SonarProvider | null = null;
+
+// Resolution order: ?provider= URL param, SONAR_PROVIDER env, then Gemini
+const resolveProviderName = (): ProviderName => {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  const requested = fromUrl || (process.env as any).SONAR_PROVIDER;
+  return requested && Object.hasOwn(factories, requested) ? requested as ProviderName : 'gemini';
+};
+
+export const getProvider = (): SonarProvider => {
+  if (!activeProvider) {
+    const name = resolveProviderName();
+    console.log(`[ProviderRegistry] Using provider: ${name}`);
+    activeProvider = factories[name]();
+  }
+  return activeProvider;
+};
+
+// Swap the backend at runtime (tests, dev tools, future providers)
+export const setProvider = (provider: SonarProvider) => {
+  console.log(`[ProviderRegistry] Provider set to: ${provider.name}`);
+  activeProvider = provider;
+};
@@ -0,0 +1,127 @@
+import { CircuitState, ModelHealth } from "../types";
+
+export interface RetryPolicy {
+  // Per-attempt timeout
+  timeoutMs: number;
+  // Extra attempts on the same model after the first one
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // 0-1, fraction of the backoff delay randomized to avoid synchronized retries
+  jitter: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive retryable failures (429/5xx/timeouts) that open the circuit
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export type GeminiTask = "analysis" | "question" | "transcription" | "speech";
+
+// Tuned for the scan cadence: analysis must finish well inside a cycle, and a
+// retry is only worth it if it can still return a fresh answer.
+export const DEFAULT_RETRY_POLICIES: Record<GeminiTask, RetryPolicy> = {
+  analysis: { timeoutMs: 10000, maxRetries: 1, baseDelayMs: 500, maxDelayMs: 4000, jitter: 0.3 },
+  // The user is waiting on a voice answer, not a scan cycle: allow a longer, more detailed reply
+  question: { timeoutMs: 15000, maxRetries: 1, baseDelayMs: 500, maxDelayMs: 4000, jitter: 0.3 },
+  transcription: { timeoutMs: 15000, maxRetries: 1, baseDelayMs: 500, maxDelayMs: 4000, jitter: 0.3 },
+  speech: { timeoutMs: 8000, maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, jitter: 0 },
+};
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = { failureThreshold: 3, cooldownMs: 60000 };
+
+export class RequestTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`${model} timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  if ([408, 429, 500, 502, 503, 504].includes(error?.status)) return true;
+  const message = String(error?.message ?? "").toLowerCase();
+  return message.includes("429") || message.includes("resource_exhausted") || message.includes("failed to fetch");
+};
+
+// Reads server hints like `"retryDelay": "13s"` or `Retry-After: 5` from an error
+export const parseRetryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.get?.("retry-after") ?? error?.headers?.["retry-after"];
+  const source = header != null ? `retry-after: ${header}` : String(error?.message ?? "");
+  const match = source.match(/retry[-_ ]?(?:after|delay)["'\s:=]+(\d+(?:\.\d+)?)\s*(ms|s)?/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === "ms" ? value : value * 1000;
+};
+
+export const computeBackoffMs = (policy: RetryPolicy, attempt: number): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const spread = exponential * policy.jitter;
+  return Math.max(0, exponential - spread + Math.random() * spread * 2);
+};
+
+export interface ModelHealthRegistry {
+  // false while the model's circuit is open; allows one trial request once the cool-down ends
+  canAttempt(model: string, now?: number): boolean;
+  recordSuccess(model: string, latencyMs: number): void;
+  // retryAfterMs extends the cool-down when the server asks for a longer pause
+  recordFailure(model: string, error: any, retryAfterMs?: number | null, now?: number): void;
+  getHealth(): ModelHealth[];
+}
+
+export const createModelHealthRegistry = (breaker: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER): ModelHealthRegistry => {
+  const stats = new Map<string, ModelHealth>();
+
+  const get = (model: string): ModelHealth => {
+    let entry = stats.get(model);
+    if (!entry) {
+      entry = { model, successes: 0, failures: 0, consecutiveFailures: 0, avgLatencyMs: null, lastError: null, circuit: "closed", circuitOpenUntil: null };
+      stats.set(model, entry);
+    }
+    return entry;
+  };
+
+  const circuitState = (entry: ModelHealth, now: number): CircuitState => {
+    if (entry.circuitOpenUntil === null) return "closed";
+    return now < entry.circuitOpenUntil ? "open" : "half-open";
+  };
+
+  const canAttempt = (model: string, now = Date.now()) => {
+    const entry = get(model);
+    entry.circuit = circuitState(entry, now);
+    return entry.circuit !== "open";
+  };
+
+  const recordSuccess = (model: string, latencyMs: number) => {
+    const entry = get(model);
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.avgLatencyMs = entry.avgLatencyMs === null ? latencyMs : Math.round(entry.avgLatencyMs * 0.8 + latencyMs * 0.2);
+    entry.circuit = "closed";
+    entry.circuitOpenUntil = null;
+  };
+
+  const recordFailure = (model: string, error: any, retryAfterMs: number | null = null, now = Date.now()) => {
+    const entry = get(model);
+    entry.failures++;
+    entry.lastError = String(error?.message ?? error).substring(0, 200);
+    if (!isRetryableError(error)) return;
+
+    entry.consecutiveFailures++;
+    // A failed half-open trial re-opens immediately
+    const wasHalfOpen = circuitState(entry, now) === "half-open";
+    if (wasHalfOpen || entry.consecutiveFailures >= breaker.failureThreshold || (retryAfterMs ?? 0) > breaker.cooldownMs) {
+      entry.circuitOpenUntil = now + Math.max(breaker.cooldownMs, retryAfterMs ?? 0);
+      entry.circuit = "open";
+      console.warn(`[RetryPolicy] Circuit open for ${model} until ${new Date(entry.circuitOpenUntil).toLocaleTimeString()}`);
+    }
+  };
+
+  const getHealth = () => {
+    const now = Date.now();
+    return [...stats.values()].map(entry => ({ ...entry, circuit: circuitState(entry, now) }));
+  };
+
+  return { canAttempt, recordSuccess, recordFailure, getHealth };
+};
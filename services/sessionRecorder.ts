@@ -0,0 +1,76 @@
+import { SessionEvent, SessionSummary } from "../types";
+import { appendEvents, saveSession } from "./sessionStore";
+
+export interface SessionRecorderOptions {
+  // Detections arrive every animation frame; keep at most one per interval
+  detectionIntervalMs?: number;
+  // Buffered events are written to IndexedDB in batches
+  flushIntervalMs?: number;
+}
+
+export interface SessionRecorder {
+  start(language: string, provider: string): string;
+  record(event: SessionEvent): void;
+  stop(): Promise<SessionSummary | null>;
+  isRecording(): boolean;
+}
+
+export const createSessionRecorder = (options: SessionRecorderOptions = {}): SessionRecorder => {
+  const detectionIntervalMs = options.detectionIntervalMs ?? 200;
+  const flushIntervalMs = options.flushIntervalMs ?? 2000;
+
+  let session: SessionSummary | null = null;
+  let buffer: SessionEvent[] = [];
+  let lastDetectionAt = 0;
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  const flush = async () => {
+    if (!session || buffer.length === 0) return;
+    const batch = buffer;
+    buffer = [];
+    try {
+      await appendEvents(session.id, batch);
+    } catch (e) {
+      console.error("[SessionRecorder] Failed to write events", e);
+    }
+  };
+
+  const start = (language: string, provider: string) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    session = { id, startedAt: Date.now(), language, provider, eventCount: 0 };
+    buffer = [];
+    lastDetectionAt = 0;
+    saveSession(session).catch(e => console.error("[SessionRecorder] Failed to save session", e));
+    flushTimer = setInterval(flush, flushIntervalMs);
+    console.log(`[SessionRecorder] Recording session ${id}`);
+    return id;
+  };
+
+  const record = (event: SessionEvent) => {
+    if (!session) return;
+    if (event.kind === 'detections') {
+      if (event.timestamp - lastDetectionAt < detectionIntervalMs) return;
+      lastDetectionAt = event.timestamp;
+    }
+    buffer.push(event);
+    session.eventCount++;
+  };
+
+  const stop = async () => {
+    if (!session) return null;
+    if (flushTimer) clearInterval(flushTimer);
+    flushTimer = null;
+    await flush();
+    const finished: SessionSummary = { ...session, endedAt: Date.now() };
+    session = null;
+    try {
+      await saveSession(finished);
+    } catch (e) {
+      console.error("[SessionRecorder] Failed to finalize session", e);
+    }
+    console.log(`[SessionRecorder] Stopped session ${finished.id} (${finished.eventCount} events)`);
+    return finished;
+  };
+
+  return { start, record, stop, isRecording: () => session !== null };
+};
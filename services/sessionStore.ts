@@ -0,0 +1,101 @@
+import { SessionArchive, SessionEvent, SessionSummary } from "../types";
+
+const DB_NAME = "sonarai-sessions";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const EVENTS_STORE = "events";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+          const events = db.createObjectStore(EVENTS_STORE, { autoIncrement: true });
+          events.createIndex("sessionId", "sessionId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("[SessionStore] Failed to open IndexedDB", request.error);
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a request in a promise, resolving when its transaction completes
+const run = <T>(storeNames: string[], mode: IDBTransactionMode, body: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+export const saveSession = (session: SessionSummary) =>
+  run([SESSIONS_STORE], "readwrite", tx => tx.objectStore(SESSIONS_STORE).put(session));
+
+export const appendEvents = (sessionId: string, events: SessionEvent[]) =>
+  run<void>([EVENTS_STORE], "readwrite", tx => {
+    const store = tx.objectStore(EVENTS_STORE);
+    events.forEach(event => store.add({ sessionId, event }));
+  });
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await run<SessionSummary[]>([SESSIONS_STORE], "readonly", tx => tx.objectStore(SESSIONS_STORE).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadSession = async (sessionId: string): Promise<SessionArchive | null> => {
+  const session = await run<SessionSummary | undefined>([SESSIONS_STORE], "readonly", tx => tx.objectStore(SESSIONS_STORE).get(sessionId));
+  if (!session) return null;
+  const rows = await run<{ sessionId: string; event: SessionEvent }[]>([EVENTS_STORE], "readonly", tx =>
+    tx.objectStore(EVENTS_STORE).index("sessionId").getAll(sessionId)
+  );
+  return { version: 1, session, events: rows.map(row => row.event) };
+};
+
+export const deleteSession = (sessionId: string) =>
+  run<void>([SESSIONS_STORE, EVENTS_STORE], "readwrite", tx => {
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    const cursorRequest = tx.objectStore(EVENTS_STORE).index("sessionId").openKeyCursor(IDBKeyRange.only(sessionId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        tx.objectStore(EVENTS_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  });
+
+// Downloads a session as a single JSON archive file
+export const exportSession = async (sessionId: string) => {
+  const archive = await loadSession(sessionId);
+  if (!archive) throw new Error(`Session ${sessionId} not found`);
+  const blob = new Blob([JSON.stringify(archive)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `sonar-session-${new Date(archive.session.startedAt).toISOString().replace(/[:.]/g, "-")}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  console.log(`[SessionStore] Exported session ${sessionId} (${archive.events.length} events)`);
+};
+
+export const parseArchive = async (file: Blob): Promise<SessionArchive> => {
+  const archive = JSON.parse(await file.text());
+  if (archive?.version !== 1 || !archive.session || !Array.isArray(archive.events)) {
+    throw new Error("Not a SonarAI session archive");
+  }
+  return archive as SessionArchive;
+};
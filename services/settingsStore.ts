@@ -0,0 +1,40 @@
+import { SonarSettings } from "../types";
+import { DEFAULT_SETTINGS, getProfile, sanitizeSettings } from "../utils/settings";
+
+const STORAGE_KEY = "sonarai-settings";
+const STORAGE_VERSION = 1;
+
+export interface StoredSettings {
+  settings: SonarSettings;
+  // Profile last applied; null once none has been chosen
+  profileId: string | null;
+}
+
+// Settings are small and needed before the first render, so they live in localStorage.
+// A haptic-only channel saved on another device falls back to audio where nothing can vibrate.
+export const loadSettings = (hapticsAvailable: boolean): StoredSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { settings: DEFAULT_SETTINGS, profileId: null };
+    const parsed = JSON.parse(raw);
+    if (parsed?.version !== STORAGE_VERSION) {
+      console.warn(`[SettingsStore] Ignoring settings from version ${parsed?.version}`);
+      return { settings: DEFAULT_SETTINGS, profileId: null };
+    }
+    return {
+      settings: sanitizeSettings(parsed.settings, hapticsAvailable),
+      profileId: getProfile(parsed.profileId)?.id ?? null,
+    };
+  } catch (e) {
+    console.error("[SettingsStore] Failed to load settings", e);
+    return { settings: DEFAULT_SETTINGS, profileId: null };
+  }
+};
+
+export const saveSettings = (stored: StoredSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...stored }));
+  } catch (e) {
+    console.error("[SettingsStore] Failed to save settings", e);
+  }
+};
@@ -0,0 +1,267 @@
+import { SpeechOptions, SpeechPriority, VoiceSettings } from "../types";
+import { decodePcm16, getAudioContext, getSpeechVolume, setSpeechDucking } from "../utils/audioUtils";
+import { isAbortError } from "./providerErrors";
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { rate: 1.1, pitch: 1.0 };
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { critical: 3, high: 2, normal: 1, low: 0 };
+
+// Queued messages older than this are no longer worth saying
+const DEFAULT_MAX_AGE_MS: Record<SpeechPriority, number> = {
+  critical: Infinity,
+  high: 10000,
+  normal: 15000,
+  low: 3000,
+};
+
+// Neural audio that takes longer than this is abandoned for browser synthesis
+const DEFAULT_MAX_SYNTHESIS_WAIT_MS: Record<SpeechPriority, number> = {
+  critical: 400,
+  high: 2500,
+  normal: Infinity,
+  low: Infinity,
+};
+
+export interface SpeechManagerOptions {
+  // Neural TTS: base64 16-bit 24kHz PCM, or null to fall back to browser synthesis
+  synthesize(text: string, signal: AbortSignal, locale: string): Promise<string | null>;
+  // e.g. false while offline, so high-quality requests go straight to synthesis
+  canSynthesize?(): boolean;
+  // The same text is not repeated within this window (critical messages excepted)
+  dedupeWindowMs?: number;
+  maxAgeMs?: Partial<Record<SpeechPriority, number>>;
+  maxSynthesisWaitMs?: Partial<Record<SpeechPriority, number>>;
+  onSpeakingChange?(speaking: boolean): void;
+}
+
+export interface SpeechManager {
+  speak(text: string, options?: SpeechOptions): void;
+  setLanguage(locale: string): void;
+  setVoiceSettings(locale: string, settings: VoiceSettings): void;
+  // Stops the current utterance and drops everything queued
+  cancelAll(): void;
+  isSpeaking(): boolean;
+}
+
+interface QueuedSpeech {
+  text: string;
+  key: string;
+  priority: SpeechPriority;
+  highQuality: boolean;
+  enqueuedAt: number;
+}
+
+interface ActiveSpeech {
+  item: QueuedSpeech;
+  stop(): void;
+}
+
+const speechKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// The user's chosen voice, else one for the exact locale, else any for the same language;
+// browsers otherwise often read every language with their default (usually English) voice
+const pickVoice = (locale: string, voiceURI?: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const chosen = voiceURI && voices.find(v => v.voiceURI === voiceURI);
+  if (chosen) return chosen;
+  const normalize = (lang: string) => lang.replace('_', '-').toLowerCase();
+  const exact = voices.filter(v => normalize(v.lang) === normalize(locale));
+  const language = locale.split('-')[0].toLowerCase();
+  const sameLanguage = exact.length ? exact : voices.filter(v => normalize(v.lang).split('-')[0] === language);
+  return sameLanguage.find(v => v.localService) ?? sameLanguage[0];
+};
+
+// Single owner of the speech channel: one utterance at a time, ordered by priority.
+// STOP-level messages cut off whatever is playing; routine messages are dropped when
+// they repeat or go stale in the queue.
+export const createSpeechManager = (options: SpeechManagerOptions): SpeechManager => {
+  const dedupeWindowMs = options.dedupeWindowMs ?? 10000;
+  const maxAgeMs = { ...DEFAULT_MAX_AGE_MS, ...options.maxAgeMs };
+  const maxSynthesisWaitMs = { ...DEFAULT_MAX_SYNTHESIS_WAIT_MS, ...options.maxSynthesisWaitMs };
+
+  let queue: QueuedSpeech[] = [];
+  let current: ActiveSpeech | null = null;
+  let locale = 'en-US';
+  const voiceSettings = new Map<string, VoiceSettings>();
+  const recentlySpoken = new Map<string, number>();
+
+  const setSpeaking = (speaking: boolean) => {
+    setSpeechDucking(speaking);
+    options.onSpeakingChange?.(speaking);
+  };
+
+  const stopCurrent = () => {
+    const active = current;
+    current = null;
+    active?.stop();
+  };
+
+  const finish = (item: QueuedSpeech) => {
+    if (current?.item !== item) return; // already preempted
+    current = null;
+    if (!pump()) setSpeaking(false);
+  };
+
+  const speakWithSynthesis = (item: QueuedSpeech, isCurrent: () => boolean): (() => void) => {
+    if (!window.speechSynthesis) {
+      finish(item);
+      return () => {};
+    }
+    const settings = voiceSettings.get(locale) ?? DEFAULT_VOICE_SETTINGS;
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    utterance.lang = locale;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.volume = getSpeechVolume();
+    const voice = pickVoice(locale, settings.voiceURI);
+    if (voice) utterance.voice = voice;
+    // cancel() fires onerror/onend for the cancelled utterance; only the current one may advance the queue
+    utterance.onend = () => isCurrent() && finish(item);
+    utterance.onerror = () => isCurrent() && finish(item);
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+    return () => window.speechSynthesis.cancel();
+  };
+
+  const playPcm = (item: QueuedSpeech, base64: string): (() => void) => {
+    const ctx = getAudioContext();
+    const samples = decodePcm16(base64);
+    if (!ctx || !samples.length) {
+      finish(item);
+      return () => {};
+    }
+    const buffer = ctx.createBuffer(1, samples.length, 24000);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = getSpeechVolume();
+    source.connect(gain);
+    gain.connect(ctx.destination);
+    source.onended = () => finish(item);
+    source.start();
+    return () => {
+      source.onended = null;
+      try { source.stop(); } catch (e) { /* already stopped */ }
+    };
+  };
+
+  const play = (item: QueuedSpeech) => {
+    let stopPlayback = () => {};
+    const active: ActiveSpeech = { item, stop: () => stopPlayback() };
+    current = active;
+    const isCurrent = () => current === active;
+    recentlySpoken.set(item.key, Date.now());
+    console.log(`[SpeechManager] Speaking (${item.priority}): "${item.text}"`);
+
+    if (!item.highQuality || options.canSynthesize?.() === false) {
+      stopPlayback = speakWithSynthesis(item, isCurrent);
+      return;
+    }
+
+    const controller = new AbortController();
+    stopPlayback = () => controller.abort();
+    // Cached phrases resolve immediately; anything slower must not delay urgent messages
+    const waitMs = maxSynthesisWaitMs[item.priority];
+    const waitTimer = Number.isFinite(waitMs) ? setTimeout(() => {
+      if (!isCurrent()) return;
+      console.warn(`[SpeechManager] High quality speech took over ${waitMs}ms, falling back to synthesis`);
+      controller.abort();
+      stopPlayback = speakWithSynthesis(item, isCurrent);
+    }, waitMs) : null;
+    options.synthesize(item.text, controller.signal, locale)
+      .finally(() => waitTimer && clearTimeout(waitTimer))
+      .then(audio => {
+        if (!isCurrent() || controller.signal.aborted) return;
+        if (audio) {
+          stopPlayback = playPcm(item, audio);
+        } else {
+          console.warn("[SpeechManager] High quality speech failed, falling back to synthesis");
+          stopPlayback = speakWithSynthesis(item, isCurrent);
+        }
+      })
+      .catch(e => {
+        if (isAbortError(e) || !isCurrent() || controller.signal.aborted) return;
+        console.error("[SpeechManager] Speech synthesis error", e);
+        stopPlayback = speakWithSynthesis(item, isCurrent);
+      });
+  };
+
+  // Starts the next fresh item; returns false when nothing is left to say
+  const pump = (): boolean => {
+    if (current) return true;
+    const now = Date.now();
+    while (queue.length) {
+      const item = queue.shift()!;
+      if (now - item.enqueuedAt > maxAgeMs[item.priority]) {
+        console.log(`[SpeechManager] Dropped stale (${item.priority}): "${item.text}"`);
+        continue;
+      }
+      play(item);
+      return true;
+    }
+    return false;
+  };
+
+  const speak = (text: string, speechOptions: SpeechOptions = {}) => {
+    if (!text) return;
+    const priority = speechOptions.priority ?? 'normal';
+    const item: QueuedSpeech = {
+      text,
+      key: speechKey(text),
+      priority,
+      highQuality: !!speechOptions.highQuality,
+      enqueuedAt: Date.now(),
+    };
+
+    // Entries past the window can no longer suppress anything
+    recentlySpoken.forEach((spokenAt, key) => {
+      if (item.enqueuedAt - spokenAt >= dedupeWindowMs) recentlySpoken.delete(key);
+    });
+
+    if (speechOptions.dedupe !== false) {
+      const duplicateActive = current?.item.key === item.key || queue.some(q => q.key === item.key);
+      const lastSpoken = recentlySpoken.get(item.key);
+      const recentlySaid = lastSpoken !== undefined && item.enqueuedAt - lastSpoken < dedupeWindowMs;
+      if (duplicateActive || (recentlySaid && priority !== 'critical')) {
+        console.log(`[SpeechManager] Dropped duplicate: "${text}"`);
+        return;
+      }
+    }
+
+    if (priority === 'critical' || speechOptions.interrupt) {
+      // Everything routine is now out of date
+      queue = queue.filter(q => q.priority === 'critical');
+      if (current && current.item.priority !== 'critical') stopCurrent();
+    }
+    if (priority === 'low') {
+      // Only the latest routine update matters
+      queue = queue.filter(q => q.priority !== 'low');
+    }
+
+    const index = queue.findIndex(q => PRIORITY_RANK[q.priority] < PRIORITY_RANK[priority]);
+    if (index === -1) queue.push(item);
+    else queue.splice(index, 0, item);
+
+    if (!current) setSpeaking(true);
+    pump();
+  };
+
+  const cancelAll = () => {
+    queue = [];
+    stopCurrent();
+    setSpeaking(false);
+  };
+
+  return {
+    speak,
+    setLanguage: newLocale => {
+      locale = newLocale;
+    },
+    setVoiceSettings: (forLocale, settings) => {
+      voiceSettings.set(forLocale, settings);
+    },
+    cancelAll,
+    isSpeaking: () => current !== null,
+  };
+};
@@ -0,0 +1,156 @@
+const DB_NAME = "sonarai-tts";
+const DB_VERSION = 1;
+const CLIPS_STORE = "clips";
+
+// Cached neural TTS audio for one text in one voice and language
+interface CachedClip {
+  key: string;
+  text: string;
+  voice: string;
+  locale: string;
+  audio: string; // base64 16-bit 24kHz PCM
+  lastUsedAt: number;
+}
+
+export interface TtsCacheOptions {
+  // Least recently used clips beyond this are evicted
+  maxEntries?: number;
+}
+
+export interface SpeechContext {
+  voice: string;
+  locale: string;
+}
+
+export interface TtsCache {
+  get(text: string, context: SpeechContext): Promise<string | null>;
+  put(text: string, context: SpeechContext, audio: string): Promise<void>;
+  // Generates audio for any phrases not cached yet; stops at the first failure (e.g. offline)
+  prewarm(phrases: string[], context: SpeechContext, synthesize: (text: string) => Promise<string | null>): Promise<number>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CLIPS_STORE)) {
+          const clips = db.createObjectStore(CLIPS_STORE, { keyPath: "key" });
+          clips.createIndex("lastUsedAt", "lastUsedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("[TtsCache] Failed to open IndexedDB", request.error);
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a request in a promise, resolving when its transaction completes
+const run = <T>(mode: IDBTransactionMode, body: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([CLIPS_STORE], mode);
+    const request = body(tx.objectStore(CLIPS_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+const clipKey = (text: string, context: SpeechContext) => `${context.voice}|${context.locale}|${text.trim()}`;
+
+// Two tiers: an in-memory map for instant hits and IndexedDB so clips survive reloads.
+// Storage failures only cost a cache miss.
+export const createTtsCache = (options: TtsCacheOptions = {}): TtsCache => {
+  const maxEntries = options.maxEntries ?? 200;
+  const memory = new Map<string, string>();
+
+  const evict = () => run<void>("readwrite", store => {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - maxEntries;
+      if (excess <= 0) return;
+      const cursorRequest = store.index("lastUsedAt").openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor && excess > 0) {
+          memory.delete((cursor.value as CachedClip).key);
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        }
+      };
+    };
+  });
+
+  const get = async (text: string, context: SpeechContext): Promise<string | null> => {
+    const key = clipKey(text, context);
+    const hit = memory.get(key);
+    if (hit) return hit;
+    try {
+      const clip = await run<CachedClip | undefined>("readonly", store => store.get(key));
+      if (!clip) return null;
+      memory.set(key, clip.audio);
+      run("readwrite", store => store.put({ ...clip, lastUsedAt: Date.now() })).catch(() => {});
+      return clip.audio;
+    } catch (e) {
+      console.warn("[TtsCache] Read failed", e);
+      return null;
+    }
+  };
+
+  const put = async (text: string, context: SpeechContext, audio: string) => {
+    const key = clipKey(text, context);
+    memory.set(key, audio);
+    const clip: CachedClip = { key, text: text.trim(), voice: context.voice, locale: context.locale, audio, lastUsedAt: Date.now() };
+    try {
+      await run("readwrite", store => store.put(clip));
+      await evict();
+    } catch (e) {
+      console.warn("[TtsCache] Write failed", e);
+    }
+  };
+
+  const prewarm = async (phrases: string[], context: SpeechContext, synthesize: (text: string) => Promise<string | null>) => {
+    let generated = 0;
+    for (const phrase of phrases) {
+      if (await get(phrase, context)) continue;
+      try {
+        const audio = await synthesize(phrase);
+        if (!audio) break;
+        await put(phrase, context, audio);
+        generated++;
+      } catch (e) {
+        console.warn(`[TtsCache] Prewarm stopped at "${phrase}"`, e);
+        break;
+      }
+    }
+    if (generated) console.log(`[TtsCache] Prewarmed ${generated} phrases for ${context.locale}`);
+    return generated;
+  };
+
+  return { get, put, prewarm };
+};
+
+// Wraps a neural TTS call so repeated text is served from the cache and new audio is stored.
+// Providers without a stable voice id are passed through uncached.
+export const withTtsCache = (
+  cache: TtsCache,
+  getVoice: () => string | undefined,
+  synthesize: (text: string, signal: AbortSignal) => Promise<string | null>
+) => async (text: string, signal: AbortSignal, locale: string): Promise<string | null> => {
+  const voice = getVoice();
+  if (!voice) return synthesize(text, signal);
+  const context = { voice, locale };
+  const cached = await cache.get(text, context);
+  if (cached) return cached;
+  const audio = await synthesize(text, signal);
+  if (audio) cache.put(text, context, audio);
+  return audio;
+};
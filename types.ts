@@ -14,11 +14,367 @@ export interface SonarResponse {
   navigation_command: string;
   stereo_pan: number; // -1.0 to 1.0
   visual_debug: VisualDebug;
+  captured_at?: number; // epoch ms when the analyzed frame was captured (set client-side)
+}
+
+export type SafetyStatus = SonarResponse['safety_status'];
+
+// Output of the status tracker: the debounced view of recent SonarResponses
+export interface StabilizedStatus {
+  safety_status: SafetyStatus;
+  stereo_pan: number; // smoothed, -1.0 to 1.0
+  changed: boolean; // status differs from the previous stabilized status
+  escalated: boolean; // status became more severe on this update
+  pendingFrames: number; // consecutive lower-severity frames seen while holding the current status
+}
+
+// Minimal shape of a COCO-SSD detection (bbox in source pixels: x, y, width, height)
+export interface Detection {
+  bbox: [number, number, number, number];
+  class: string;
+  score: number;
+}
+
+export type TrackMotion = 'approaching' | 'receding' | 'crossing' | 'stationary';
+
+export interface TrackPoint {
+  cx: number; // bbox center, fraction of frame width
+  cy: number; // bbox center, fraction of frame height
+  area: number; // bbox area / frame area
+  timestamp: number; // ms
+}
+
+// A detection with a stable identity across frames
+export interface TrackedObject {
+  id: number;
+  label: string;
+  bbox: [number, number, number, number]; // last seen, source pixels (x, y, width, height)
+  score: number;
+  history: TrackPoint[];
+  motion: TrackMotion;
+  areaRate: number; // relative area change per second (>0 = getting closer)
+  velocityX: number; // horizontal center velocity, frame widths per second
+  missedFrames: number; // consecutive frames without a matching detection
+}
+
+// --- Audio Themes ---
+
+export type EarconEvent = 'scan' | 'safe' | 'caution' | 'stop' | 'listenStart' | 'listenStop' | 'error' | 'found';
+
+// Volume groups the user can balance independently
+export type EarconCategory = 'alerts' | 'navigation' | 'interface' | 'spatial';
+
+// Declarative description of a short sound cue
+export interface EarconDefinition {
+  category: EarconCategory;
+  waveform: OscillatorType;
+  frequency: number; // Hz at onset
+  glideTo?: number; // Hz at the end of the glide, omitted for a steady pitch
+  glideMs?: number; // defaults to the whole pulse
+  attackMs: number;
+  durationMs: number; // attack + exponential decay
+  gain: number; // peak gain before volume controls, 0-1
+  repetitions?: number; // defaults to 1
+  repeatGapMs?: number; // onset to onset
+  pan: 'center' | 'follow'; // follow = placed at the event's stereo pan
+}
+
+export interface AudioTheme {
+  id: string;
+  name: string;
+  description: string;
+  earcons: Record<EarconEvent, EarconDefinition>;
+}
+
+export interface AudioVolumes {
+  master: number; // 0-1
+  categories: Record<EarconCategory, number>; // 0-1
+}
+
+// --- Speech ---
+
+// critical preempts everything (STOP); low is routine chatter that may be dropped
+export type SpeechPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export interface SpeechOptions {
+  priority?: SpeechPriority; // defaults to 'normal'
+  highQuality?: boolean; // neural TTS when online, else browser synthesis
+  interrupt?: boolean; // cut off current non-critical speech and drop the queue (mode changes)
+  dedupe?: boolean; // defaults to true; false for streamed sentences that may repeat
+}
+
+// Browser synthesis voice preferences, kept per language locale
+export interface VoiceSettings {
+  rate: number; // 0.5-2
+  pitch: number; // 0-2
+  voiceURI?: string; // SpeechSynthesisVoice.voiceURI, default voice when omitted
+}
+
+// --- Haptics ---
+
+// Which outputs carry status cues; speech is unaffected
+export type FeedbackChannel = 'audio' | 'haptic' | 'both';
+
+export type HapticDirection = 'left' | 'center' | 'right';
+
+// A vibration device: the phone's motor today, a Bluetooth wearable later.
+// Patterns alternate on/off durations in ms, as in navigator.vibrate.
+export interface HapticOutput {
+  name: string;
+  isAvailable(): boolean;
+  play(pattern: number[]): void;
+  cancel(): void;
+}
+
+// --- Settings ---
+
+// Everything the user can tune; persisted across reloads
+export interface SonarSettings {
+  languageCode: string;
+  voiceSettings: Record<string, VoiceSettings>; // by locale
+  scanIntervalMs: number; // base interval between Gemini scans
+  detectionConfidence: number; // COCO-SSD minimum score, 0-1
+  importantClasses: string[]; // always drawn; other classes only when detected with high confidence
+  audioThemeId: string;
+  audioVolumes: AudioVolumes;
+  feedbackChannel: FeedbackChannel;
+  talkMode: TalkMode;
+}
+
+// hold = push-to-talk; toggle = press once to start and again to stop (keyboards, switch access)
+export type TalkMode = 'hold' | 'toggle';
+
+// A named bundle of settings for a kind of environment
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  description: string;
+  settings: Partial<SonarSettings>;
+}
+
+// One sound in the continuous soundscape, positioned from an obstacle's bbox
+export interface SoundscapeSource {
+  id: string; // stable across frames so the voice is updated rather than recreated
+  kind: 'obstacle' | 'hazard';
+  azimuth: number; // -1.0 (left edge of view) to 1.0 (right edge)
+  elevation: number; // -1.0 (bottom) to 1.0 (top)
+  proximity: number; // 0 (far) to 1 (very close)
+}
+
+// Interim alert raised from local detections between Gemini cycles
+export interface LocalHazard {
+  safety_status: SafetyStatus;
+  label: string;
+  stereo_pan: number; // derived from bbox center, -1.0 to 1.0
+  areaRatio: number; // bbox area / frame area
+  growthRate: number; // relative area growth per second (>0 = approaching)
+  trackId: number;
+  motion: TrackMotion;
+  description: string; // spoken form, e.g. "person approaching from the left"
+  announce: boolean; // true when this alert should be voiced (cooldown elapsed or escalated)
+}
+
+// How a submitted frame was derived from the camera frame, so model coordinates
+// (0-1000 over the submitted image) can be mapped back onto the full frame
+export interface FrameTransform {
+  sourceWidth: number;
+  sourceHeight: number;
+  cropX: number;
+  cropY: number;
+  cropWidth: number;
+  cropHeight: number;
+  outputWidth: number;
+  outputHeight: number;
+  jpegQuality: number;
+}
+
+// --- Session Recording ---
+
+export type AudioCueType = 'scan' | 'ping' | 'caution' | 'speech';
+
+export type SessionEvent =
+  | { kind: 'frame'; timestamp: number; base64Image: string; transform: FrameTransform }
+  | { kind: 'detections'; timestamp: number; frameWidth: number; frameHeight: number; detections: Detection[] }
+  | { kind: 'response'; timestamp: number; response: SonarResponse; latencyMs: number }
+  | { kind: 'cue'; timestamp: number; cue: AudioCueType; pan?: number; text?: string };
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  language: string;
+  provider: string;
+  eventCount: number;
+}
+
+// Single-file export of a recorded walk
+export interface SessionArchive {
+  version: 1;
+  session: SessionSummary;
+  events: SessionEvent[];
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   SCANNING = 'SCANNING',
   LISTENING = 'LISTENING', // For voice commands
-  PROCESSING_QUERY = 'PROCESSING_QUERY'
-}
\ No newline at end of file
+  PROCESSING_QUERY = 'PROCESSING_QUERY',
+  REPLAYING = 'REPLAYING', // Feeding a recorded session through the pipeline
+  CONVERSING = 'CONVERSING', // Streaming voice conversation
+  READING = 'READING', // Reading text (signs, labels, documents) aloud
+  SEARCHING = 'SEARCHING' // Homing in on an object the user asked to find
+}
+// --- Provider Abstraction ---
+// Backends that App.tsx talks to. Gemini is the production provider; the mock
+// provider replays recorded fixtures for offline development.
+
+export interface RequestOptions {
+  // Aborting rejects the call with an AbortError
+  signal?: AbortSignal;
+}
+
+// One answered voice question, kept so follow-ups ("and where is it now?") have context
+export interface QueryTurn {
+  question: string;
+  answer: string;
+  timestamp: number;
+  // What the scan loop last reported when the question was asked
+  sceneSummary?: string;
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  // Capture time of the frame, echoed back as SonarResponse.captured_at
+  capturedAt?: number;
+  // Earlier questions and answers, oldest first
+  history?: QueryTurn[];
+}
+
+export interface VisionNavigator {
+  // Rejects with ProviderUnavailableError when the backend is unreachable or out of quota
+  analyzeFrame(base64Image: string, language?: string, customPrompt?: string, options?: AnalyzeOptions): Promise<SonarResponse>;
+}
+
+// Answer to a free-form voice question about the scene ("what does this sign say?")
+export interface SceneAnswer {
+  answer: string; // full spoken answer, not length-limited like navigation commands
+  confidence: number; // 0-1, model's own estimate
+  regions: BoundingBox[]; // parts of the frame the answer refers to
+  ocr_text?: string; // verbatim text read from the scene, if any
+  captured_at?: number; // epoch ms when the analyzed frame was captured (set client-side)
+}
+
+export interface SceneQuestionAnswerer {
+  // Rejects with ProviderUnavailableError when the backend is unreachable or out of quota
+  askAboutScene(base64Image: string, question: string, language?: string, options?: AnalyzeOptions): Promise<SceneAnswer>;
+}
+
+// Where a requested object is in the frame (open-vocabulary lookup)
+export interface ObjectLocation {
+  label: string;
+  box_2d: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-1000)
+  confidence: number; // 0-1
+  captured_at?: number; // epoch ms when the analyzed frame was captured (set client-side)
+}
+
+export interface ObjectLocator {
+  // Resolves to null when the target is not in view.
+  // Rejects with ProviderUnavailableError when the backend is unreachable or out of quota
+  locateObject(base64Image: string, target: string, options?: AnalyzeOptions): Promise<ObjectLocation | null>;
+}
+
+// Guidance toward the search target, derived from the latest local or Gemini sighting
+export interface HomingState {
+  pan: number; // -1.0 (left) to 1.0 (right), target center
+  proximity: number; // 0 (far/small) to 1 (fills the frame)
+  centered: boolean;
+  inReach: boolean;
+  source: 'local' | 'remote';
+}
+
+export type FrameEdge = 'left' | 'right' | 'top' | 'bottom';
+
+// One block of text (line, paragraph or sign) found in the frame
+export interface TextBlock {
+  text: string;
+  translation?: string; // present when a translation was requested
+  box_2d: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-1000)
+  cut_off: FrameEdge[]; // frame edges the text runs past
+}
+
+export interface TextReading {
+  blocks: TextBlock[]; // in reading order
+  language?: string; // detected language of the source text
+  captured_at?: number; // epoch ms when the analyzed frame was captured (set client-side)
+}
+
+export interface ReadTextOptions extends AnalyzeOptions {
+  // Language name to translate into; omitted to read the text as written
+  translateTo?: string;
+}
+
+export interface TextReader {
+  // Rejects with ProviderUnavailableError when the backend is unreachable or out of quota
+  readText(base64Image: string, options?: ReadTextOptions): Promise<TextReading>;
+}
+
+export interface Transcriber {
+  transcribeAudio(audioBase64: string, mimeType: string, language?: string, options?: RequestOptions): Promise<string>;
+}
+
+export interface SpeechSynthesizer {
+  // Resolves to base64 raw PCM (16-bit, 24kHz) or null when no audio could be produced
+  generateSpeech(text: string, options?: RequestOptions): Promise<string | null>;
+  // Identifies the synthesized voice (model + voice name) so cached audio can be reused
+  speechVoiceId?: string;
+}
+
+// --- Live Conversation ---
+// Streaming, multi-turn voice session: mic audio and camera frames go in,
+// partial answers come back while the model is still generating.
+
+export interface LiveSessionCallbacks {
+  onText(text: string, final: boolean): void; // answer text so far in the current turn
+  onAudio(base64Pcm: string): void; // 24kHz 16-bit PCM chunk of the spoken answer
+  onUserTranscript?(text: string): void;
+  onTurnComplete(): void;
+  onInterrupted(): void; // stop playback, the user barged in
+  onError(error: unknown): void;
+  onClose(): void;
+}
+
+export interface LiveSession {
+  // true when the backend returns spoken audio; otherwise the app voices onText itself
+  producesAudio: boolean;
+  sendAudio(base64Pcm16k: string): void;
+  sendFrame(base64Jpeg: string): void;
+  sendText(text: string): void;
+  interrupt(): void;
+  close(): void;
+}
+
+export interface LiveSessionOptions {
+  language: string;
+}
+
+export interface LiveConversationProvider {
+  connectLive(options: LiveSessionOptions, callbacks: LiveSessionCallbacks): Promise<LiveSession>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Per-model request statistics, readable by the UI
+export interface ModelHealth {
+  model: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  circuit: CircuitState;
+  circuitOpenUntil: number | null; // epoch ms
+}
+
+export interface SonarProvider extends VisionNavigator, SceneQuestionAnswerer, TextReader, ObjectLocator, Transcriber, SpeechSynthesizer, Partial<LiveConversationProvider> {
+  name: string;
+  getHealth?(): ModelHealth[];
+}
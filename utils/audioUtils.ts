@@ -1,3 +1,6 @@
+import { AudioTheme, AudioVolumes, EarconCategory, EarconDefinition, EarconEvent, SoundscapeSource } from '../types';
+import { DEFAULT_AUDIO_VOLUMES, getAudioTheme } from './earcons';
+
 // Singleton AudioContext to prevent "limit reached" errors
 let audioCtx: AudioContext | null = null;
 
@@ -32,27 +35,92 @@ export const playBeep = (freq: number = 440, duration: number = 100, type: Oscil
   osc.stop(ctx.currentTime + duration / 1000);
 };
 
+// Base64 16-bit PCM -> Float32 samples in -1.0 to 1.0
+export const decodePcm16 = (base64Data: string): Float32Array => {
+  const binaryString = atob(base64Data);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  // Convert Int16 PCM to Float32
+  const int16Data = new Int16Array(bytes.buffer, 0, Math.floor(len / 2));
+  const float32Data = new Float32Array(int16Data.length);
+  
+  for (let i = 0; i < int16Data.length; i++) {
+    // Normalize 16-bit integer to -1.0 to 1.0 float
+    float32Data[i] = int16Data[i] / 32768.0;
+  }
+  return float32Data;
+};
+
+// Float32 samples -> base64 16-bit PCM (for streaming mic audio)
+export const encodePcm16 = (samples: Float32Array): string => {
+  const int16Data = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16Data[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  const bytes = new Uint8Array(int16Data.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// Root-mean-square level of a sample block (0 = silence, ~0.05+ = speech)
+export const rms = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+// Gapless playback of streamed PCM chunks; stop() drops everything queued (barge-in)
+export const createPcmStreamPlayer = (sampleRate = 24000) => {
+  let nextStartTime = 0;
+  const sources = new Set<AudioBufferSourceNode>();
+
+  const enqueue = (base64Data: string) => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    const samples = decodePcm16(base64Data);
+    if (!samples.length) return;
+
+    const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    sources.add(source);
+    source.onended = () => sources.delete(source);
+  };
+
+  const stop = () => {
+    sources.forEach(source => {
+      try { source.stop(); } catch (e) { /* already stopped */ }
+    });
+    sources.clear();
+    nextStartTime = 0;
+  };
+
+  return { enqueue, stop, isPlaying: () => sources.size > 0 };
+};
+
+export type PcmStreamPlayer = ReturnType<typeof createPcmStreamPlayer>;
+
 // Play raw PCM audio from Gemini TTS (16-bit, 24kHz usually)
 export const playRawPCM = async (base64Data: string, sampleRate = 24000) => {
   const ctx = getAudioContext();
   if (!ctx) return;
 
   try {
-    const binaryString = atob(base64Data);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-
-    // Convert Int16 PCM to Float32
-    const int16Data = new Int16Array(bytes.buffer);
-    const float32Data = new Float32Array(int16Data.length);
-    
-    for (let i = 0; i < int16Data.length; i++) {
-      // Normalize 16-bit integer to -1.0 to 1.0 float
-      float32Data[i] = int16Data[i] / 32768.0;
-    }
+    const float32Data = decodePcm16(base64Data);
 
     const buffer = ctx.createBuffer(1, float32Data.length, sampleRate);
     buffer.getChannelData(0).set(float32Data);
@@ -66,110 +134,318 @@ export const playRawPCM = async (base64Data: string, sampleRate = 24000) => {
   }
 };
 
-export const playCautionSound = (pan: number) => {
+// --- Earcons ---
+// Theme and volumes are module state like the AudioContext: every cue in the app
+// goes through playEarcon, so changing them here restyles all of them.
+let audioTheme: AudioTheme = getAudioTheme('classic');
+let audioVolumes: AudioVolumes = DEFAULT_AUDIO_VOLUMES;
+let speechActive = false;
+
+// Non-alert cues and the soundscape drop to this level while speech is playing
+const SPEECH_DUCK_LEVEL = 0.35;
+
+export const setAudioTheme = (theme: AudioTheme) => {
+  audioTheme = theme;
+};
+
+export const setAudioVolumes = (volumes: AudioVolumes) => {
+  audioVolumes = volumes;
+};
+
+// Set by the speech manager while an utterance is playing
+export const setSpeechDucking = (active: boolean) => {
+  speechActive = active;
+};
+
+export const getCategoryVolume = (category: EarconCategory) =>
+  audioVolumes.master * (audioVolumes.categories[category] ?? 1) * (speechActive && category !== 'alerts' ? SPEECH_DUCK_LEVEL : 1);
+
+// Speech follows the master volume only; it is never ducked
+export const getSpeechVolume = () => audioVolumes.master;
+
+// Positions a node left/right; PannerNode fallback for browsers without StereoPanner
+const connectPanned = (ctx: AudioContext, node: AudioNode, pan: number, when: number): AudioNode => {
+  const safePan = Math.max(-1, Math.min(1, pan));
+  if (ctx.createStereoPanner) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.setValueAtTime(safePan, when);
+    node.connect(panner);
+    return panner;
+  }
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.setPosition(safePan, 0, -1); // Sound is in front, moving left/right
+  node.connect(panner);
+  return panner;
+};
+
+// Synthesizes one earcon definition; pan is used when the definition follows the event
+export const playEarconDefinition = (definition: EarconDefinition, pan = 0, volume = getCategoryVolume(definition.category)) => {
   const ctx = getAudioContext();
-  if (!ctx) return;
+  if (!ctx || volume <= 0) return;
 
   const startTime = ctx.currentTime;
+  const repetitions = definition.repetitions ?? 1;
+  const gap = (definition.repeatGapMs ?? definition.durationMs + 30) / 1000;
+  const attack = definition.attackMs / 1000;
+  const duration = Math.max(definition.durationMs / 1000, attack + 0.005);
+  const glide = (definition.glideMs ?? definition.durationMs) / 1000;
+  const peak = Math.max(0.0002, definition.gain * volume);
 
-  // Helper to play a single pulse
-  const playPulse = (offset: number) => {
+  for (let i = 0; i < repetitions; i++) {
+    const t = startTime + i * gap;
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
-    
-    osc.type = 'triangle';
-    
-    // Pitch Slide: 600Hz down to 300Hz
-    osc.frequency.setValueAtTime(600, startTime + offset);
-    osc.frequency.exponentialRampToValueAtTime(300, startTime + offset + 0.15);
-
-    // Envelope (Quick warning blip)
-    gain.gain.setValueAtTime(0, startTime + offset);
-    gain.gain.linearRampToValueAtTime(0.15, startTime + offset + 0.02);
-    gain.gain.exponentialRampToValueAtTime(0.001, startTime + offset + 0.15);
-
-    // Spatial Panning Logic
-    let outputNode: AudioNode = gain;
-    
-    if (ctx.createStereoPanner) {
-      const panner = ctx.createStereoPanner();
-      const safePan = Math.max(-1, Math.min(1, pan));
-      panner.pan.setValueAtTime(safePan, startTime + offset);
-      gain.connect(panner);
-      outputNode = panner;
+    osc.type = definition.waveform;
+    osc.frequency.setValueAtTime(definition.frequency, t);
+    if (definition.glideTo) osc.frequency.exponentialRampToValueAtTime(definition.glideTo, t + glide);
+
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(peak, t + attack);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + duration);
+
+    const output = connectPanned(ctx, gain, definition.pan === 'follow' ? pan : 0, t);
+    output.connect(ctx.destination);
+    osc.connect(gain);
+    osc.start(t);
+    osc.stop(t + duration + 0.05);
+  }
+};
+
+let earconsMuted = false;
+
+// Haptic-only feedback: status cues are felt, not heard (previews still play)
+export const setEarconsMuted = (muted: boolean) => {
+  earconsMuted = muted;
+};
+
+// Plays the active theme's cue for an event. Alerts and navigation cues duck the soundscape.
+export const playEarcon = (event: EarconEvent, pan = 0) => {
+  if (earconsMuted) return;
+  const definition = audioTheme.earcons[event];
+  if (definition.category === 'alerts' || definition.category === 'navigation') {
+    const repetitions = definition.repetitions ?? 1;
+    duckSoundscape((repetitions - 1) * (definition.repeatGapMs ?? definition.durationMs) + definition.durationMs + 150);
+  }
+  playEarconDefinition(definition, pan);
+};
+
+export interface HomingToneOptions {
+  // Stands in for each pulse while earcons are muted, e.g. a vibration in haptic-only mode
+  onMutedPulse?(pan: number, intensity: number): void;
+}
+
+// Continuous pulse train for object homing: pulses pan toward the target and
+// speed up / rise in pitch as it gets closer. intensity is 0 (far) to 1 (in reach).
+export const createHomingTone = (options: HomingToneOptions = {}) => {
+  let pan = 0;
+  let intensity = 0;
+  let active = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const pulse = () => {
+    const ctx = getAudioContext();
+    if (!ctx || !active) return;
+
+    if (earconsMuted) {
+      options.onMutedPulse?.(pan, intensity);
     } else {
-       // Fallback for browsers without StereoPanner
-       const panner = ctx.createPanner();
-       panner.panningModel = 'HRTF';
-       panner.distanceModel = 'inverse';
-       
-       const x = Math.max(-1, Math.min(1, pan));
-       // Position listener at origin
-       ctx.listener.setPosition(0, 0, 0);
-       // Position sound source
-       panner.setPosition(x, 0, -1);
-       
-       gain.connect(panner);
-       outputNode = panner;
+      const now = ctx.currentTime;
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(400 + 600 * intensity, now);
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(Math.max(0.002, 0.2 * getCategoryVolume('spatial')), now + 0.01);
+      gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+
+      connectPanned(ctx, gain, pan, now).connect(ctx.destination);
+      osc.connect(gain);
+      osc.start(now);
+      osc.stop(now + 0.1);
     }
 
-    outputNode.connect(ctx.destination);
+    // 1.5 pulses/s when far, up to ~8/s when in reach
+    const intervalMs = 650 - 525 * intensity;
+    timer = setTimeout(pulse, intervalMs);
+  };
 
-    osc.connect(gain);
-    osc.start(startTime + offset);
-    osc.stop(startTime + offset + 0.2);
+  const update = (newPan: number, newIntensity: number) => {
+    pan = newPan;
+    intensity = Math.max(0, Math.min(1, newIntensity));
+    if (!active) {
+      active = true;
+      pulse();
+    }
+  };
+
+  // Target lost: stay quiet until the next update
+  const silence = () => {
+    active = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
   };
 
-  // Double pulse pattern "Bup-Bup"
-  playPulse(0);
-  playPulse(0.18);
+  return { update, silence, isActive: () => active };
 };
 
-export const playSonarPing = (pan: number) => {
-  const ctx = getAudioContext();
-  if (!ctx) return;
+export type HomingTone = ReturnType<typeof createHomingTone>;
 
-  const osc = ctx.createOscillator();
-  const gain = ctx.createGain();
-  
-  osc.type = 'sine';
-  
-  // Sonar "Ping" sound: High pitch dropping slightly
-  const now = ctx.currentTime;
-  osc.frequency.setValueAtTime(800, now);
-  osc.frequency.exponentialRampToValueAtTime(600, now + 0.15);
-  
-  // Envelope
-  gain.gain.setValueAtTime(0, now);
-  gain.gain.linearRampToValueAtTime(0.3, now + 0.01);
-  gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
+export interface SoundscapeOptions {
+  // Only the nearest sources get a voice; more than a few becomes noise
+  maxVoices?: number;
+  // Degrees either side of straight ahead for azimuth = +/-1 (wider than the camera
+  // field of view so left/right is easy to tell apart)
+  azimuthRangeDeg?: number;
+  elevationRangeDeg?: number;
+  volume?: number;
+}
 
-  // Spatial Panning Logic
-  let outputNode: AudioNode = gain;
+interface SoundscapeVoice {
+  carrier: OscillatorNode;
+  lfo: OscillatorNode;
+  lfoDepth: GainNode;
+  level: GainNode;
+  panner: PannerNode;
+}
+
+// Attenuation applied while a one-shot event (ping, caution, speech) plays over the soundscape
+const DUCK_LEVEL = 0.3;
+let activeSoundscape: { duck(durationMs: number): void } | null = null;
+
+// Lets one-shot cues stand out over the continuous soundscape
+export const duckSoundscape = (durationMs = 400) => activeSoundscape?.duck(durationMs);
+
+// Persistent spatial audio: one looping voice per tracked obstacle, placed with an
+// HRTF panner at the obstacle's azimuth/elevation. Closer obstacles pulse faster
+// and louder; hazards use a harsher timbre. Call update() every animation frame.
+export const createSoundscape = (options: SoundscapeOptions = {}) => {
+  const maxVoices = options.maxVoices ?? 4;
+  const azimuthRange = ((options.azimuthRangeDeg ?? 60) * Math.PI) / 180;
+  const elevationRange = ((options.elevationRangeDeg ?? 30) * Math.PI) / 180;
+  const volume = options.volume ?? 0.5;
+
+  const voices = new Map<string, SoundscapeVoice>();
+  let master: GainNode | null = null;
+  let duckedUntil = 0; // AudioContext time
+
+  const getMaster = (ctx: AudioContext) => {
+    if (!master) {
+      master = ctx.createGain();
+      master.gain.value = volume;
+      master.connect(ctx.destination);
+    }
+    return master;
+  };
+
+  const createVoice = (ctx: AudioContext, source: SoundscapeSource): SoundscapeVoice => {
+    const carrier = ctx.createOscillator();
+    carrier.type = source.kind === 'hazard' ? 'triangle' : 'sine';
+    carrier.frequency.value = source.kind === 'hazard' ? 660 : 330;
+
+    // Amplitude LFO: level.gain oscillates around its base value, giving a pulse
+    const level = ctx.createGain();
+    level.gain.value = 0;
+    const lfo = ctx.createOscillator();
+    lfo.type = 'square';
+    const lfoDepth = ctx.createGain();
+    lfoDepth.gain.value = 0;
+    lfo.connect(lfoDepth);
+    lfoDepth.connect(level.gain);
 
-  if (ctx.createStereoPanner) {
-    const panner = ctx.createStereoPanner();
-    const safePan = Math.max(-1, Math.min(1, pan));
-    panner.pan.setValueAtTime(safePan, ctx.currentTime);
-    gain.connect(panner);
-    outputNode = panner;
-  } else {
-    // Fallback using PannerNode (HRTF 3D Audio)
     const panner = ctx.createPanner();
     panner.panningModel = 'HRTF';
-    panner.distanceModel = 'inverse';
-    
-    const x = Math.max(-1, Math.min(1, pan));
-    // Listener default is 0,0,0
-    panner.setPosition(x, 0, -1); // Sound is in front, moving left/right
-    
-    gain.connect(panner);
-    outputNode = panner;
-  }
+    panner.distanceModel = 'linear';
+    panner.refDistance = 1;
+    panner.maxDistance = 10000;
+    panner.rolloffFactor = 0; // loudness is driven by proximity, not distance
 
-  outputNode.connect(ctx.destination);
-  osc.connect(gain);
+    carrier.connect(level);
+    level.connect(panner);
+    panner.connect(getMaster(ctx));
+    carrier.start();
+    lfo.start();
+    return { carrier, lfo, lfoDepth, level, panner };
+  };
+
+  const releaseVoice = (ctx: AudioContext, voice: SoundscapeVoice) => {
+    const end = ctx.currentTime + 0.15;
+    voice.level.gain.cancelScheduledValues(ctx.currentTime);
+    voice.level.gain.setTargetAtTime(0, ctx.currentTime, 0.03);
+    voice.lfoDepth.gain.setTargetAtTime(0, ctx.currentTime, 0.03);
+    voice.carrier.stop(end);
+    voice.lfo.stop(end);
+    voice.carrier.onended = () => voice.panner.disconnect();
+  };
+
+  const update = (sources: SoundscapeSource[]) => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    // Follows the spatial volume control; held down while a one-shot cue plays
+    const level = volume * getCategoryVolume('spatial') * (now < duckedUntil ? DUCK_LEVEL : 1);
+    getMaster(ctx).gain.setTargetAtTime(level, now, now < duckedUntil ? 0.02 : 0.1);
+
+    const audible = [...sources].sort((a, b) => b.proximity - a.proximity).slice(0, maxVoices);
+    const audibleIds = new Set(audible.map(s => s.id));
+    voices.forEach((voice, id) => {
+      if (!audibleIds.has(id)) {
+        releaseVoice(ctx, voice);
+        voices.delete(id);
+      }
+    });
+
+    for (const source of audible) {
+      let voice = voices.get(source.id);
+      if (!voice) {
+        voice = createVoice(ctx, source);
+        voices.set(source.id, voice);
+      }
+      const proximity = Math.max(0, Math.min(1, source.proximity));
+      const azimuth = Math.max(-1, Math.min(1, source.azimuth)) * azimuthRange;
+      const elevation = Math.max(-1, Math.min(1, source.elevation)) * elevationRange;
+
+      // Unit sphere in front of the listener (-z is straight ahead)
+      const x = Math.sin(azimuth) * Math.cos(elevation);
+      const y = Math.sin(elevation);
+      const z = -Math.cos(azimuth) * Math.cos(elevation);
+      if (voice.panner.positionX) {
+        voice.panner.positionX.setTargetAtTime(x, now, 0.05);
+        voice.panner.positionY.setTargetAtTime(y, now, 0.05);
+        voice.panner.positionZ.setTargetAtTime(z, now, 0.05);
+      } else {
+        voice.panner.setPosition(x, y, z);
+      }
+
+      // 1 pulse/s far away, up to 8/s when very close
+      voice.lfo.frequency.setTargetAtTime(1 + 7 * proximity, now, 0.1);
+      const base = 0.02 + 0.13 * proximity;
+      voice.level.gain.setTargetAtTime(base, now, 0.05);
+      voice.lfoDepth.gain.setTargetAtTime(base, now, 0.05);
+    }
+  };
+
+  // Takes effect on the next update()
+  const duck = (durationMs: number) => {
+    const ctx = getAudioContext();
+    if (!ctx) return;
+    duckedUntil = Math.max(duckedUntil, ctx.currentTime + durationMs / 1000);
+  };
+
+  const start = () => {
+    activeSoundscape = { duck };
+  };
+
+  // Silences every voice; the engine can be started again
+  const stop = () => {
+    const ctx = getAudioContext();
+    if (ctx) voices.forEach(voice => releaseVoice(ctx, voice));
+    voices.clear();
+    if (activeSoundscape?.duck === duck) activeSoundscape = null;
+  };
+
+  return { start, update, stop, duck, voiceCount: () => voices.size };
+};
 
-  osc.start(now);
-  osc.stop(now + 0.3);
-};
\ No newline at end of file
+export type Soundscape = ReturnType<typeof createSoundscape>;
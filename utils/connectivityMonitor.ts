@@ -0,0 +1,73 @@
+export type ConnectivityMode = 'online' | 'offline';
+
+export interface ConnectivityMonitorOptions {
+  // Consecutive unavailable errors before switching to offline mode
+  failureThreshold?: number;
+  // While offline, how often a real Gemini call is attempted to detect recovery
+  probeIntervalMs?: number;
+}
+
+export interface ConnectivityMonitor {
+  // Each returns true when the call changed the mode
+  recordSuccess(): boolean;
+  recordFailure(now: number): boolean;
+  setBrowserOnline(online: boolean, now: number): boolean;
+  shouldProbe(now: number): boolean;
+  getMode(): ConnectivityMode;
+  reset(): void;
+}
+
+export const createConnectivityMonitor = (options: ConnectivityMonitorOptions = {}): ConnectivityMonitor => {
+  const failureThreshold = options.failureThreshold ?? 2;
+  const probeIntervalMs = options.probeIntervalMs ?? 30000;
+
+  let mode: ConnectivityMode = 'online';
+  let consecutiveFailures = 0;
+  let lastProbeAt = 0;
+
+  const setMode = (next: ConnectivityMode) => {
+    if (next === mode) return false;
+    console.log(`[Connectivity] Mode changed: ${mode} -> ${next}`);
+    mode = next;
+    return true;
+  };
+
+  const recordSuccess = () => {
+    consecutiveFailures = 0;
+    return setMode('online');
+  };
+
+  const recordFailure = (now: number) => {
+    consecutiveFailures++;
+    lastProbeAt = now;
+    return consecutiveFailures >= failureThreshold ? setMode('offline') : false;
+  };
+
+  // The browser's online/offline events are a strong hint, but only a successful
+  // request proves Gemini is reachable again, so coming online just triggers a probe
+  const setBrowserOnline = (online: boolean, now: number) => {
+    if (!online) {
+      consecutiveFailures = failureThreshold;
+      lastProbeAt = now;
+      return setMode('offline');
+    }
+    lastProbeAt = 0;
+    return false;
+  };
+
+  const shouldProbe = (now: number) => {
+    if (mode === 'online') return true;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+    if (now - lastProbeAt < probeIntervalMs) return false;
+    lastProbeAt = now;
+    return true;
+  };
+
+  const reset = () => {
+    mode = 'online';
+    consecutiveFailures = 0;
+    lastProbeAt = 0;
+  };
+
+  return { recordSuccess, recordFailure, setBrowserOnline, shouldProbe, getMode: () => mode, reset };
+};
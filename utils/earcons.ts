@@ -0,0 +1,90 @@
+import { AudioTheme, AudioVolumes, EarconCategory, EarconEvent } from '../types';
+import { MessageKey } from './i18n';
+
+export const EARCON_EVENTS: EarconEvent[] = ['scan', 'safe', 'caution', 'stop', 'listenStart', 'listenStop', 'error', 'found'];
+export const EARCON_CATEGORIES: EarconCategory[] = ['alerts', 'navigation', 'interface', 'spatial'];
+
+export const EARCON_LABELS: Record<EarconEvent, MessageKey> = {
+  scan: 'earconScan',
+  safe: 'earconSafe',
+  caution: 'earconCaution',
+  stop: 'earconStop',
+  listenStart: 'earconListenStart',
+  listenStop: 'earconListenStop',
+  error: 'earconError',
+  found: 'earconFound',
+};
+
+export const CATEGORY_LABELS: Record<EarconCategory, MessageKey> = {
+  alerts: 'categoryAlerts',
+  navigation: 'categoryNavigation',
+  interface: 'categoryInterface',
+  spatial: 'categorySpatial',
+};
+
+// Catalog keys for each theme's name and description, by theme id
+export const THEME_MESSAGES: Record<string, { name: MessageKey; description: MessageKey }> = {
+  classic: { name: 'themeClassicName', description: 'themeClassicDescription' },
+  soft: { name: 'themeSoftName', description: 'themeSoftDescription' },
+  'low-pitch': { name: 'themeLowPitchName', description: 'themeLowPitchDescription' },
+};
+
+// The original hard-coded sounds
+const CLASSIC: AudioTheme = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Sonar pings and sharp warning pulses.',
+  earcons: {
+    scan: { category: 'navigation', waveform: 'sine', frequency: 880, attackMs: 1, durationMs: 50, gain: 0.1, pan: 'center' },
+    safe: { category: 'navigation', waveform: 'sine', frequency: 800, glideTo: 600, glideMs: 150, attackMs: 10, durationMs: 300, gain: 0.3, pan: 'follow' },
+    caution: { category: 'alerts', waveform: 'sine', frequency: 800, glideTo: 600, glideMs: 150, attackMs: 10, durationMs: 300, gain: 0.3, pan: 'follow' },
+    stop: { category: 'alerts', waveform: 'triangle', frequency: 600, glideTo: 300, attackMs: 20, durationMs: 150, gain: 0.15, repetitions: 2, repeatGapMs: 180, pan: 'follow' },
+    listenStart: { category: 'interface', waveform: 'sine', frequency: 600, attackMs: 1, durationMs: 100, gain: 0.1, pan: 'center' },
+    listenStop: { category: 'interface', waveform: 'sine', frequency: 400, attackMs: 1, durationMs: 100, gain: 0.1, pan: 'center' },
+    error: { category: 'interface', waveform: 'sine', frequency: 200, attackMs: 1, durationMs: 100, gain: 0.1, pan: 'center' },
+    found: { category: 'navigation', waveform: 'sine', frequency: 1200, attackMs: 1, durationMs: 200, gain: 0.1, pan: 'center' },
+  },
+};
+
+// Rounder, quieter cues for long sessions
+const SOFT: AudioTheme = {
+  id: 'soft',
+  name: 'Soft',
+  description: 'Gentle sine tones with slow attacks.',
+  earcons: {
+    scan: { category: 'navigation', waveform: 'sine', frequency: 660, attackMs: 15, durationMs: 80, gain: 0.05, pan: 'center' },
+    safe: { category: 'navigation', waveform: 'sine', frequency: 520, glideTo: 440, attackMs: 30, durationMs: 350, gain: 0.15, pan: 'follow' },
+    caution: { category: 'alerts', waveform: 'sine', frequency: 600, glideTo: 500, attackMs: 20, durationMs: 250, gain: 0.2, repetitions: 2, repeatGapMs: 260, pan: 'follow' },
+    stop: { category: 'alerts', waveform: 'triangle', frequency: 500, glideTo: 350, attackMs: 20, durationMs: 200, gain: 0.25, repetitions: 3, repeatGapMs: 220, pan: 'follow' },
+    listenStart: { category: 'interface', waveform: 'sine', frequency: 440, glideTo: 660, attackMs: 20, durationMs: 150, gain: 0.08, pan: 'center' },
+    listenStop: { category: 'interface', waveform: 'sine', frequency: 660, glideTo: 440, attackMs: 20, durationMs: 150, gain: 0.08, pan: 'center' },
+    error: { category: 'interface', waveform: 'sine', frequency: 300, glideTo: 220, attackMs: 20, durationMs: 250, gain: 0.1, pan: 'center' },
+    found: { category: 'navigation', waveform: 'sine', frequency: 660, glideTo: 990, attackMs: 20, durationMs: 300, gain: 0.12, pan: 'center' },
+  },
+};
+
+// For high-frequency hearing loss: everything below ~500 Hz, rich waveforms, more repetitions
+const LOW_PITCH: AudioTheme = {
+  id: 'low-pitch',
+  name: 'Low Pitch',
+  description: 'Low, buzzy tones that stay audible with high-frequency hearing loss.',
+  earcons: {
+    scan: { category: 'navigation', waveform: 'square', frequency: 220, attackMs: 2, durationMs: 70, gain: 0.06, pan: 'center' },
+    safe: { category: 'navigation', waveform: 'sawtooth', frequency: 330, glideTo: 262, attackMs: 10, durationMs: 300, gain: 0.12, pan: 'follow' },
+    caution: { category: 'alerts', waveform: 'square', frequency: 392, glideTo: 330, attackMs: 5, durationMs: 180, gain: 0.15, repetitions: 2, repeatGapMs: 220, pan: 'follow' },
+    stop: { category: 'alerts', waveform: 'sawtooth', frequency: 440, glideTo: 196, attackMs: 5, durationMs: 180, gain: 0.2, repetitions: 3, repeatGapMs: 200, pan: 'follow' },
+    listenStart: { category: 'interface', waveform: 'square', frequency: 294, attackMs: 2, durationMs: 120, gain: 0.08, pan: 'center' },
+    listenStop: { category: 'interface', waveform: 'square', frequency: 196, attackMs: 2, durationMs: 120, gain: 0.08, pan: 'center' },
+    error: { category: 'interface', waveform: 'sawtooth', frequency: 147, attackMs: 2, durationMs: 250, gain: 0.1, repetitions: 2, repeatGapMs: 280, pan: 'center' },
+    found: { category: 'navigation', waveform: 'square', frequency: 262, glideTo: 523, attackMs: 5, durationMs: 300, gain: 0.1, pan: 'center' },
+  },
+};
+
+export const AUDIO_THEMES: AudioTheme[] = [CLASSIC, SOFT, LOW_PITCH];
+
+export const DEFAULT_AUDIO_VOLUMES: AudioVolumes = {
+  master: 1,
+  categories: { alerts: 1, navigation: 1, interface: 1, spatial: 1 },
+};
+
+export const getAudioTheme = (id: string): AudioTheme => AUDIO_THEMES.find(theme => theme.id === id) ?? CLASSIC;
@@ -0,0 +1,134 @@
+import { BoundingBox, FrameTransform, SceneAnswer, SonarResponse, TextReading } from '../types';
+
+export interface PreprocessOptions {
+  // Longest output edge in pixels; frames are never upscaled
+  targetSize?: number;
+  jpegQuality?: number;
+  // Crop to the walking corridor (center band, lower part of the frame)
+  cropToCorridor?: boolean;
+  corridor?: { x: [number, number]; y: [number, number] };
+  // Reject frames whose mean luminance (0-1) is below this (pocketed phone, covered lens)
+  minBrightness?: number;
+  // Reject frames whose Laplacian variance is below this (motion blur)
+  minSharpness?: number;
+}
+
+export type PreprocessResult =
+  | { ok: true; base64Image: string; transform: FrameTransform; brightness: number; sharpness: number }
+  | { ok: false; reason: 'dark' | 'blurred' | 'unavailable'; brightness: number; sharpness: number };
+
+const DEFAULT_CORRIDOR = { x: [0.15, 0.85] as [number, number], y: [0.2, 1.0] as [number, number] };
+
+// Mean luminance and Laplacian variance on a grayscale copy of the image
+const measureQuality = (data: Uint8ClampedArray, width: number, height: number) => {
+  const gray = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    sum += gray[i];
+  }
+
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      count++;
+    }
+  }
+  const mean = count ? lapSum / count : 0;
+  return {
+    brightness: gray.length ? sum / gray.length / 255 : 0,
+    sharpness: count ? lapSqSum / count - mean * mean : 0,
+  };
+};
+
+// Downscales, optionally crops and JPEG-encodes a video frame on the given canvas.
+// Frames that are too dark or blurred are rejected before they cost a request.
+export const preprocessFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  options: PreprocessOptions = {}
+): PreprocessResult => {
+  const targetSize = options.targetSize ?? 768;
+  const jpegQuality = options.jpegQuality ?? 0.7;
+  const minBrightness = options.minBrightness ?? 0.08;
+  const minSharpness = options.minSharpness ?? 40;
+  const corridor = options.corridor ?? DEFAULT_CORRIDOR;
+
+  const sourceWidth = video.videoWidth;
+  const sourceHeight = video.videoHeight;
+  if (!sourceWidth || !sourceHeight) {
+    return { ok: false, reason: 'unavailable', brightness: 0, sharpness: 0 };
+  }
+
+  const [cx0, cx1] = options.cropToCorridor ? corridor.x : [0, 1];
+  const [cy0, cy1] = options.cropToCorridor ? corridor.y : [0, 1];
+  const cropX = Math.round(cx0 * sourceWidth);
+  const cropY = Math.round(cy0 * sourceHeight);
+  const cropWidth = Math.round((cx1 - cx0) * sourceWidth);
+  const cropHeight = Math.round((cy1 - cy0) * sourceHeight);
+
+  const scale = Math.min(1, targetSize / Math.max(cropWidth, cropHeight));
+  const outputWidth = Math.round(cropWidth * scale);
+  const outputHeight = Math.round(cropHeight * scale);
+
+  canvas.width = outputWidth;
+  canvas.height = outputHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { ok: false, reason: 'unavailable', brightness: 0, sharpness: 0 };
+
+  ctx.drawImage(video, cropX, cropY, cropWidth, cropHeight, 0, 0, outputWidth, outputHeight);
+  const { data } = ctx.getImageData(0, 0, outputWidth, outputHeight);
+  const { brightness, sharpness } = measureQuality(data, outputWidth, outputHeight);
+
+  if (brightness < minBrightness) return { ok: false, reason: 'dark', brightness, sharpness };
+  if (sharpness < minSharpness) return { ok: false, reason: 'blurred', brightness, sharpness };
+
+  const dataUrl = canvas.toDataURL('image/jpeg', jpegQuality);
+  return {
+    ok: true,
+    base64Image: dataUrl.split(',')[1],
+    transform: { sourceWidth, sourceHeight, cropX, cropY, cropWidth, cropHeight, outputWidth, outputHeight, jpegQuality },
+    brightness,
+    sharpness,
+  };
+};
+
+// Maps a 0-1000 box over the submitted image back onto the 0-1000 full-frame grid
+export const mapBoxToSource = (box: BoundingBox, t: FrameTransform): BoundingBox => {
+  const [ymin, xmin, ymax, xmax] = box.box_2d;
+  const mapX = (v: number) => ((t.cropX + (v / 1000) * t.cropWidth) / t.sourceWidth) * 1000;
+  const mapY = (v: number) => ((t.cropY + (v / 1000) * t.cropHeight) / t.sourceHeight) * 1000;
+  return { ...box, box_2d: [mapY(ymin), mapX(xmin), mapY(ymax), mapX(xmax)] };
+};
+
+// Re-expresses boxes and pan of a response in full-frame coordinates
+export const mapResponseToSource = (response: SonarResponse, t: FrameTransform): SonarResponse => {
+  const centerX = (t.cropX + ((response.stereo_pan + 1) / 2) * t.cropWidth) / t.sourceWidth;
+  return {
+    ...response,
+    stereo_pan: Math.max(-1, Math.min(1, centerX * 2 - 1)),
+    visual_debug: {
+      hazards: (response.visual_debug?.hazards ?? []).map(b => mapBoxToSource(b, t)),
+      safe_path: (response.visual_debug?.safe_path ?? []).map(b => mapBoxToSource(b, t)),
+    },
+  };
+};
+
+export const mapAnswerToSource = (answer: SceneAnswer, t: FrameTransform): SceneAnswer => ({
+  ...answer,
+  regions: answer.regions.map(b => mapBoxToSource(b, t)),
+});
+
+export const mapReadingToSource = (reading: TextReading, t: FrameTransform): TextReading => ({
+  ...reading,
+  blocks: reading.blocks.map(block => ({
+    ...block,
+    box_2d: mapBoxToSource({ label: block.text, box_2d: block.box_2d }, t).box_2d,
+  })),
+});
@@ -0,0 +1,71 @@
+// Whole-screen gestures for users who can't find small on-screen controls.
+// Pointer handlers are attached to a large surface; taps that land on real
+// controls are left to those controls.
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface GestureOptions {
+  onDoubleTap(): void;
+  onSwipe(direction: SwipeDirection): void;
+  // Second tap must land within this of the first
+  doubleTapMs?: number;
+  // Taps may drift this far (px) and still count as taps
+  tapSlop?: number;
+  // Minimum travel (px) for a swipe
+  swipeDistance?: number;
+  // Swipes slower than this are treated as drags and ignored
+  swipeMaxMs?: number;
+}
+
+export interface GestureHandlers {
+  onPointerDown(e: { target: EventTarget | null; pointerId: number; clientX: number; clientY: number; isPrimary: boolean }): void;
+  onPointerUp(e: { target: EventTarget | null; pointerId: number; clientX: number; clientY: number; isPrimary: boolean }): void;
+}
+
+const INTERACTIVE_SELECTOR = 'button, input, select, textarea, a, label, [role="dialog"]';
+
+const isOnControl = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest(INTERACTIVE_SELECTOR);
+
+export const createGestureHandlers = (options: GestureOptions): GestureHandlers => {
+  const doubleTapMs = options.doubleTapMs ?? 350;
+  const tapSlop = options.tapSlop ?? 20;
+  const swipeDistance = options.swipeDistance ?? 80;
+  const swipeMaxMs = options.swipeMaxMs ?? 600;
+
+  let down: { pointerId: number; x: number; y: number; at: number } | null = null;
+  let lastTapAt = 0;
+
+  return {
+    onPointerDown: e => {
+      if (!e.isPrimary || isOnControl(e.target)) {
+        down = null;
+        return;
+      }
+      down = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, at: Date.now() };
+    },
+    onPointerUp: e => {
+      if (!down || down.pointerId !== e.pointerId) return;
+      const start = down;
+      down = null;
+      const now = Date.now();
+      const dx = e.clientX - start.x;
+      const dy = e.clientY - start.y;
+      const distance = Math.hypot(dx, dy);
+
+      if (distance <= tapSlop) {
+        if (now - lastTapAt <= doubleTapMs) {
+          lastTapAt = 0;
+          options.onDoubleTap();
+        } else {
+          lastTapAt = now;
+        }
+        return;
+      }
+      lastTapAt = 0;
+      if (distance >= swipeDistance && now - start.at <= swipeMaxMs) {
+        options.onSwipe(Math.abs(dx) >= Math.abs(dy) ? (dx < 0 ? 'left' : 'right') : (dy < 0 ? 'up' : 'down'));
+      }
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { HapticDirection, HapticOutput, SafetyStatus } from '../types';
+
+// Status is felt first, then direction after a pause:
+//   SAFE    -> direction pulses only
+//   CAUTION -> one medium buzz, then direction
+//   STOP    -> two long buzzes, then direction
+// Direction is a pulse count: 1 = left, 2 = ahead, 3 = right.
+const STATUS_PREFIX: Record<SafetyStatus, number[]> = {
+  SAFE: [],
+  CAUTION: [180],
+  STOP: [450, 120, 450],
+};
+const DIRECTION_PULSES: Record<HapticDirection, number> = { left: 1, center: 2, right: 3 };
+const PULSE_MS = 60;
+const PULSE_GAP_MS = 110;
+const SECTION_GAP_MS = 300;
+
+export const HAPTIC_EVENTS = {
+  found: [80, 60, 80, 60, 250],
+  error: [300],
+  // One tick per homing pulse; the tick rate carries the distance
+  homing: [30],
+};
+
+// Pans within this of center count as straight ahead
+const CENTER_ZONE = 0.3;
+
+export const panToDirection = (pan: number): HapticDirection =>
+  pan < -CENTER_ZONE ? 'left' : pan > CENTER_ZONE ? 'right' : 'center';
+
+export const buildStatusPattern = (status: SafetyStatus, pan: number): number[] => {
+  const pattern = [...STATUS_PREFIX[status]];
+  const pulses = DIRECTION_PULSES[panToDirection(pan)];
+  for (let i = 0; i < pulses; i++) {
+    // Patterns alternate vibrate/pause, so each pulse is preceded by a gap
+    if (pattern.length) pattern.push(i === 0 ? SECTION_GAP_MS : PULSE_GAP_MS);
+    pattern.push(PULSE_MS);
+  }
+  return pattern;
+};
+
+// The phone's own motor via the Vibration API (Android browsers; iOS has none)
+export const createVibrationOutput = (): HapticOutput => ({
+  name: 'vibration',
+  isAvailable: () => typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function',
+  play: pattern => {
+    navigator.vibrate?.(pattern);
+  },
+  cancel: () => {
+    navigator.vibrate?.(0);
+  },
+});
+
+// Records patterns instead of vibrating; stands in for hardware on desktops and in tests
+export const createStubHapticOutput = (log = true): HapticOutput & { played: number[][] } => {
+  const played: number[][] = [];
+  return {
+    name: 'stub',
+    played,
+    isAvailable: () => true,
+    play: pattern => {
+      played.push(pattern);
+      if (log) console.log(`[Haptics] ${pattern.join(' ')}`);
+    },
+    cancel: () => {},
+  };
+};
+
+// Available drivers; a Bluetooth wearable would register here
+const HAPTIC_DRIVERS: Record<string, () => HapticOutput> = {
+  vibration: createVibrationOutput,
+  stub: () => createStubHapticOutput(),
+};
+
+// ?haptics= URL param selects a driver (e.g. stub on a desktop), else the phone's motor
+export const resolveHapticOutput = (): HapticOutput => {
+  const requested = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('haptics') : null;
+  const driver = requested && requested in HAPTIC_DRIVERS ? requested : 'vibration';
+  return HAPTIC_DRIVERS[driver]();
+};
+
+export interface HapticFeedbackOptions {
+  output: HapticOutput;
+  // Repeated SAFE pulses play no more often than this; changes and alerts always play
+  safeIntervalMs?: number;
+}
+
+export interface HapticFeedback {
+  status(status: SafetyStatus, pan: number): void;
+  event(event: keyof typeof HAPTIC_EVENTS): void;
+  setEnabled(enabled: boolean): void;
+  setOutput(output: HapticOutput): void;
+  getOutput(): HapticOutput;
+}
+
+export const createHapticFeedback = (options: HapticFeedbackOptions): HapticFeedback => {
+  const safeIntervalMs = options.safeIntervalMs ?? 4000;
+  let output = options.output;
+  let enabled = false;
+  let lastStatus: SafetyStatus | null = null;
+  let lastSafeAt = 0;
+
+  const play = (pattern: number[]) => {
+    if (!enabled || !output.isAvailable()) return;
+    // A new cue replaces whatever is still vibrating
+    output.cancel();
+    output.play(pattern);
+  };
+
+  return {
+    status: (status, pan) => {
+      const repeat = status === lastStatus;
+      lastStatus = status;
+      if (status === 'SAFE') {
+        const now = Date.now();
+        if (repeat && now - lastSafeAt < safeIntervalMs) return;
+        lastSafeAt = now;
+      }
+      play(buildStatusPattern(status, pan));
+    },
+    event: event => play(HAPTIC_EVENTS[event]),
+    setEnabled: value => {
+      enabled = value;
+      if (!value) output.cancel();
+    },
+    setOutput: next => {
+      output.cancel();
+      output = next;
+      console.log(`[Haptics] Output: ${next.name}`);
+    },
+    getOutput: () => output,
+  };
+};
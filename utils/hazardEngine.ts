@@ -0,0 +1,123 @@
+import { LocalHazard, SafetyStatus, StabilizedStatus, SonarResponse, TrackedObject } from '../types';
+import { describeTrack } from './objectTracker';
+
+const SEVERITY: Record<SafetyStatus, number> = { SAFE: 0, CAUTION: 1, STOP: 2 };
+
+// Classes that matter for a pedestrian; vehicles get stricter thresholds
+const HAZARD_CLASSES = ['person', 'bicycle', 'motorcycle', 'dog', 'chair', 'bench', 'couch', 'dining table', 'potted plant', 'fire hydrant', 'suitcase'];
+const VEHICLE_CLASSES = ['car', 'bus', 'truck', 'train'];
+
+export interface HazardEngineOptions {
+  minScore?: number;
+  // Horizontal band (fraction of frame width) treated as the walking corridor
+  corridor?: [number, number];
+  cautionArea?: number;
+  stopArea?: number;
+  // Relative area growth per second that counts as "approaching fast"
+  approachRate?: number;
+  // A hazard is announced again only after this long with no hazard at all
+  announceCooldownMs?: number;
+  // Spoken description of a hazard, e.g. in the current language
+  describe?(track: TrackedObject): string;
+}
+
+export interface HazardEngine {
+  evaluate(tracks: TrackedObject[], timestamp: number): LocalHazard | null;
+  reset(): void;
+}
+
+// Scores tracked COCO-SSD objects by size, position and growth so the app can warn
+// between Gemini cycles. Only the most severe hazard in the frame is returned.
+export const createHazardEngine = (options: HazardEngineOptions = {}): HazardEngine => {
+  const minScore = options.minScore ?? 0.5;
+  const [corridorMin, corridorMax] = options.corridor ?? [0.25, 0.75];
+  const cautionArea = options.cautionArea ?? 0.12;
+  const stopArea = options.stopArea ?? 0.35;
+  const approachRate = options.approachRate ?? 0.4;
+  const announceCooldownMs = options.announceCooldownMs ?? 4000;
+  const describe = options.describe ?? (track => describeTrack(track));
+
+  // An ongoing hazard is announced once; escalations and new objects are announced again
+  const announcedTrackIds = new Set<number>();
+  let lastStatus: SafetyStatus | null = null;
+  let lastHazardAt = -Infinity;
+
+  const evaluate = (tracks: TrackedObject[], timestamp: number): LocalHazard | null => {
+    let worst: LocalHazard | null = null;
+
+    tracks.forEach(track => {
+      const isVehicle = VEHICLE_CLASSES.includes(track.label);
+      // Coasting tracks (no detection this frame) don't raise new alerts
+      if (track.missedFrames > 0 || track.score < minScore) return;
+      if (!isVehicle && !HAZARD_CLASSES.includes(track.label)) return;
+
+      const { cx, area } = track.history[track.history.length - 1];
+      const growth = track.areaRate;
+
+      const inCorridor = cx >= corridorMin && cx <= corridorMax;
+      const scale = isVehicle ? 0.5 : 1; // vehicles are dangerous at smaller apparent sizes
+      const approaching = growth > approachRate;
+
+      let status: SafetyStatus = 'SAFE';
+      if (inCorridor && (area >= stopArea * scale || (approaching && area >= cautionArea * scale))) {
+        status = 'STOP';
+      } else if (area >= cautionArea * scale || (approaching && area >= cautionArea * scale * 0.5)) {
+        status = 'CAUTION';
+      }
+      if (status === 'SAFE') return;
+
+      const candidate: LocalHazard = {
+        safety_status: status,
+        label: track.label,
+        stereo_pan: Math.max(-1, Math.min(1, cx * 2 - 1)),
+        areaRatio: area,
+        growthRate: growth,
+        trackId: track.id,
+        motion: track.motion,
+        description: describe(track),
+        announce: false,
+      };
+      if (!worst || SEVERITY[status] > SEVERITY[worst.safety_status] ||
+          (status === worst.safety_status && area > worst.areaRatio)) {
+        worst = candidate;
+      }
+    });
+
+    if (!worst) return null;
+
+    const hazard = worst as LocalHazard;
+    // After a quiet spell everything counts as new again
+    if (timestamp - lastHazardAt >= announceCooldownMs) reset();
+    const escalated = lastStatus === null || SEVERITY[hazard.safety_status] > SEVERITY[lastStatus];
+    hazard.announce = escalated || !announcedTrackIds.has(hazard.trackId);
+    announcedTrackIds.add(hazard.trackId);
+    lastStatus = hazard.safety_status;
+    lastHazardAt = timestamp;
+    return hazard;
+  };
+
+  const reset = () => {
+    announcedTrackIds.clear();
+    lastStatus = null;
+    lastHazardAt = -Infinity;
+  };
+
+  return { evaluate, reset };
+};
+
+export interface FusedStatus {
+  safety_status: SafetyStatus;
+  stereo_pan: number;
+  source: 'gemini' | 'local';
+}
+
+// Local hazards can only raise the level set by Gemini, never lower it
+export const fuseStatus = (
+  gemini: StabilizedStatus | SonarResponse | null,
+  local: LocalHazard | null
+): FusedStatus | null => {
+  if (local && (!gemini || SEVERITY[local.safety_status] > SEVERITY[gemini.safety_status])) {
+    return { safety_status: local.safety_status, stereo_pan: local.stereo_pan, source: 'local' };
+  }
+  return gemini ? { safety_status: gemini.safety_status, stereo_pan: gemini.stereo_pan, source: 'gemini' } : null;
+};
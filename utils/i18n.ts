@@ -0,0 +1,78 @@
+import { EN_GRAMMAR, EN_MESSAGES, Grammar, Messages } from '../locales/en';
+import { BUILT_IN_PACKS } from '../locales';
+
+export type MessageKey = keyof Messages;
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export type GrammarKey = keyof Grammar;
+
+// Spoken phrases accepted for a grammar entry
+export type PhraseBook = (key: GrammarKey) => string[];
+
+// Everything needed to run the app in one language
+export interface LanguagePack {
+  code: string; // ISO 639-1
+  name: string; // English name; Gemini is asked to respond in this language
+  nativeName: string;
+  locale: string; // speech synthesis and recognition (BCP 47)
+  label: string; // short header label
+  flag: string;
+  direction: 'ltr' | 'rtl';
+  // Missing keys fall back to English
+  messages: Partial<Messages>;
+  // Voice command phrases; English ones are accepted in every language
+  grammar: Partial<Grammar>;
+}
+
+// Keys a pack leaves untranslated
+export const findMissingMessages = (pack: LanguagePack): MessageKey[] =>
+  (Object.keys(EN_MESSAGES) as MessageKey[]).filter(key => !pack.messages[key]);
+
+// Grammar entries a pack leaves out (an empty list means the language has no such words)
+export const findMissingGrammar = (pack: LanguagePack): GrammarKey[] =>
+  (Object.keys(EN_GRAMMAR) as GrammarKey[]).filter(key => !pack.grammar[key]);
+
+let packs: LanguagePack[] = [];
+
+// Adds (or replaces) a language; incomplete packs are flagged but still usable
+export const registerLanguagePack = (pack: LanguagePack) => {
+  const missing = findMissingMessages(pack);
+  if (missing.length) {
+    console.warn(`[i18n] Language pack "${pack.code}" is missing ${missing.length} messages: ${missing.join(', ')}`);
+  }
+  const missingGrammar = findMissingGrammar(pack);
+  if (missingGrammar.length) {
+    console.warn(`[i18n] Language pack "${pack.code}" is missing ${missingGrammar.length} voice command entries: ${missingGrammar.join(', ')}`);
+  }
+  packs = [...packs.filter(p => p.code !== pack.code), pack];
+};
+
+BUILT_IN_PACKS.forEach(registerLanguagePack);
+
+export const getLanguagePacks = (): LanguagePack[] => packs;
+
+export const getLanguagePack = (code: string): LanguagePack =>
+  packs.find(pack => pack.code === code) ?? packs[0];
+
+const fillParams = (template: string, params?: Record<string, string | number>) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export const createTranslator = (pack: LanguagePack): Translator => (key, params) =>
+  fillParams(pack.messages[key] ?? EN_MESSAGES[key], params);
+
+// Default for modules used before (or without) a language choice
+export const translateEnglish: Translator = (key, params) => fillParams(EN_MESSAGES[key], params);
+
+// Recognizers often pass English through untranslated ("stop", "okay sonar"), so it always works
+export const createPhraseBook = (pack: LanguagePack): PhraseBook => key =>
+  pack.code === 'en' ? EN_GRAMMAR[key] : [...(pack.grammar[key] ?? []), ...EN_GRAMMAR[key]];
+
+export const englishPhrases: PhraseBook = key => EN_GRAMMAR[key];
+
+// COCO-SSD class name in the current language ("dining table" -> objectDiningTable);
+// classes without a catalog entry are left as-is
+export const translateObject = (t: Translator, label: string): string => {
+  const key = `object${label.replace(/(^|\s)(\w)/g, (_, space, letter) => letter.toUpperCase())}`;
+  return key in EN_MESSAGES ? t(key as MessageKey) : label;
+};
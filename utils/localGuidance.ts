@@ -0,0 +1,47 @@
+import { BoundingBox, LocalHazard, SonarResponse, TrackedObject } from '../types';
+import { translateEnglish, Translator } from './i18n';
+
+// Builds a navigation response purely from on-device COCO-SSD tracks, used when
+// Gemini is unreachable. Deliberately conservative: no path boxes, short commands.
+export const buildLocalGuidance = (
+  tracks: TrackedObject[],
+  hazard: LocalHazard | null,
+  frameWidth: number,
+  frameHeight: number,
+  t: Translator = translateEnglish
+): SonarResponse => {
+  const hazards: BoundingBox[] = tracks
+    .filter(track => track.missedFrames === 0 && frameWidth > 0 && frameHeight > 0)
+    .map(track => {
+      const [x, y, w, h] = track.bbox;
+      return {
+        label: track.label,
+        box_2d: [
+          (y / frameHeight) * 1000,
+          (x / frameWidth) * 1000,
+          ((y + h) / frameHeight) * 1000,
+          ((x + w) / frameWidth) * 1000,
+        ],
+      };
+    });
+
+  if (!hazard) {
+    return {
+      safety_status: 'SAFE',
+      reasoning_summary: hazards.length ? t('localObjectsNoneClose', { count: hazards.length }) : t('localNoObstacles'),
+      navigation_command: t('localPathClear'),
+      stereo_pan: 0,
+      visual_debug: { hazards, safe_path: [] },
+    };
+  }
+
+  // Steer away from the hazard: obstacle on the right -> move left, and vice versa
+  const moveLeft = hazard.stereo_pan >= 0;
+  return {
+    safety_status: hazard.safety_status,
+    reasoning_summary: hazard.description,
+    navigation_command: t(hazard.safety_status === 'STOP' ? 'localStopWait' : moveLeft ? 'localMoveLeft' : 'localMoveRight'),
+    stereo_pan: hazard.stereo_pan,
+    visual_debug: { hazards, safe_path: [] },
+  };
+};
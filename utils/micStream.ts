@@ -0,0 +1,73 @@
+import { encodePcm16, rms } from './audioUtils';
+
+export interface MicStream {
+  stop(): void;
+}
+
+// Resamples a stream of chunks to toRate. Each output sample averages the input samples
+// it spans (a crude low-pass), and the fractional position carries over between chunks.
+const createResampler = (fromRate: number, toRate: number) => {
+  const ratio = fromRate / toRate;
+  let carry = new Float32Array(0);
+  let position = 0; // start of the next output sample, in carry + input samples
+
+  return (input: Float32Array): Float32Array => {
+    if (ratio === 1) return input;
+    const samples = new Float32Array(carry.length + input.length);
+    samples.set(carry);
+    samples.set(input, carry.length);
+
+    const count = Math.max(0, Math.floor((samples.length - position) / ratio));
+    const output = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      const start = position + i * ratio;
+      const end = Math.floor(start + ratio);
+      let sum = 0;
+      for (let j = Math.floor(start); j < end; j++) sum += samples[j];
+      // Below the target rate a span can be empty; hold the nearest sample instead
+      output[i] = end > Math.floor(start) ? sum / (end - Math.floor(start)) : samples[Math.floor(start)];
+    }
+
+    const consumed = position + count * ratio;
+    carry = samples.slice(Math.floor(consumed));
+    position = consumed - Math.floor(consumed);
+    return output;
+  };
+};
+
+// Streams microphone audio as 16kHz 16-bit PCM chunks (base64), the format the
+// Live API expects, along with each chunk's RMS level for local barge-in detection.
+export const startMicStream = async (
+  onChunk: (base64Pcm: string, level: number) => void,
+  sampleRate = 16000,
+  chunkSize = 2048
+): Promise<MicStream> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+  });
+  // Separate context at the mic's own rate: Firefox refuses to connect a mic to a context
+  // running at a different rate, so the processor resamples to the target rate instead
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const resample = createResampler(ctx.sampleRate, sampleRate);
+  const source = ctx.createMediaStreamSource(stream);
+  // ScriptProcessor is deprecated but needs no separate worklet module
+  const processor = ctx.createScriptProcessor(chunkSize, 1, 1);
+
+  processor.onaudioprocess = event => {
+    const samples = resample(event.inputBuffer.getChannelData(0));
+    if (samples.length) onChunk(encodePcm16(samples), rms(samples));
+  };
+  source.connect(processor);
+  processor.connect(ctx.destination);
+  console.log(`[MicStream] Streaming microphone at ${ctx.sampleRate}Hz as ${sampleRate}Hz`);
+
+  return {
+    stop: () => {
+      processor.disconnect();
+      source.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      ctx.close().catch(() => {});
+      console.log("[MicStream] Stopped");
+    },
+  };
+};
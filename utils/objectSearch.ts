@@ -0,0 +1,139 @@
+import { HomingState, ObjectLocation, TrackedObject } from '../types';
+import { englishPhrases, PhraseBook } from './i18n';
+import { matchTemplates, normalizeUtterance, stripWords } from './voiceCommands';
+
+// COCO-SSD classes worth searching for, with the words people use for them
+const COCO_SYNONYMS: Record<string, string[]> = {
+  'person': ['person', 'someone', 'somebody', 'people', 'man', 'woman', 'child'],
+  'chair': ['chair', 'seat', 'stool'],
+  'couch': ['couch', 'sofa'],
+  'bed': ['bed'],
+  'dining table': ['table', 'desk'],
+  'toilet': ['toilet'],
+  'tv': ['tv', 'television'],
+  'laptop': ['laptop', 'computer'],
+  'cell phone': ['phone', 'cellphone', 'mobile', 'smartphone'],
+  'keyboard': ['keyboard'],
+  'mouse': ['mouse'],
+  'remote': ['remote'],
+  'book': ['book'],
+  'clock': ['clock'],
+  'bottle': ['bottle'],
+  'cup': ['cup', 'mug'],
+  'bowl': ['bowl'],
+  'backpack': ['backpack', 'rucksack'],
+  'handbag': ['bag', 'handbag', 'purse'],
+  'suitcase': ['suitcase', 'luggage'],
+  'umbrella': ['umbrella'],
+  'bench': ['bench'],
+  'sink': ['sink'],
+  'refrigerator': ['fridge', 'refrigerator'],
+  'microwave': ['microwave'],
+  'oven': ['oven', 'stove'],
+  'potted plant': ['plant'],
+  'car': ['car'],
+  'bicycle': ['bicycle', 'bike'],
+  'bus': ['bus'],
+  'traffic light': ['traffic light'],
+  'stop sign': ['stop sign'],
+  'dog': ['dog'],
+  'cat': ['cat'],
+};
+
+// "find the door" -> "door", "where is my bag" -> "bag"; null when the utterance isn't a search request.
+// "Where is the exit?" is a scene question; only objects COCO-SSD can track turn it into a search.
+export const parseFindCommand = (transcript: string, phrases: PhraseBook = englishPhrases): string | null => {
+  const normalized = stripWords(normalizeUtterance(transcript), phrases('please'), true);
+  const found = matchTemplates(normalized, phrases('find'))[0];
+  if (found !== undefined) return stripWords(found, phrases('articles')) || null;
+  const where = matchTemplates(normalized, phrases('whereIs')).map(target => stripWords(target, phrases('articles')));
+  return where.find(target => matchCocoClass(target)) ?? null;
+};
+
+// COCO class that can track the target locally, or null for open-vocabulary targets
+export const matchCocoClass = (target: string): string | null => {
+  const phrase = target.toLowerCase().trim();
+  // Accept simple plurals ("chairs") alongside the word itself
+  const words = new Set(phrase.split(/\s+/).flatMap(w => [w, w.replace(/s$/, '')]));
+  for (const [cocoClass, synonyms] of Object.entries(COCO_SYNONYMS)) {
+    if (synonyms.some(s => s.includes(' ') ? phrase.includes(s) : words.has(s))) return cocoClass;
+  }
+  return null;
+};
+
+export interface TargetHomingOptions {
+  // Sightings older than this are ignored (local detections arrive many times a second)
+  localTimeoutMs?: number;
+  remoteTimeoutMs?: number;
+  // Target box area / frame area at which the object is within arm's reach
+  reachArea?: number;
+  // |pan| below this counts as straight ahead
+  centerTolerance?: number;
+}
+
+export interface TargetHoming {
+  // Best matching track from local detections, if any
+  updateLocal(tracks: TrackedObject[], cocoClass: string, frameWidth: number, frameHeight: number, now: number): boolean;
+  updateRemote(location: ObjectLocation, now: number): void;
+  hasFreshLocal(now: number): boolean;
+  getState(now: number): HomingState | null;
+  reset(): void;
+}
+
+interface Sighting {
+  pan: number;
+  area: number; // fraction of the frame
+  timestamp: number;
+}
+
+// Fuses fast COCO-SSD sightings with occasional Gemini lookups into a single
+// direction/proximity estimate; local sightings win while they are fresh.
+export const createTargetHoming = (options: TargetHomingOptions = {}): TargetHoming => {
+  const localTimeoutMs = options.localTimeoutMs ?? 1000;
+  const remoteTimeoutMs = options.remoteTimeoutMs ?? 6000;
+  const reachArea = options.reachArea ?? 0.25;
+  const centerTolerance = options.centerTolerance ?? 0.15;
+
+  let local: Sighting | null = null;
+  let remote: Sighting | null = null;
+
+  const toState = (sighting: Sighting, source: HomingState['source']): HomingState => {
+    const proximity = Math.min(1, Math.sqrt(sighting.area / reachArea));
+    const centered = Math.abs(sighting.pan) < centerTolerance;
+    return { pan: sighting.pan, proximity, centered, inReach: sighting.area >= reachArea && centered, source };
+  };
+
+  return {
+    updateLocal: (tracks, cocoClass, frameWidth, frameHeight, now) => {
+      const candidates = tracks.filter(t => t.label === cocoClass && t.missedFrames === 0);
+      if (!candidates.length) return false;
+      // Largest is usually the nearest
+      const best = candidates.reduce((a, b) => (b.bbox[2] * b.bbox[3] > a.bbox[2] * a.bbox[3] ? b : a));
+      const [x, , w, h] = best.bbox;
+      local = {
+        pan: ((x + w / 2) / frameWidth) * 2 - 1,
+        area: (w * h) / (frameWidth * frameHeight),
+        timestamp: now,
+      };
+      return true;
+    },
+    updateRemote: (location, now) => {
+      const [ymin, xmin, ymax, xmax] = location.box_2d;
+      remote = {
+        pan: ((xmin + xmax) / 2 / 1000) * 2 - 1,
+        area: ((ymax - ymin) / 1000) * ((xmax - xmin) / 1000),
+        timestamp: now,
+      };
+    },
+    hasFreshLocal: now => !!local && now - local.timestamp <= localTimeoutMs,
+    getState: now => {
+      if (local && now - local.timestamp <= localTimeoutMs) return toState(local, 'local');
+      if (remote && now - remote.timestamp <= remoteTimeoutMs) return toState(remote, 'remote');
+      return null;
+    },
+    reset: () => {
+      local = null;
+      remote = null;
+    },
+  };
+};
@@ -0,0 +1,155 @@
+import { Detection, TrackedObject, TrackMotion, TrackPoint } from '../types';
+import { translateEnglish, translateObject, Translator } from './i18n';
+
+export interface ObjectTrackerOptions {
+  minIou?: number;
+  // Fallback centroid match distance, as a fraction of the frame diagonal
+  maxCentroidDistance?: number;
+  // Frames a track survives without a matching detection
+  maxMissedFrames?: number;
+  historyLength?: number;
+  // Time window (ms) used to estimate motion from the track history
+  motionWindowMs?: number;
+  approachRate?: number;
+  crossingSpeed?: number;
+}
+
+export interface ObjectTracker {
+  update(detections: Detection[], frameWidth: number, frameHeight: number, timestamp: number): TrackedObject[];
+  getTracks(): TrackedObject[];
+  reset(): void;
+}
+
+const iou = (a: Detection['bbox'], b: Detection['bbox']) => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a[2] * a[3] + b[2] * b[3] - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const toPoint = (bbox: Detection['bbox'], frameWidth: number, frameHeight: number, timestamp: number): TrackPoint => ({
+  cx: (bbox[0] + bbox[2] / 2) / frameWidth,
+  cy: (bbox[1] + bbox[3] / 2) / frameHeight,
+  area: (bbox[2] * bbox[3]) / (frameWidth * frameHeight),
+  timestamp,
+});
+
+// Natural-language position + motion, e.g. "person approaching from the left"
+export const describeTrack = (track: Pick<TrackedObject, 'label' | 'motion' | 'velocityX' | 'history'>, t: Translator = translateEnglish) => {
+  const last = track.history[track.history.length - 1];
+  const side = !last ? 'ahead' : last.cx < 0.33 ? 'left' : last.cx > 0.67 ? 'right' : 'ahead';
+  const params = { object: translateObject(t, track.label) };
+  switch (track.motion) {
+    case 'approaching':
+      return t(side === 'ahead' ? 'hazardApproachingAhead' : side === 'left' ? 'hazardApproachingLeft' : 'hazardApproachingRight', params);
+    case 'receding':
+      return t('hazardMovingAway', params);
+    case 'crossing':
+      return t(track.velocityX < 0 ? 'hazardCrossingLeft' : 'hazardCrossingRight', params);
+    default:
+      return t(side === 'ahead' ? 'hazardAhead' : side === 'left' ? 'hazardOnLeft' : 'hazardOnRight', params);
+  }
+};
+
+// IoU tracker with centroid fallback. Matches greedily per class, keeps a short
+// history per track and classifies motion from area and position change.
+export const createObjectTracker = (options: ObjectTrackerOptions = {}): ObjectTracker => {
+  const minIou = options.minIou ?? 0.3;
+  const maxCentroidDistance = options.maxCentroidDistance ?? 0.15;
+  const maxMissedFrames = options.maxMissedFrames ?? 5;
+  const historyLength = options.historyLength ?? 20;
+  const motionWindowMs = options.motionWindowMs ?? 1000;
+  const approachRate = options.approachRate ?? 0.25;
+  const crossingSpeed = options.crossingSpeed ?? 0.15;
+
+  let tracks: TrackedObject[] = [];
+  let nextId = 1;
+
+  const estimateMotion = (track: TrackedObject) => {
+    const newest = track.history[track.history.length - 1];
+    const oldest = track.history.find(p => newest.timestamp - p.timestamp <= motionWindowMs) ?? newest;
+    const dt = (newest.timestamp - oldest.timestamp) / 1000;
+    if (dt < 0.2) return; // not enough history yet
+
+    track.areaRate = (newest.area / Math.max(oldest.area, 1e-4) - 1) / dt;
+    track.velocityX = (newest.cx - oldest.cx) / dt;
+
+    let motion: TrackMotion = 'stationary';
+    if (track.areaRate > approachRate) motion = 'approaching';
+    else if (track.areaRate < -approachRate) motion = 'receding';
+    else if (Math.abs(track.velocityX) > crossingSpeed) motion = 'crossing';
+    track.motion = motion;
+  };
+
+  const update = (detections: Detection[], frameWidth: number, frameHeight: number, timestamp: number): TrackedObject[] => {
+    if (!frameWidth || !frameHeight) return tracks;
+
+    // Score every same-class pair, then assign best matches first
+    const pairs: { track: TrackedObject; detIndex: number; score: number }[] = [];
+    detections.forEach((det, detIndex) => {
+      const point = toPoint(det.bbox, frameWidth, frameHeight, timestamp);
+      tracks.forEach(track => {
+        if (track.label !== det.class) return;
+        const overlap = iou(track.bbox, det.bbox);
+        if (overlap >= minIou) {
+          pairs.push({ track, detIndex, score: 1 + overlap });
+          return;
+        }
+        const last = track.history[track.history.length - 1];
+        const dist = Math.hypot(last.cx - point.cx, last.cy - point.cy) / Math.SQRT2;
+        if (dist <= maxCentroidDistance) {
+          pairs.push({ track, detIndex, score: 1 - dist / maxCentroidDistance });
+        }
+      });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    pairs.forEach(({ track, detIndex }) => {
+      if (matchedTracks.has(track.id) || matchedDetections.has(detIndex)) return;
+      matchedTracks.add(track.id);
+      matchedDetections.add(detIndex);
+
+      const det = detections[detIndex];
+      track.bbox = det.bbox;
+      track.score = det.score;
+      track.missedFrames = 0;
+      track.history.push(toPoint(det.bbox, frameWidth, frameHeight, timestamp));
+      if (track.history.length > historyLength) track.history.shift();
+      estimateMotion(track);
+    });
+
+    tracks.forEach(track => {
+      if (!matchedTracks.has(track.id)) track.missedFrames++;
+    });
+    tracks = tracks.filter(track => track.missedFrames <= maxMissedFrames);
+
+    detections.forEach((det, detIndex) => {
+      if (matchedDetections.has(detIndex)) return;
+      tracks.push({
+        id: nextId++,
+        label: det.class,
+        bbox: det.bbox,
+        score: det.score,
+        history: [toPoint(det.bbox, frameWidth, frameHeight, timestamp)],
+        motion: 'stationary',
+        areaRate: 0,
+        velocityX: 0,
+        missedFrames: 0,
+      });
+    });
+
+    return tracks;
+  };
+
+  const reset = () => {
+    tracks = [];
+    nextId = 1;
+  };
+
+  return { update, getTracks: () => tracks, reset };
+};
@@ -0,0 +1,60 @@
+import { QueryTurn } from '../types';
+import { englishPhrases, GrammarKey, PhraseBook } from './i18n';
+import { matchesPhrase, normalizeUtterance, stripWords } from './voiceCommands';
+
+export interface QueryHistoryOptions {
+  // Question/answer pairs kept for follow-ups
+  maxTurns?: number;
+  // Older turns are dropped: the user has probably moved on
+  maxAgeMs?: number;
+}
+
+export interface QueryHistory {
+  add(turn: QueryTurn): void;
+  // Turns still within maxAgeMs, oldest first
+  getTurns(now: number): QueryTurn[];
+  last(): QueryTurn | null;
+  clear(): void;
+}
+
+export type HistoryCommand = 'repeat' | 'clear';
+
+export const createQueryHistory = (options: QueryHistoryOptions = {}): QueryHistory => {
+  const maxTurns = options.maxTurns ?? 5;
+  const maxAgeMs = options.maxAgeMs ?? 5 * 60 * 1000;
+  let turns: QueryTurn[] = [];
+
+  return {
+    add: turn => {
+      turns = [...turns, turn].slice(-maxTurns);
+    },
+    getTurns: now => turns.filter(turn => now - turn.timestamp <= maxAgeMs),
+    last: () => turns[turns.length - 1] ?? null,
+    clear: () => {
+      turns = [];
+    },
+  };
+};
+
+// Grammar entry for each command, matched against the whole utterance
+const COMMAND_PHRASES: Record<HistoryCommand, GrammarKey> = {
+  repeat: 'repeat',
+  clear: 'clearHistory',
+};
+
+// Recognizes "repeat" / "clear" so they are handled locally instead of sent to the model
+export const parseHistoryCommand = (transcript: string, phrases: PhraseBook = englishPhrases): HistoryCommand | null => {
+  const normalized = stripWords(normalizeUtterance(transcript), phrases('please'), true);
+  for (const command of Object.keys(COMMAND_PHRASES) as HistoryCommand[]) {
+    if (matchesPhrase(normalized, phrases(COMMAND_PHRASES[command]))) return command;
+  }
+  return null;
+};
+
+// Plain-text transcript of earlier turns for the model prompt
+export const formatHistoryPrompt = (turns: QueryTurn[]): string =>
+  turns.map(turn => [
+    turn.sceneSummary ? `(Scene then: ${turn.sceneSummary})` : null,
+    `User: ${turn.question}`,
+    `Assistant: ${turn.answer}`,
+  ].filter(Boolean).join('\n')).join('\n');
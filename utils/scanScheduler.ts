@@ -0,0 +1,107 @@
+import { SafetyStatus } from '../types';
+
+export interface ScanSchedulerOptions {
+  minIntervalMs?: number;
+  baseIntervalMs?: number;
+  maxIntervalMs?: number;
+  // Multiplier applied to the interval after each quiet SAFE cycle
+  backoffFactor?: number;
+  // Mean frame difference (0-1) that counts as a significant scene change
+  sceneChangeThreshold?: number;
+  // Quota budget: at most maxRequests analyzeFrame calls per rolling window
+  maxRequests?: number;
+  budgetWindowMs?: number;
+}
+
+export interface SchedulerObservation {
+  sceneChange: number;
+  maxTrackId: number;
+  status: SafetyStatus | null;
+}
+
+export interface ScanScheduler {
+  // Feed the latest signals; cheap enough to call on every tick
+  observe(observation: SchedulerObservation): void;
+  shouldRun(now: number): boolean;
+  // countsTowardBudget = false for local-only cycles that cost no quota
+  recordRun(now: number, countsTowardBudget?: boolean): void;
+  getInterval(): number;
+  // User setting; min and max bounds stay as configured
+  setBaseInterval(ms: number): void;
+  reset(): void;
+}
+
+// Adaptive replacement for a fixed setInterval: scans sooner when the scene is
+// busy or dangerous, backs off while the user stands still in a SAFE scene.
+export const createScanScheduler = (options: ScanSchedulerOptions = {}): ScanScheduler => {
+  const minIntervalMs = options.minIntervalMs ?? 2500;
+  let baseIntervalMs = options.baseIntervalMs ?? 6000;
+  const maxIntervalMs = options.maxIntervalMs ?? 15000;
+  const backoffFactor = options.backoffFactor ?? 1.5;
+  const sceneChangeThreshold = options.sceneChangeThreshold ?? 0.08;
+  const maxRequests = options.maxRequests ?? 15;
+  const budgetWindowMs = options.budgetWindowMs ?? 60000;
+
+  let interval = baseIntervalMs;
+  let lastRunAt = 0;
+  let requestTimes: number[] = [];
+  // Signals accumulated since the last run
+  let peakSceneChange = 0;
+  let maxTrackIdAtRun = 0;
+  let latestTrackId = 0;
+  let status: SafetyStatus | null = null;
+
+  const observe = (observation: SchedulerObservation) => {
+    peakSceneChange = Math.max(peakSceneChange, observation.sceneChange);
+    latestTrackId = Math.max(latestTrackId, observation.maxTrackId);
+    status = observation.status;
+  };
+
+  const computeInterval = () => {
+    const busy = peakSceneChange >= sceneChangeThreshold || latestTrackId > maxTrackIdAtRun;
+    if (status === 'STOP' || busy) return minIntervalMs;
+    if (status === 'CAUTION') return Math.min(interval, baseIntervalMs);
+    return interval;
+  };
+
+  const shouldRun = (now: number) => {
+    requestTimes = requestTimes.filter(t => now - t < budgetWindowMs);
+    if (requestTimes.length >= maxRequests) return false;
+    return now - lastRunAt >= computeInterval();
+  };
+
+  const recordRun = (now: number, countsTowardBudget = true) => {
+    const busy = peakSceneChange >= sceneChangeThreshold || latestTrackId > maxTrackIdAtRun;
+    if (status === 'STOP' || busy) {
+      interval = baseIntervalMs;
+    } else if (status === 'SAFE') {
+      // Quiet and safe: stretch the next interval
+      interval = Math.min(maxIntervalMs, interval * backoffFactor);
+    } else {
+      interval = baseIntervalMs;
+    }
+    console.log(`[ScanScheduler] Run recorded. Next quiet interval: ${Math.round(interval)}ms`);
+
+    lastRunAt = now;
+    if (countsTowardBudget) requestTimes.push(now);
+    peakSceneChange = 0;
+    maxTrackIdAtRun = latestTrackId;
+  };
+
+  const reset = () => {
+    interval = baseIntervalMs;
+    lastRunAt = 0;
+    requestTimes = [];
+    peakSceneChange = 0;
+    maxTrackIdAtRun = 0;
+    latestTrackId = 0;
+    status = null;
+  };
+
+  const setBaseInterval = (ms: number) => {
+    baseIntervalMs = Math.min(maxIntervalMs, Math.max(minIntervalMs, ms));
+    interval = baseIntervalMs;
+  };
+
+  return { observe, shouldRun, recordRun, getInterval: computeInterval, setBaseInterval, reset };
+};
@@ -0,0 +1,39 @@
+// Cheap frame-difference metric on a tiny grayscale thumbnail, used to decide
+// whether the scene changed enough to warrant an early Gemini call.
+
+const THUMB_WIDTH = 32;
+const THUMB_HEIGHT = 24;
+
+export interface SceneChangeDetector {
+  // Returns mean absolute luminance difference vs. the previous sample (0-1)
+  measure(source: CanvasImageSource): number;
+  reset(): void;
+}
+
+export const createSceneChangeDetector = (canvas: HTMLCanvasElement): SceneChangeDetector => {
+  let previous: Float32Array | null = null;
+
+  const measure = (source: CanvasImageSource): number => {
+    canvas.width = THUMB_WIDTH;
+    canvas.height = THUMB_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return 0;
+
+    ctx.drawImage(source, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const luma = new Float32Array(THUMB_WIDTH * THUMB_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+
+    let diff = 0;
+    if (previous) {
+      for (let i = 0; i < luma.length; i++) diff += Math.abs(luma[i] - previous[i]);
+      diff /= luma.length;
+    }
+    previous = luma;
+    return diff;
+  };
+
+  return { measure, reset: () => { previous = null; } };
+};
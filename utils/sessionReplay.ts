@@ -0,0 +1,61 @@
+import { SessionArchive, SessionEvent } from '../types';
+
+type EventOf<K extends SessionEvent['kind']> = Extract<SessionEvent, { kind: K }>;
+
+export interface ReplayHandlers {
+  onFrame(event: EventOf<'frame'>): void;
+  onDetections(event: EventOf<'detections'>): void;
+  onResponse(event: EventOf<'response'>): void;
+  onCue?(event: EventOf<'cue'>): void;
+  onEnd?(): void;
+}
+
+export interface ReplayPlayer {
+  play(): void;
+  stop(): void;
+}
+
+// Re-emits recorded events with their original relative timing (scaled by speed)
+export const createReplayPlayer = (archive: SessionArchive, handlers: ReplayHandlers, speed = 1): ReplayPlayer => {
+  const events = [...archive.events].sort((a, b) => a.timestamp - b.timestamp);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let index = 0;
+
+  const dispatch = (event: SessionEvent) => {
+    switch (event.kind) {
+      case 'frame': handlers.onFrame(event); break;
+      case 'detections': handlers.onDetections(event); break;
+      case 'response': handlers.onResponse(event); break;
+      case 'cue': handlers.onCue?.(event); break;
+    }
+  };
+
+  const scheduleNext = () => {
+    if (index >= events.length) {
+      timer = null;
+      handlers.onEnd?.();
+      return;
+    }
+    const event = events[index];
+    const previous = index > 0 ? events[index - 1].timestamp : event.timestamp;
+    timer = setTimeout(() => {
+      index++;
+      dispatch(event);
+      scheduleNext();
+    }, Math.max(0, (event.timestamp - previous) / speed));
+  };
+
+  const play = () => {
+    if (timer) return;
+    console.log(`[SessionReplay] Replaying ${events.length} events from session ${archive.session.id}`);
+    scheduleNext();
+  };
+
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    index = 0;
+  };
+
+  return { play, stop };
+};
@@ -0,0 +1,141 @@
+import { AudioVolumes, EarconCategory, FeedbackChannel, SettingsProfile, SonarSettings, TalkMode, VoiceSettings } from '../types';
+import { DEFAULT_VOICE_SETTINGS } from '../services/speechManager';
+import { DEFAULT_AUDIO_VOLUMES } from './earcons';
+import { MessageKey } from './i18n';
+
+export const DEFAULT_SETTINGS: SonarSettings = {
+  languageCode: 'en',
+  voiceSettings: {},
+  scanIntervalMs: 6000,
+  detectionConfidence: 0.4,
+  importantClasses: ['person', 'car', 'chair', 'couch', 'tv', 'laptop'],
+  audioThemeId: 'classic',
+  audioVolumes: DEFAULT_AUDIO_VOLUMES,
+  feedbackChannel: 'audio',
+  talkMode: 'hold',
+};
+
+// COCO-SSD classes offered in the important-objects list
+export const SELECTABLE_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'bus', 'train', 'truck', 'traffic light', 'fire hydrant', 'stop sign',
+  'bench', 'dog', 'backpack', 'umbrella', 'handbag', 'suitcase', 'chair', 'couch', 'potted plant', 'bed',
+  'dining table', 'toilet', 'tv', 'laptop', 'refrigerator', 'sink',
+];
+
+export const SCAN_INTERVAL_RANGE = { min: 3000, max: 15000 };
+export const CONFIDENCE_RANGE = { min: 0.2, max: 0.8 };
+// What SpeechSynthesisUtterance accepts (and the sliders offer)
+export const RATE_RANGE = { min: 0.5, max: 2 };
+export const PITCH_RANGE = { min: 0, max: 2 };
+
+export const SETTINGS_PROFILES: SettingsProfile[] = [
+  {
+    id: 'indoor',
+    name: 'Indoor',
+    description: 'Slower scans, furniture and doorways',
+    settings: {
+      scanIntervalMs: 8000,
+      detectionConfidence: 0.5,
+      importantClasses: ['person', 'chair', 'couch', 'bed', 'dining table', 'toilet', 'tv', 'laptop', 'potted plant', 'refrigerator', 'sink'],
+      feedbackChannel: 'audio',
+    },
+  },
+  {
+    id: 'street',
+    name: 'Street',
+    description: 'Fast scans, traffic first, felt as well as heard',
+    settings: {
+      scanIntervalMs: 4000,
+      detectionConfidence: 0.4,
+      importantClasses: ['person', 'bicycle', 'car', 'motorcycle', 'bus', 'truck', 'traffic light', 'fire hydrant', 'stop sign', 'bench', 'dog'],
+      feedbackChannel: 'both',
+    },
+  },
+  {
+    id: 'transit',
+    name: 'Transit',
+    description: 'Crowds, luggage and vehicles; quiet cues',
+    settings: {
+      scanIntervalMs: 5000,
+      detectionConfidence: 0.45,
+      importantClasses: ['person', 'bus', 'train', 'bench', 'backpack', 'handbag', 'suitcase', 'umbrella', 'stop sign'],
+      feedbackChannel: 'haptic',
+    },
+  },
+];
+
+// Catalog keys for each profile's name and description, by profile id
+export const PROFILE_MESSAGES: Record<string, { name: MessageKey; description: MessageKey }> = {
+  indoor: { name: 'profileIndoorName', description: 'profileIndoorDescription' },
+  street: { name: 'profileStreetName', description: 'profileStreetDescription' },
+  transit: { name: 'profileTransitName', description: 'profileTransitDescription' },
+};
+
+export const getProfile = (id: string | null): SettingsProfile | null =>
+  SETTINGS_PROFILES.find(profile => profile.id === id) ?? null;
+
+// Without a vibration motor, haptic cues would go nowhere; fall back to sound
+export const fitFeedbackChannel = (channel: FeedbackChannel, hapticsAvailable: boolean): FeedbackChannel =>
+  hapticsAvailable ? channel : 'audio';
+
+export const applyProfile = (settings: SonarSettings, profile: SettingsProfile, hapticsAvailable: boolean): SonarSettings => {
+  const applied = { ...settings, ...profile.settings };
+  return { ...applied, feedbackChannel: fitFeedbackChannel(applied.feedbackChannel, hapticsAvailable) };
+};
+
+const FEEDBACK_CHANNELS: FeedbackChannel[] = ['audio', 'haptic', 'both'];
+const TALK_MODES: TalkMode[] = ['hold', 'toggle'];
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const pickOption = <T extends string>(value: unknown, options: T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+// Rate and pitch go straight into SpeechSynthesisUtterance, so NaN or out-of-range values never get through
+const sanitizeVoiceSettings = (raw: unknown): Record<string, VoiceSettings> =>
+  Object.fromEntries(Object.entries(asRecord(raw)).map(([locale, entry]) => {
+    const value = asRecord(entry);
+    return [locale, {
+      rate: clampNumber(value.rate, RATE_RANGE.min, RATE_RANGE.max, DEFAULT_VOICE_SETTINGS.rate),
+      pitch: clampNumber(value.pitch, PITCH_RANGE.min, PITCH_RANGE.max, DEFAULT_VOICE_SETTINGS.pitch),
+      ...(typeof value.voiceURI === 'string' ? { voiceURI: value.voiceURI } : {}),
+    }];
+  }));
+
+// Each volume feeds a gain node; anything but a number in 0-1 falls back to its default
+const sanitizeVolumes = (raw: unknown): AudioVolumes => {
+  const value = asRecord(raw);
+  const categories = asRecord(value.categories);
+  const isVolume = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1;
+  return {
+    master: isVolume(value.master) ? value.master : DEFAULT_AUDIO_VOLUMES.master,
+    categories: Object.fromEntries(
+      (Object.keys(DEFAULT_AUDIO_VOLUMES.categories) as EarconCategory[]).map(category => {
+        const volume = categories[category];
+        return [category, isVolume(volume) ? volume : DEFAULT_AUDIO_VOLUMES.categories[category]];
+      }),
+    ) as Record<EarconCategory, number>,
+  };
+};
+
+// Stored settings may come from an older version or be hand-edited: keep what's valid, default the rest
+export const sanitizeSettings = (raw: unknown, hapticsAvailable: boolean): SonarSettings => {
+  const value = asRecord(raw);
+  return {
+    languageCode: typeof value.languageCode === 'string' ? value.languageCode : DEFAULT_SETTINGS.languageCode,
+    voiceSettings: sanitizeVoiceSettings(value.voiceSettings),
+    scanIntervalMs: clampNumber(value.scanIntervalMs, SCAN_INTERVAL_RANGE.min, SCAN_INTERVAL_RANGE.max, DEFAULT_SETTINGS.scanIntervalMs),
+    detectionConfidence: clampNumber(value.detectionConfidence, CONFIDENCE_RANGE.min, CONFIDENCE_RANGE.max, DEFAULT_SETTINGS.detectionConfidence),
+    importantClasses: Array.isArray(value.importantClasses)
+      ? value.importantClasses.filter((c: unknown): c is string => typeof c === 'string')
+      : DEFAULT_SETTINGS.importantClasses,
+    audioThemeId: typeof value.audioThemeId === 'string' ? value.audioThemeId : DEFAULT_SETTINGS.audioThemeId,
+    audioVolumes: sanitizeVolumes(value.audioVolumes),
+    feedbackChannel: fitFeedbackChannel(pickOption(value.feedbackChannel, FEEDBACK_CHANNELS, DEFAULT_SETTINGS.feedbackChannel), hapticsAvailable),
+    talkMode: pickOption(value.talkMode, TALK_MODES, DEFAULT_SETTINGS.talkMode),
+  };
+};
@@ -0,0 +1,280 @@
+import { BoundingBox, FrameEdge, ObjectLocation, SceneAnswer, SonarResponse, TextBlock, TextReading, VisualDebug } from '../types';
+
+const SAFETY_STATUSES: SonarResponse['safety_status'][] = ['SAFE', 'CAUTION', 'STOP'];
+const BOX_MAX = 1000;
+
+export interface SonarValidationResult {
+  // null when the payload is unusable and the caller should fall back to STOP
+  response: SonarResponse | null;
+  // Human readable list of fields that were repaired, e.g. "stereo_pan clamped from 1.8 to 1"
+  repairs: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toFiniteNumber = (value: unknown): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Validates one box and coerces it into the 0-1000 normalized space.
+// Returns null when the box cannot be salvaged.
+export const normalizeBoundingBox = (
+  raw: unknown,
+  path: string,
+  repairs: string[],
+  defaultLabel = 'object'
+): BoundingBox | null => {
+  if (!isRecord(raw)) {
+    repairs.push(`${path} dropped: not an object`);
+    return null;
+  }
+
+  const coords = Array.isArray(raw.box_2d) ? raw.box_2d.map(toFiniteNumber) : null;
+  if (!coords || coords.length !== 4 || coords.some(c => c === null)) {
+    repairs.push(`${path} dropped: box_2d must be 4 numbers`);
+    return null;
+  }
+
+  let [ymin, xmin, ymax, xmax] = coords as number[];
+
+  // Some responses use 0-1 fractions instead of the 0-1000 grid
+  if ([ymin, xmin, ymax, xmax].every(c => c >= 0 && c <= 1) && Math.max(ymax, xmax) > 0) {
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(c => c * BOX_MAX);
+    repairs.push(`${path}.box_2d scaled from 0-1 to 0-${BOX_MAX}`);
+  }
+
+  const unclamped = [ymin, xmin, ymax, xmax];
+  const clamped = unclamped.map(c => clamp(c, 0, BOX_MAX));
+  if (clamped.some((c, i) => c !== unclamped[i])) {
+    repairs.push(`${path}.box_2d clamped into 0-${BOX_MAX}`);
+  }
+  [ymin, xmin, ymax, xmax] = clamped;
+
+  if (ymin > ymax || xmin > xmax) {
+    repairs.push(`${path}.box_2d min/max swapped`);
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+  }
+
+  if (ymin === ymax || xmin === xmax) {
+    repairs.push(`${path} dropped: zero-area box`);
+    return null;
+  }
+
+  let label = typeof raw.label === 'string' ? raw.label.trim() : '';
+  if (!label) {
+    repairs.push(`${path}.label defaulted to "${defaultLabel}"`);
+    label = defaultLabel;
+  }
+
+  return { label, box_2d: [ymin, xmin, ymax, xmax] };
+};
+
+const normalizeBoxList = (raw: unknown, path: string, repairs: string[], defaultLabel: string): BoundingBox[] => {
+  if (raw === undefined || raw === null) {
+    repairs.push(`${path} missing, defaulted to []`);
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    repairs.push(`${path} dropped: not an array`);
+    return [];
+  }
+  return raw
+    .map((item, i) => normalizeBoundingBox(item, `${path}[${i}]`, repairs, defaultLabel))
+    .filter((box): box is BoundingBox => box !== null);
+};
+
+const normalizeVisualDebug = (raw: unknown, repairs: string[]): VisualDebug => {
+  if (!isRecord(raw)) {
+    repairs.push('visual_debug missing, defaulted to empty');
+    return { hazards: [], safe_path: [] };
+  }
+  return {
+    hazards: normalizeBoxList(raw.hazards, 'visual_debug.hazards', repairs, 'hazard'),
+    safe_path: normalizeBoxList(raw.safe_path, 'visual_debug.safe_path', repairs, 'path'),
+  };
+};
+
+const normalizeText = (raw: unknown, field: string, repairs: string[]): string => {
+  if (typeof raw === 'string') return raw.trim();
+  if (typeof raw === 'number') {
+    repairs.push(`${field} converted to string`);
+    return String(raw);
+  }
+  repairs.push(`${field} missing, defaulted to ""`);
+  return '';
+};
+
+// Validates and repairs a parsed model payload. Only payloads with neither a usable
+// safety_status nor a navigation_command are rejected outright.
+export const validateSonarResponse = (raw: unknown): SonarValidationResult => {
+  const repairs: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { response: null, repairs: ['payload is not a JSON object'] };
+  }
+
+  const rawStatus = typeof raw.safety_status === 'string' ? raw.safety_status.trim().toUpperCase() : '';
+  const statusValid = (SAFETY_STATUSES as string[]).includes(rawStatus);
+  const navigation_command = normalizeText(raw.navigation_command, 'navigation_command', repairs);
+
+  if (!statusValid && !navigation_command) {
+    return { response: null, repairs: [...repairs, 'no usable safety_status or navigation_command'] };
+  }
+
+  let safety_status: SonarResponse['safety_status'];
+  if (statusValid) {
+    safety_status = rawStatus as SonarResponse['safety_status'];
+    if (rawStatus !== raw.safety_status) repairs.push(`safety_status normalized from "${raw.safety_status}"`);
+  } else {
+    // Unknown status but a usable command: warn the user instead of halting them
+    safety_status = 'CAUTION';
+    repairs.push(`safety_status "${String(raw.safety_status)}" unknown, defaulted to CAUTION`);
+  }
+
+  let stereo_pan = toFiniteNumber(raw.stereo_pan);
+  if (stereo_pan === null) {
+    repairs.push('stereo_pan missing or invalid, defaulted to 0');
+    stereo_pan = 0;
+  } else if (stereo_pan < -1 || stereo_pan > 1) {
+    const clampedPan = clamp(stereo_pan, -1, 1);
+    repairs.push(`stereo_pan clamped from ${stereo_pan} to ${clampedPan}`);
+    stereo_pan = clampedPan;
+  }
+
+  return {
+    response: {
+      safety_status,
+      reasoning_summary: normalizeText(raw.reasoning_summary, 'reasoning_summary', repairs),
+      navigation_command,
+      stereo_pan,
+      visual_debug: normalizeVisualDebug(raw.visual_debug, repairs),
+    },
+    repairs,
+  };
+};
+
+export interface SceneAnswerValidationResult {
+  // null when there is no answer text to speak
+  answer: SceneAnswer | null;
+  repairs: string[];
+}
+
+// Validates a parsed askAboutScene payload. Only a missing answer is fatal.
+export const validateSceneAnswer = (raw: unknown): SceneAnswerValidationResult => {
+  const repairs: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { answer: null, repairs: ['payload is not a JSON object'] };
+  }
+
+  const answer = normalizeText(raw.answer, 'answer', repairs);
+  if (!answer) {
+    return { answer: null, repairs: [...repairs, 'no usable answer'] };
+  }
+
+  let confidence = toFiniteNumber(raw.confidence);
+  if (confidence === null) {
+    repairs.push('confidence missing or invalid, defaulted to 0.5');
+    confidence = 0.5;
+  } else if (confidence > 1 && confidence <= 100) {
+    repairs.push(`confidence scaled from percent (${confidence})`);
+    confidence = confidence / 100;
+  }
+  confidence = clamp(confidence, 0, 1);
+
+  const ocrText = typeof raw.ocr_text === 'string' ? raw.ocr_text.trim() : '';
+
+  return {
+    answer: {
+      answer,
+      confidence,
+      regions: normalizeBoxList(raw.regions, 'regions', repairs, 'region'),
+      ...(ocrText ? { ocr_text: ocrText } : {}),
+    },
+    repairs,
+  };
+};
+
+export interface ObjectLocationValidationResult {
+  // null when the target was not found or the payload is unusable
+  location: ObjectLocation | null;
+  repairs: string[];
+}
+
+// Validates a parsed locateObject payload; found=false is a normal "not in view".
+export const validateObjectLocation = (raw: unknown, target: string): ObjectLocationValidationResult => {
+  const repairs: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { location: null, repairs: ['payload is not a JSON object'] };
+  }
+  if (raw.found === false) {
+    return { location: null, repairs };
+  }
+
+  const box = normalizeBoundingBox({ label: raw.label, box_2d: raw.box_2d }, 'location', repairs, target);
+  if (!box) return { location: null, repairs };
+
+  let confidence = toFiniteNumber(raw.confidence);
+  if (confidence === null) {
+    repairs.push('confidence missing or invalid, defaulted to 0.5');
+    confidence = 0.5;
+  }
+
+  return { location: { label: box.label, box_2d: box.box_2d, confidence: clamp(confidence, 0, 1) }, repairs };
+};
+
+const FRAME_EDGES: FrameEdge[] = ['left', 'right', 'top', 'bottom'];
+
+export interface TextReadingValidationResult {
+  reading: TextReading | null;
+  repairs: string[];
+}
+
+// Validates a parsed readText payload. Blocks without text or a usable box are
+// dropped; an empty block list is a valid "no text in view" result.
+export const validateTextReading = (raw: unknown): TextReadingValidationResult => {
+  const repairs: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { reading: null, repairs: ['payload is not a JSON object'] };
+  }
+  if (!Array.isArray(raw.blocks)) {
+    return { reading: null, repairs: ['blocks missing or not an array'] };
+  }
+
+  const blocks = raw.blocks
+    .map((item, i): TextBlock | null => {
+      const path = `blocks[${i}]`;
+      if (!isRecord(item)) {
+        repairs.push(`${path} dropped: not an object`);
+        return null;
+      }
+      const text = typeof item.text === 'string' ? item.text.trim() : '';
+      if (!text) {
+        repairs.push(`${path} dropped: no text`);
+        return null;
+      }
+      const box = normalizeBoundingBox({ label: text, box_2d: item.box_2d }, path, repairs);
+      if (!box) return null;
+      const cutOff = Array.isArray(item.cut_off)
+        ? item.cut_off.filter((edge): edge is FrameEdge => (FRAME_EDGES as unknown[]).includes(edge))
+        : [];
+      const translation = typeof item.translation === 'string' ? item.translation.trim() : '';
+      return {
+        text,
+        ...(translation ? { translation } : {}),
+        box_2d: box.box_2d,
+        cut_off: cutOff,
+      };
+    })
+    .filter((block): block is TextBlock => block !== null);
+
+  const language = typeof raw.language === 'string' && raw.language.trim() ? raw.language.trim() : undefined;
+  return { reading: { blocks, ...(language ? { language } : {}) }, repairs };
+};
@@ -0,0 +1,60 @@
+import { LocalHazard, SonarResponse, SoundscapeSource, TrackedObject } from '../types';
+
+export interface SoundscapeSourceOptions {
+  // Tracks missing for more frames than this fall silent
+  maxMissedFrames?: number;
+  minScore?: number;
+  // Gemini hazards are voiced only while their response is this fresh
+  maxResponseAgeMs?: number;
+}
+
+// sqrt(area ratio) scaled so an object filling half the frame is at full proximity
+const proximityFromArea = (areaRatio: number) => Math.min(1, Math.sqrt(Math.max(0, areaRatio)) * 1.4);
+
+// Soundscape voices for the current frame: every confidently tracked object, plus
+// the hazard boxes of a recent Gemini response. The local hazard's track is voiced
+// as a hazard.
+export const buildSoundscapeSources = (
+  tracks: TrackedObject[],
+  hazard: LocalHazard | null,
+  response: SonarResponse | null,
+  frameWidth: number,
+  frameHeight: number,
+  now: number,
+  options: SoundscapeSourceOptions = {}
+): SoundscapeSource[] => {
+  const maxMissedFrames = options.maxMissedFrames ?? 2;
+  const minScore = options.minScore ?? 0.5;
+  const maxResponseAgeMs = options.maxResponseAgeMs ?? 4000;
+  const sources: SoundscapeSource[] = [];
+
+  if (frameWidth > 0 && frameHeight > 0) {
+    for (const track of tracks) {
+      if (track.missedFrames > maxMissedFrames || track.score < minScore) continue;
+      const [x, y, w, h] = track.bbox;
+      sources.push({
+        id: `track-${track.id}`,
+        kind: hazard?.trackId === track.id ? 'hazard' : 'obstacle',
+        azimuth: ((x + w / 2) / frameWidth) * 2 - 1,
+        elevation: 1 - ((y + h / 2) / frameHeight) * 2,
+        proximity: proximityFromArea((w * h) / (frameWidth * frameHeight)),
+      });
+    }
+  }
+
+  const responseAge = response?.captured_at !== undefined ? now - response.captured_at : Infinity;
+  if (response && responseAge <= maxResponseAgeMs) {
+    response.visual_debug.hazards.forEach((box, i) => {
+      const [ymin, xmin, ymax, xmax] = box.box_2d;
+      sources.push({
+        id: `gemini-${i}-${box.label}`,
+        kind: 'hazard',
+        azimuth: (xmin + xmax) / 1000 - 1,
+        elevation: 1 - (ymin + ymax) / 1000,
+        proximity: proximityFromArea(((ymax - ymin) / 1000) * ((xmax - xmin) / 1000)),
+      });
+    });
+  }
+
+  return sources;
+};
@@ -0,0 +1,75 @@
+import { SafetyStatus, SonarResponse, StabilizedStatus } from '../types';
+
+const SEVERITY: Record<SafetyStatus, number> = { SAFE: 0, CAUTION: 1, STOP: 2 };
+
+export interface StatusTrackerOptions {
+  // Consecutive less-severe frames required before de-escalating
+  deescalateFrames?: number;
+  // Exponential smoothing factor for stereo_pan (1 = no smoothing)
+  panSmoothing?: number;
+}
+
+export interface StatusTracker {
+  update(response: SonarResponse): StabilizedStatus;
+  reset(): void;
+  getState(): StabilizedStatus | null;
+}
+
+// Hysteresis over safety_status: escalate immediately, de-escalate only after
+// several agreeing frames, so one noisy frame can't flip the user back to SAFE.
+export const createStatusTracker = (options: StatusTrackerOptions = {}): StatusTracker => {
+  const deescalateFrames = Math.max(1, options.deescalateFrames ?? 2);
+  const panSmoothing = Math.max(0, Math.min(1, options.panSmoothing ?? 0.5));
+
+  let state: StabilizedStatus | null = null;
+  // Most severe status seen among the pending lower-severity frames
+  let pendingStatus: SafetyStatus | null = null;
+
+  const update = (response: SonarResponse): StabilizedStatus => {
+    const incoming = response.safety_status;
+    const pan = response.stereo_pan;
+
+    if (!state) {
+      state = { safety_status: incoming, stereo_pan: pan, changed: true, escalated: incoming !== 'SAFE', pendingFrames: 0 };
+      return state;
+    }
+
+    const current = state.safety_status;
+    let next = current;
+    let pendingFrames = 0;
+    let smoothedPan = state.stereo_pan + panSmoothing * (pan - state.stereo_pan);
+
+    if (SEVERITY[incoming] > SEVERITY[current]) {
+      next = incoming;
+      // Point the user at the new hazard right away rather than easing towards it
+      smoothedPan = pan;
+      pendingStatus = null;
+    } else if (SEVERITY[incoming] < SEVERITY[current]) {
+      pendingFrames = state.pendingFrames + 1;
+      if (!pendingStatus || SEVERITY[incoming] > SEVERITY[pendingStatus]) pendingStatus = incoming;
+      if (pendingFrames >= deescalateFrames) {
+        next = pendingStatus;
+        pendingFrames = 0;
+        pendingStatus = null;
+      }
+    } else {
+      pendingStatus = null;
+    }
+
+    state = {
+      safety_status: next,
+      stereo_pan: Math.max(-1, Math.min(1, smoothedPan)),
+      changed: next !== current,
+      escalated: SEVERITY[next] > SEVERITY[current],
+      pendingFrames,
+    };
+    return state;
+  };
+
+  const reset = () => {
+    state = null;
+    pendingStatus = null;
+  };
+
+  return { update, reset, getState: () => state };
+};
@@ -0,0 +1,71 @@
+import { FrameEdge, TextBlock } from '../types';
+import { MessageKey } from './i18n';
+
+export interface FramingOptions {
+  // Boxes within this distance of an edge (0-1000 grid) are treated as cut off
+  edgeMargin?: number;
+  // Tallest block below this height (0-1000) is too small to read reliably
+  minTextHeight?: number;
+}
+
+// Spoken hint telling the user how to move the camera, or null when the text is well framed
+export type FramingHint = { edge: FrameEdge | 'closer'; message: MessageKey };
+
+const EDGE_MESSAGES: Record<FrameEdge, MessageKey> = {
+  left: 'readHintLeft',
+  right: 'readHintRight',
+  top: 'readHintTop',
+  bottom: 'readHintBottom',
+};
+
+// Groups blocks into lines (overlapping vertical extents), then orders left to right
+export const sortReadingOrder = (blocks: TextBlock[]): TextBlock[] => {
+  const byTop = [...blocks].sort((a, b) => a.box_2d[0] - b.box_2d[0]);
+  const lines: TextBlock[][] = [];
+  for (const block of byTop) {
+    const line = lines[lines.length - 1];
+    const [ymin, , ymax] = block.box_2d;
+    const lineCenter = line ? (line[0].box_2d[0] + line[0].box_2d[2]) / 2 : -1;
+    if (line && lineCenter >= ymin && lineCenter <= ymax) {
+      line.push(block);
+    } else {
+      lines.push([block]);
+    }
+  }
+  return lines.flatMap(line => line.sort((a, b) => a.box_2d[1] - b.box_2d[1]));
+};
+
+// Only the model's own report means words are missing. A full-width line or a page held
+// close touches the edges too, and must still be read.
+export const isTruncated = (block: TextBlock): boolean => block.cut_off.length > 0;
+
+// Edges a block may run past, for framing hints: those the model reported plus any its box touches
+export const cutOffEdges = (block: TextBlock, edgeMargin = 15): FrameEdge[] => {
+  const [ymin, xmin, ymax, xmax] = block.box_2d;
+  const edges = new Set<FrameEdge>(block.cut_off);
+  if (xmin <= edgeMargin) edges.add('left');
+  if (xmax >= 1000 - edgeMargin) edges.add('right');
+  if (ymin <= edgeMargin) edges.add('top');
+  if (ymax >= 1000 - edgeMargin) edges.add('bottom');
+  return [...edges];
+};
+
+// Decides whether the user should re-aim: toward the edge most blocks run past,
+// or closer when all text is too small to read reliably.
+export const getFramingHint = (blocks: TextBlock[], options: FramingOptions = {}): FramingHint | null => {
+  if (!blocks.length) return null;
+  const edgeMargin = options.edgeMargin ?? 15;
+  const minTextHeight = options.minTextHeight ?? 25;
+
+  const counts: Record<FrameEdge, number> = { left: 0, right: 0, top: 0, bottom: 0 };
+  blocks.forEach(block => cutOffEdges(block, edgeMargin).forEach(edge => counts[edge]++));
+  const [edge, count] = (Object.entries(counts) as [FrameEdge, number][]).sort((a, b) => b[1] - a[1])[0];
+  if (count > 0) return { edge, message: EDGE_MESSAGES[edge] };
+
+  const tallest = Math.max(...blocks.map(b => b.box_2d[2] - b.box_2d[0]));
+  if (tallest < minTextHeight) return { edge: 'closer', message: 'readHintCloser' };
+  return null;
+};
+
+// Comparison key so the same text read twice in a row (slightly different OCR) isn't repeated
+export const textKey = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
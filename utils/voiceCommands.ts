@@ -0,0 +1,119 @@
+import { englishPhrases, getLanguagePacks, GrammarKey, PhraseBook } from './i18n';
+
+// Hands-free control: a wake phrase followed by a short command, parsed on-device.
+// Anything outside the grammar is treated as a free-form question about the scene.
+// The phrases themselves live in the language packs.
+
+export type VoiceCommand =
+  | { kind: 'start' }
+  | { kind: 'pause' }
+  | { kind: 'whatsAhead' }
+  | { kind: 'readText' }
+  | { kind: 'switchLanguage'; languageCode: string }
+  | { kind: 'switchProfile'; profileId: string }
+  | { kind: 'louder' }
+  | { kind: 'quieter' }
+  | { kind: 'question'; text: string };
+
+const COMMAND_KINDS: Exclude<VoiceCommand['kind'], 'switchLanguage' | 'switchProfile' | 'question'>[] =
+  ['start', 'pause', 'whatsAhead', 'readText', 'louder', 'quieter'];
+
+// Grammar entry with the spoken names of each built-in language
+const LANGUAGE_PHRASES: Record<string, GrammarKey> = {
+  en: 'languageEn',
+  es: 'languageEs',
+  fr: 'languageFr',
+  de: 'languageDe',
+  ja: 'languageJa',
+  vi: 'languageVi',
+  zh: 'languageZh',
+  ar: 'languageAr',
+};
+
+// Grammar entry with the spoken names of each settings profile
+const PROFILE_PHRASES: Record<string, GrammarKey> = {
+  indoor: 'profileIndoor',
+  street: 'profileStreet',
+  transit: 'profileTransit',
+};
+
+// Japanese and Chinese don't separate words, and recognizers space them inconsistently
+const CJK = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+// Whole-word prefix / suffix checks on normalized text
+const startsWithWord = (text: string, word: string) =>
+  text.startsWith(word) && (text.length === word.length || CJK.test(word) || text[word.length] === ' ' || CJK.test(text[word.length]));
+const endsWithWord = (text: string, word: string) => {
+  const before = text[text.length - word.length - 1];
+  return text.endsWith(word) && (text.length === word.length || CJK.test(word) || before === ' ' || CJK.test(before));
+};
+
+export const normalizeUtterance = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[.,!?¡¿。！？、،؟]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/ ?([\u3040-\u30ff\u3400-\u9fff]) ?/g, '$1');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const matchesPhrase = (text: string, phrases: string[]) =>
+  phrases.some(phrase => normalizeUtterance(phrase) === text);
+
+// What each matching template's {placeholder} captured: "find {target}" on "find the door" -> ["the door"]
+export const matchTemplates = (text: string, templates: string[]): string[] =>
+  templates.flatMap(template => {
+    const parts = normalizeUtterance(template).split(/\{\w+\}/);
+    const match = parts.length === 2 ? text.match(new RegExp(`^${escapeRegExp(parts[0])}(.+)${escapeRegExp(parts[1])}$`)) : null;
+    return match ? [match[1].trim()] : [];
+  });
+
+// Drops any of the words from the start (and with fromEnd, the end) of the text
+export const stripWords = (text: string, words: string[], fromEnd = false): string => {
+  let result = text;
+  for (const word of words.map(normalizeUtterance)) {
+    if (result !== word && startsWithWord(result, word)) result = result.slice(word.length).trim();
+    if (fromEnd && result !== word && endsWithWord(result, word)) result = result.slice(0, -word.length).trim();
+  }
+  return result;
+};
+
+// Text after the wake phrase ('' when the user only said the wake phrase), or null without one
+export const stripWakePhrase = (transcript: string, wakePhrases: string[]): string | null => {
+  const normalized = normalizeUtterance(transcript);
+  // Longest first so "hey sonar" wins over "sonar"
+  const phrase = wakePhrases
+    .map(normalizeUtterance)
+    .sort((a, b) => b.length - a.length)
+    .find(p => startsWithWord(normalized, p));
+  return phrase === undefined ? null : normalized.slice(phrase.length).trim();
+};
+
+const findLanguage = (name: string, phrases: PhraseBook): string | null =>
+  getLanguagePacks().find(pack => {
+    const key = LANGUAGE_PHRASES[pack.code];
+    return matchesPhrase(name, [pack.name, pack.nativeName, ...(key ? phrases(key) : [])]);
+  })?.code ?? null;
+
+const findProfile = (name: string, phrases: PhraseBook): string | null =>
+  Object.keys(PROFILE_PHRASES).find(id => matchesPhrase(name, phrases(PROFILE_PHRASES[id]))) ?? null;
+
+export const parseVoiceCommand = (transcript: string, phrases: PhraseBook = englishPhrases): VoiceCommand => {
+  const normalized = stripWords(normalizeUtterance(transcript), phrases('please'), true);
+  const kind = COMMAND_KINDS.find(k => matchesPhrase(normalized, phrases(k)));
+  if (kind) return { kind };
+
+  const switchNames = matchTemplates(normalized, phrases('switchTo'));
+  for (const name of switchNames) {
+    const languageCode = findLanguage(name, phrases);
+    if (languageCode) return { kind: 'switchLanguage', languageCode };
+  }
+  // Profiles need a "switch to" or a "mode" / "profile" word so a bare "outside" stays a question
+  const modeNames = [normalized, ...switchNames].flatMap(name => matchTemplates(name, phrases('profileMode')));
+  for (const name of [...switchNames, ...modeNames]) {
+    const profileId = findProfile(name, phrases);
+    if (profileId) return { kind: 'switchProfile', profileId };
+  }
+  return { kind: 'question', text: transcript.trim() };
+};
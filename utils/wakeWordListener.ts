@@ -0,0 +1,150 @@
+import { stripWakePhrase } from './voiceCommands';
+
+// Minimal typing for the (prefixed) Web Speech API recognizer, which lib.dom doesn't declare
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+export interface WakeWordListenerOptions {
+  // After a bare wake phrase, the next utterance within this window is the command
+  commandWindowMs?: number;
+  // Wake phrase heard on its own; the app should prompt for the command
+  onWake(): void;
+  // Command or question that followed the wake phrase
+  onCommand(text: string): void;
+  onError?(error: string): void;
+  // Consecutive network failures tolerated (with growing delays) before giving up
+  maxNetworkRetries?: number;
+  retryDelayMs?: number;
+  // e.g. while the app itself is talking, so it never wakes itself up
+  isMuted?(): boolean;
+}
+
+export interface WakeWordListener {
+  isSupported: boolean;
+  // Wake phrases come from the language pack for the locale
+  start(locale: string, wakePhrases: string[]): void;
+  stop(): void;
+  isRunning(): boolean;
+}
+
+const getRecognitionConstructor = (): (new () => SpeechRecognitionLike) | null =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+// Continuous listening via the browser recognizer. Only final results are checked for the
+// wake phrase and the app ignores the rest, but the recognizer itself may be a cloud service
+// (Chrome's webkitSpeechRecognition streams the microphone to it), so it needs a connection.
+export const createWakeWordListener = (options: WakeWordListenerOptions): WakeWordListener => {
+  const commandWindowMs = options.commandWindowMs ?? 5000;
+  const maxNetworkRetries = options.maxNetworkRetries ?? 5;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const Recognition = getRecognitionConstructor();
+
+  let recognition: SpeechRecognitionLike | null = null;
+  let locale = '';
+  let wakePhrases: string[] = [];
+  let armedUntil = 0;
+  let networkFailures = 0;
+  let restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleTranscript = (transcript: string) => {
+    const now = Date.now();
+    if (now < armedUntil) {
+      armedUntil = 0;
+      options.onCommand(transcript);
+      return;
+    }
+    const rest = stripWakePhrase(transcript, wakePhrases);
+    if (rest === null) return;
+    if (rest) {
+      options.onCommand(rest);
+    } else {
+      armedUntil = now + commandWindowMs;
+      options.onWake();
+    }
+  };
+
+  const stop = () => {
+    const active = recognition;
+    recognition = null;
+    armedUntil = 0;
+    networkFailures = 0;
+    if (restartTimer) clearTimeout(restartTimer);
+    restartTimer = null;
+    if (active) {
+      active.onend = null;
+      active.abort();
+      console.log("[WakeWord] Stopped listening");
+    }
+  };
+
+  const start = (newLocale: string, newWakePhrases: string[]) => {
+    if (!Recognition) return;
+    wakePhrases = newWakePhrases;
+    if (recognition && locale === newLocale) return;
+    stop();
+    locale = newLocale;
+
+    const instance = new Recognition();
+    instance.lang = newLocale;
+    instance.continuous = true;
+    instance.interimResults = false;
+    instance.onresult = event => {
+      networkFailures = 0;
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (!result.isFinal || options.isMuted?.()) continue;
+        const transcript = result[0]?.transcript?.trim();
+        if (transcript) handleTranscript(transcript);
+      }
+    };
+    instance.onerror = event => {
+      // Silence ends the session; onend restarts it
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      // Network blips are retried with growing delays; offline, retrying would just spin
+      if (event.error === 'network' && ++networkFailures <= maxNetworkRetries) {
+        console.warn(`[WakeWord] Network error (${networkFailures}/${maxNetworkRetries})`);
+        return;
+      }
+      console.error("[WakeWord] Recognition error", event.error);
+      stop();
+      options.onError?.(event.error);
+    };
+    // Browsers end continuous recognition periodically; keep it going until stopped
+    instance.onend = () => {
+      if (recognition !== instance) return;
+      const restart = () => {
+        restartTimer = null;
+        if (recognition !== instance) return;
+        try {
+          instance.start();
+        } catch (e) {
+          console.warn("[WakeWord] Restart failed", e);
+        }
+      };
+      if (networkFailures > 0) {
+        restartTimer = setTimeout(restart, retryDelayMs * 2 ** (networkFailures - 1));
+      } else {
+        restart();
+      }
+    };
+    recognition = instance;
+    instance.start();
+    console.log(`[WakeWord] Listening for wake phrase (${newLocale})`);
+  };
+
+  return {
+    isSupported: !!Recognition,
+    start,
+    stop,
+    isRunning: () => recognition !== null,
+  };
+};